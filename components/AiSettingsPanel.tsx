@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { Cloud, PlugZap, RefreshCw, Server, Settings2, X } from 'lucide-react';
+import { AiProviderKind, AiSettings } from '../types';
+import {
+  AI_PROVIDER_LABELS,
+  DEFAULT_MODELS,
+  describeSettingsProblem,
+  isRemoteProvider,
+  listModels,
+  testConnection
+} from '../services/aiProvider';
+
+interface AiSettingsPanelProps {
+  settings: AiSettings;
+  onSave: (settings: AiSettings) => void;
+  onClose: () => void;
+}
+
+const GEMINI_MODELS = ['gemini-3-pro-preview', 'gemini-2.5-pro', 'gemini-2.5-flash'];
+
+const AiSettingsPanel = ({ settings, onSave, onClose }: AiSettingsPanelProps) => {
+  const [draft, setDraft] = useState<AiSettings>(settings);
+  const [models, setModels] = useState<string[]>([]);
+  const [status, setStatus] = useState<{ ok: boolean; text: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const problem = describeSettingsProblem(draft);
+  const remote = isRemoteProvider(draft);
+
+  const update = (patch: Partial<AiSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setStatus(null);
+  };
+
+  const selectProvider = (provider: AiProviderKind) => {
+    if (provider === draft.provider) return;
+    update({ provider, model: DEFAULT_MODELS[provider], apiKey: '' });
+    setModels([]);
+  };
+
+  const fetchModels = async () => {
+    try {
+      const found = await listModels(draft);
+      setModels(found);
+      setStatus({ ok: true, text: `找到 ${found.length} 個模型` });
+    } catch (error) {
+      setStatus({ ok: false, text: `無法取得模型清單：${error instanceof Error ? error.message : String(error)}` });
+    }
+  };
+
+  const runTest = async () => {
+    setIsTesting(true);
+    setStatus(null);
+    try {
+      await testConnection(draft, AbortSignal.timeout(60000));
+      setStatus({ ok: true, text: '連線成功，模型可回傳結構化結果' });
+    } catch (error) {
+      setStatus({ ok: false, text: `連線失敗：${error instanceof Error ? error.message : String(error)}` });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="w-full max-w-xl bg-white rounded-[32px] shadow-2xl flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="flex items-center gap-2 text-lg font-black text-slate-900"><Settings2 className="w-5 h-5" /> AI 分析服務</h3>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">選擇分析使用的模型與端點</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(AI_PROVIDER_LABELS) as AiProviderKind[]).map(provider => (
+              <button
+                key={provider}
+                onClick={() => selectProvider(provider)}
+                className={`flex items-center gap-2 p-3 rounded-2xl border text-left text-xs font-bold transition-all ${
+                  draft.provider === provider ? 'border-emerald-500 bg-emerald-50 text-emerald-800' : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                }`}
+              >
+                {provider === 'gemini' ? <Cloud className="w-4 h-4 shrink-0" /> : <Server className="w-4 h-4 shrink-0" />}
+                {AI_PROVIDER_LABELS[provider]}
+              </button>
+            ))}
+          </div>
+
+          {draft.provider === 'openai' && (
+            <label className="block">
+              <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">端點（Base URL）</span>
+              <input
+                value={draft.endpoint}
+                onChange={(e) => update({ endpoint: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-emerald-500/20"
+              />
+            </label>
+          )}
+
+          <label className="block">
+            <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">模型</span>
+            <div className="flex gap-2">
+              <input
+                value={draft.model}
+                onChange={(e) => update({ model: e.target.value })}
+                list="ai-model-options"
+                className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-emerald-500/20"
+              />
+              {draft.provider === 'openai' && (
+                <button
+                  onClick={fetchModels}
+                  title="從端點取得模型清單"
+                  className="px-3 bg-slate-100 rounded-xl text-slate-600 hover:bg-slate-200 transition-all"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            <datalist id="ai-model-options">
+              {(draft.provider === 'gemini' ? GEMINI_MODELS : models).map(m => <option key={m} value={m} />)}
+            </datalist>
+          </label>
+
+          <label className="block">
+            <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">
+              API 金鑰{draft.provider === 'gemini' ? '（留空則使用建置時設定的金鑰）' : '（選填）'}
+            </span>
+            <input
+              type="password"
+              value={draft.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              autoComplete="off"
+              className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-emerald-500/20"
+            />
+          </label>
+
+          {draft.apiKey && (
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={draft.rememberApiKey}
+                  onChange={(e) => update({ rememberApiKey: e.target.checked })}
+                  className="accent-emerald-600"
+                />
+                在這台電腦上記住金鑰
+              </label>
+              <p className={`text-[11px] font-bold ${draft.rememberApiKey ? 'text-red-600' : 'text-slate-400'}`}>
+                {draft.rememberApiKey
+                  ? '金鑰將以明文存放於瀏覽器，使用這台電腦的其他人都能取得。共用電腦請勿勾選。'
+                  : '金鑰只保留到關閉此分頁為止，下次開啟需重新輸入。'}
+              </p>
+            </div>
+          )}
+
+          <div className={`p-3 rounded-xl border text-[11px] font-bold ${remote ? 'bg-amber-50 border-amber-100 text-amber-700' : 'bg-emerald-50 border-emerald-100 text-emerald-700'}`}>
+            {remote
+              ? '對話內容將傳送至外部服務，送出前可預覽並遮蔽個資。'
+              : '端點位於本機，對話內容不會離開這台電腦。'}
+          </div>
+
+          {(problem || status) && (
+            <p className={`text-[11px] font-bold ${status?.ok ? 'text-emerald-600' : 'text-red-600'}`}>{status?.text || problem}</p>
+          )}
+        </div>
+
+        <div className="px-8 py-4 border-t border-slate-100 flex items-center justify-end gap-2">
+          <button
+            onClick={runTest}
+            disabled={!!problem || isTesting}
+            className="mr-auto flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all disabled:opacity-50"
+          >
+            <PlugZap className="w-4 h-4" /> {isTesting ? '測試中…' : '測試連線'}
+          </button>
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100 transition-all">取消</button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!!problem}
+            className="px-4 py-2 rounded-xl text-sm font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all disabled:opacity-50"
+          >
+            儲存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsPanel;
@@ -0,0 +1,372 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BrainCircuit,
+  Briefcase,
+  ExternalLink,
+  FileDown,
+  MessageSquare,
+  Pencil,
+  Plus,
+  Printer,
+  RotateCcw,
+  Search,
+  Square,
+  Trash2,
+  X
+} from 'lucide-react';
+import { CaseEvent, CaseFolder, ChatMessage, ChatSession, ParticipantProfile, TagRule } from '../types';
+import { PARTICIPANT_ROLE_LABELS, buildParticipantIndex } from '../services/participants';
+import { chatLabel, splitCaseMessageId } from '../services/cases';
+import { messageKindOf } from '../services/messageKinds';
+import { ROLE_COLORS } from './roleConfig';
+import CommitmentList from './CommitmentList';
+import EventTimeline from './EventTimeline';
+import SystemMessageRow from './SystemMessageRow';
+
+interface CaseViewProps {
+  folder: CaseFolder;
+  sessions: ChatSession[];
+  members: ChatSession[];
+  messages: ChatMessage[]; // 合併時間軸，成員訊息尚未全部載入時為空
+  isLoaded: boolean;
+  profiles: ParticipantProfile[];
+  tagRules: TagRule[];
+  isAnalyzing: boolean;
+  canAnalyze: boolean;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onAddSession: (sessionId: string) => void;
+  onRemoveSession: (sessionId: string) => void;
+  onOpenSession: (sessionId: string) => void;
+  onAnalyze: () => void;
+  onCancelAnalysis: () => void;
+  onExportReport: (format: 'html' | 'pdf') => void;
+}
+
+// 依成員加入順序配色，用於區分訊息來源
+const CHAT_COLORS = [
+  'bg-blue-50 text-blue-700 border-blue-200',
+  'bg-emerald-50 text-emerald-700 border-emerald-200',
+  'bg-purple-50 text-purple-700 border-purple-200',
+  'bg-amber-50 text-amber-700 border-amber-200',
+  'bg-pink-50 text-pink-700 border-pink-200',
+  'bg-sky-50 text-sky-700 border-sky-200',
+];
+
+const RISK_COLORS: Record<CaseEvent['riskLevel'], string> = {
+  '高': 'text-red-600 bg-red-50 border-red-100',
+  '中': 'text-orange-600 bg-orange-50 border-orange-100',
+  '低': 'text-emerald-600 bg-emerald-50 border-emerald-100',
+};
+
+const jumpToMessage = (id: string) => {
+  const el = document.getElementById(id);
+  el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  el?.classList.add('ring-2', 'ring-emerald-400', 'ring-offset-4');
+  setTimeout(() => el?.classList.remove('ring-2', 'ring-emerald-400', 'ring-offset-4'), 2000);
+};
+
+const CaseView = ({
+  folder,
+  sessions,
+  members,
+  messages,
+  isLoaded,
+  profiles,
+  tagRules,
+  isAnalyzing,
+  canAnalyze,
+  onRename,
+  onDelete,
+  onAddSession,
+  onRemoveSession,
+  onOpenSession,
+  onAnalyze,
+  onCancelAnalysis,
+  onExportReport,
+}: CaseViewProps) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [hiddenChats, setHiddenChats] = useState<Set<string>>(() => new Set());
+  const [showReportMenu, setShowReportMenu] = useState(false);
+
+  const participantIndex = useMemo(() => buildParticipantIndex(profiles), [profiles]);
+  const messagesById = useMemo(() => new Map<string, ChatMessage>(messages.map(m => [m.id, m])), [messages]);
+  const chatColors = useMemo(
+    () => new Map(members.map((s, i) => [s.id, CHAT_COLORS[i % CHAT_COLORS.length]])),
+    [members]
+  );
+  const candidates = sessions.filter(s => !folder.sessionIds.includes(s.id));
+
+  const visibleByDate = useMemo<[string, ChatMessage[]][]>(() => {
+    const term = searchTerm.toLowerCase();
+    const groups = new Map<string, ChatMessage[]>();
+    messages.forEach(m => {
+      if (hiddenChats.has(splitCaseMessageId(m.id).sessionId)) return;
+      if (term && !m.content.toLowerCase().includes(term) && !m.sender.toLowerCase().includes(term)) return;
+      if (!groups.has(m.date)) groups.set(m.date, []);
+      groups.get(m.date)!.push(m);
+    });
+    return Array.from(groups.entries());
+  }, [messages, hiddenChats, searchTerm]);
+
+  const toggleChat = (sessionId: string) => {
+    setHiddenChats(prev => {
+      const next = new Set(prev);
+      if (next.has(sessionId)) next.delete(sessionId);
+      else next.add(sessionId);
+      return next;
+    });
+  };
+
+  const rename = () => {
+    const name = prompt('案件名稱：', folder.name);
+    if (name?.trim() && name.trim() !== folder.name) onRename(name.trim());
+  };
+
+  const chatBadge = (messageId: string, label?: string) => (
+    <span className={`px-1.5 py-0.5 rounded text-[9px] font-black border whitespace-nowrap ${chatColors.get(splitCaseMessageId(messageId).sessionId) || CHAT_COLORS[0]}`}>
+      {label}
+    </span>
+  );
+
+  const analysis = folder.analysis;
+  const job = folder.analysisJob;
+
+  return (
+    <div className="flex-1 flex min-w-0">
+      <div className="flex-1 flex flex-col min-w-0 bg-slate-100">
+        <header className="bg-white border-b border-slate-200 px-8 py-5 space-y-4 z-10">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4 min-w-0">
+              <div className="w-12 h-12 bg-slate-900 rounded-2xl flex items-center justify-center shrink-0">
+                <Briefcase className="w-6 h-6 text-white" />
+              </div>
+              <div className="min-w-0">
+                <button onClick={rename} title="重新命名" className="group flex items-center gap-2 text-xl font-black text-slate-900 truncate">
+                  {folder.name}
+                  <Pencil className="w-3.5 h-3.5 text-slate-300 opacity-0 group-hover:opacity-100 transition-all" />
+                </button>
+                <div className="flex items-center gap-4 text-xs font-bold text-slate-400">
+                  <span>{members.length} 個對話</span>
+                  <span className="flex items-center gap-1"><MessageSquare className="w-3 h-3" /> {isLoaded ? messages.length : '…'} 則</span>
+                  {messages.length > 0 && <span>{messages[0].date} – {messages[messages.length - 1].date}</span>}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <div className="relative">
+                <button
+                  onClick={() => setShowReportMenu(v => !v)}
+                  disabled={!isLoaded || members.length === 0}
+                  className="flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold hover:bg-slate-200 transition-all disabled:opacity-50"
+                >
+                  <Printer className="w-4 h-4" />
+                  <span>案件報告</span>
+                </button>
+                {showReportMenu && (
+                  <div className="absolute right-0 top-full mt-2 w-52 bg-white border border-slate-200 rounded-2xl shadow-xl p-2 z-30">
+                    <button
+                      onClick={() => { setShowReportMenu(false); onExportReport('pdf'); }}
+                      className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-100 transition-all"
+                    >
+                      <Printer className="w-4 h-4" /> 列印 / 另存 PDF
+                    </button>
+                    <button
+                      onClick={() => { setShowReportMenu(false); onExportReport('html'); }}
+                      className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-100 transition-all"
+                    >
+                      <FileDown className="w-4 h-4" /> 下載 HTML 報告
+                    </button>
+                  </div>
+                )}
+              </div>
+              {isAnalyzing ? (
+                <button
+                  onClick={onCancelAnalysis}
+                  className="flex items-center gap-2 bg-slate-900 text-white px-5 py-2 rounded-xl text-sm font-bold hover:bg-slate-700 transition-all shadow-lg"
+                >
+                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  {job && <span>{job.chunks.filter(c => c.status === 'done').length}/{job.chunks.length}</span>}
+                  <Square className="w-3 h-3 fill-current" />
+                  <span>取消</span>
+                </button>
+              ) : (
+                <button
+                  onClick={onAnalyze}
+                  disabled={!canAnalyze || !isLoaded || messages.length === 0}
+                  className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-2 rounded-xl text-sm font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-50 disabled:opacity-50"
+                >
+                  {job ? <RotateCcw className="w-4 h-4" /> : <BrainCircuit className="w-4 h-4" />}
+                  <span>{job ? '接續案件分析' : analysis ? '重新分析案件' : '案件 AI 分析'}</span>
+                </button>
+              )}
+              <button
+                onClick={onDelete}
+                title="刪除案件（不會刪除對話紀錄）"
+                className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {members.map(s => (
+              <span
+                key={s.id}
+                className={`flex items-center gap-1 pl-2 pr-1 py-1 rounded-lg border text-[11px] font-bold transition-all ${chatColors.get(s.id)} ${hiddenChats.has(s.id) ? 'opacity-40' : ''}`}
+              >
+                <button onClick={() => toggleChat(s.id)} title="顯示 / 隱藏此對話的訊息">{chatLabel(s)}</button>
+                <button onClick={() => onOpenSession(s.id)} title="開啟此對話" className="p-0.5 rounded hover:bg-white/60">
+                  <ExternalLink className="w-3 h-3" />
+                </button>
+                <button onClick={() => onRemoveSession(s.id)} title="自案件移除" className="p-0.5 rounded hover:bg-white/60">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            {candidates.length > 0 && (
+              <label className="flex items-center gap-1 px-2 py-1 rounded-lg border border-dashed border-slate-300 text-[11px] font-bold text-slate-500">
+                <Plus className="w-3 h-3" />
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && onAddSession(e.target.value)}
+                  className="bg-transparent outline-none"
+                >
+                  <option value="">加入對話…</option>
+                  {candidates.map(s => <option key={s.id} value={s.id}>{chatLabel(s)}</option>)}
+                </select>
+              </label>
+            )}
+            <div className="ml-auto relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400" />
+              <input
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder="搜尋案件訊息…"
+                className="pl-8 pr-3 py-1.5 bg-slate-50 border border-slate-200 rounded-xl text-xs outline-none focus:ring-2 focus:ring-emerald-500/20"
+              />
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar">
+          {members.length === 0 ? (
+            <div className="h-full flex flex-col items-center justify-center text-center opacity-40">
+              <Briefcase className="w-10 h-10 mb-4" />
+              <p className="text-xs font-bold">從上方「加入對話」將家屬群組、督導或居服員的對話納入此案件</p>
+            </div>
+          ) : !isLoaded ? (
+            <div className="flex justify-center py-12">
+              <div className="w-5 h-5 border-2 border-slate-200 border-t-emerald-500 rounded-full animate-spin" />
+            </div>
+          ) : visibleByDate.map(([date, dayMessages]) => (
+            <div key={date} className="space-y-3">
+              <div className="flex items-center gap-4">
+                <div className="h-px flex-1 bg-slate-200" />
+                <div className="px-4 py-1 bg-white border border-slate-200 rounded-full text-xs font-black text-slate-400">{date}</div>
+                <div className="h-px flex-1 bg-slate-200" />
+              </div>
+              {dayMessages.map(msg => {
+                const speaker = participantIndex.get(msg.sender);
+                return msg.isSystem ? (
+                  <div key={msg.id} id={msg.id} className="flex justify-center items-center gap-2">
+                    {chatBadge(msg.id, msg.chat)}
+                    <SystemMessageRow
+                      message={msg}
+                      kind={messageKindOf(msg)}
+                      speakerName={msg.sender ? speaker?.name ?? msg.sender : undefined}
+                      patterns={[]}
+                    />
+                  </div>
+                ) : (
+                  <div key={msg.id} id={msg.id} className="max-w-[80%] flex flex-col gap-1 rounded-2xl transition-all">
+                    <div className="flex items-center gap-2 ml-3">
+                      {chatBadge(msg.id, msg.chat)}
+                      <span className="text-[10px] font-black text-slate-500 uppercase">{speaker?.name ?? msg.sender}</span>
+                      {speaker && speaker.role !== 'other' && (
+                        <span className={`px-1.5 py-0.5 rounded text-[9px] font-black border ${ROLE_COLORS[speaker.role]}`}>
+                          {PARTICIPANT_ROLE_LABELS[speaker.role]}
+                        </span>
+                      )}
+                      <span className="text-[9px] font-bold text-slate-300">{msg.time}</span>
+                    </div>
+                    <div className={`p-4 rounded-2xl border shadow-sm ${msg.isImportant ? 'bg-rose-50 border-rose-100' : 'bg-white border-slate-100'}`}>
+                      <p className="text-sm leading-relaxed text-slate-700 whitespace-pre-wrap font-medium">{msg.content}</p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <aside className="w-[420px] border-l border-slate-200 bg-white flex flex-col shrink-0">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center gap-2 text-xs font-black uppercase tracking-[0.2em] text-slate-900">
+          <BrainCircuit className="w-4 h-4" /> 案件事件分析
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-4 custom-scrollbar">
+          {job && (
+            <div className="p-3 bg-slate-50 rounded-xl border border-slate-100 text-[10px] font-bold text-slate-500">
+              分段進度 {job.chunks.filter(c => c.status === 'done').length}/{job.chunks.length}
+              {job.chunks.some(c => c.status === 'failed') && <span className="ml-2 text-red-600">部分段落失敗，可接續分析</span>}
+            </div>
+          )}
+          {analysis ? (
+            <>
+              <div className="p-5 bg-slate-900 text-white rounded-2xl space-y-2">
+                <div className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">案件綜合評述</div>
+                <p className="text-sm leading-relaxed font-medium">{analysis.summary}</p>
+                <p className="text-[10px] font-bold text-slate-400">情緒基調：{analysis.sentiment}</p>
+              </div>
+              {isLoaded && (
+                <div className="space-y-3">
+                  <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">案件時間軸</div>
+                  <EventTimeline messages={messages} events={analysis.events} tagRules={tagRules} onJumpMessage={jumpToMessage} />
+                </div>
+              )}
+              {analysis.events.map(event => (
+                <div key={event.id} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <h4 className="text-sm font-black text-slate-900">{event.title}</h4>
+                    <span className={`px-2 py-0.5 rounded text-[10px] font-black border whitespace-nowrap ${RISK_COLORS[event.riskLevel] || ''}`}>
+                      風險 {event.riskLevel}
+                    </span>
+                  </div>
+                  <div className="text-[10px] font-bold text-slate-400">{event.dateRange}</div>
+                  <p className="text-xs leading-relaxed text-slate-600">{event.summary}</p>
+                  {event.relatedMessageIds.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {event.relatedMessageIds.map(id => {
+                        const message = messagesById.get(id);
+                        return message ? (
+                          <button key={id} onClick={() => jumpToMessage(id)} title={message.content.slice(0, 80)} className="hover:opacity-80 transition-all">
+                            {chatBadge(id, `${message.chat} · ${message.time}`)}
+                          </button>
+                        ) : (
+                          <span key={id} className="px-1.5 py-0.5 rounded text-[9px] font-black border bg-red-50 text-red-600 border-red-100 line-through">{id}</span>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              ))}
+              {!!analysis.commitments?.length && (
+                <CommitmentList commitments={analysis.commitments} messagesById={messagesById} onJump={jumpToMessage} />
+              )}
+            </>
+          ) : (
+            <div className="h-full flex flex-col items-center justify-center text-center p-8 opacity-40">
+              <BrainCircuit className="w-10 h-10 mb-4" />
+              <p className="text-xs font-bold leading-relaxed">合併所有對話後進行案件層級分析<br />事件可跨越不同對話</p>
+            </div>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default CaseView;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { CalendarClock, ExternalLink, UserPen } from 'lucide-react';
+import { ChatMessage, Commitment, CommitmentStatus } from '../types';
+import { COMMITMENT_STATUS_LABELS, sortCommitments } from '../services/commitments';
+
+interface CommitmentListProps {
+  commitments: Commitment[];
+  messagesById: Map<string, ChatMessage>;
+  onJump: (messageId: string) => void;
+  onSetStatus?: (commitment: Commitment, status: CommitmentStatus | 'auto') => void; // 未提供時僅供檢視
+}
+
+const STATUS_COLORS: Record<CommitmentStatus, string> = {
+  kept: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  overdue: 'bg-red-50 text-red-700 border-red-200',
+  unknown: 'bg-slate-100 text-slate-500 border-slate-200',
+};
+
+const CommitmentList = ({ commitments, messagesById, onJump, onSetStatus }: CommitmentListProps) => {
+  const counts = commitments.reduce((acc, c) => ({ ...acc, [c.status]: (acc[c.status] || 0) + 1 }), {} as Record<CommitmentStatus, number>);
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">承諾追蹤（{commitments.length}）</h3>
+        <div className="flex items-center gap-1">
+          {(Object.keys(COMMITMENT_STATUS_LABELS) as CommitmentStatus[]).filter(s => counts[s]).map(s => (
+            <span key={s} className={`px-1.5 py-0.5 rounded text-[9px] font-black border ${STATUS_COLORS[s]}`}>
+              {COMMITMENT_STATUS_LABELS[s]} {counts[s]}
+            </span>
+          ))}
+        </div>
+      </div>
+      {sortCommitments(commitments).map(c => {
+        const source = messagesById.get(c.sourceMessageId);
+        return (
+          <div key={c.id} className="p-4 bg-white border border-slate-100 rounded-2xl shadow-sm space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-xs font-bold text-slate-800 leading-relaxed">{c.description}</p>
+              {onSetStatus ? (
+                <select
+                  value={c.statusOrigin === 'human' ? c.status : 'auto'}
+                  onChange={(e) => onSetStatus(c, e.target.value as CommitmentStatus | 'auto')}
+                  title="人工判定履行狀況"
+                  className={`shrink-0 px-1.5 py-0.5 rounded-lg border text-[10px] font-black outline-none ${STATUS_COLORS[c.status]}`}
+                >
+                  <option value="auto">自動：{COMMITMENT_STATUS_LABELS[c.status]}</option>
+                  {(Object.keys(COMMITMENT_STATUS_LABELS) as CommitmentStatus[]).map(s => (
+                    <option key={s} value={s}>人工：{COMMITMENT_STATUS_LABELS[s]}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className={`shrink-0 px-1.5 py-0.5 rounded-lg border text-[10px] font-black ${STATUS_COLORS[c.status]}`}>{COMMITMENT_STATUS_LABELS[c.status]}</span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-[10px] font-bold text-slate-400">
+              <span>{c.owner}</span>
+              <span className="flex items-center gap-1"><CalendarClock className="w-3 h-3" /> {c.promisedDate || '未約定期限'}</span>
+              {c.statusOrigin === 'human' && <span className="flex items-center gap-1 text-amber-600"><UserPen className="w-3 h-3" /> 人工判定</span>}
+            </div>
+            {c.statusNote && <p className="text-[11px] text-slate-500 leading-relaxed">{c.statusNote}</p>}
+            <div className="flex flex-wrap gap-1.5">
+              <button
+                onClick={() => onJump(c.sourceMessageId)}
+                disabled={!source}
+                title={source ? source.content.slice(0, 80) : `對話中不存在的訊息 ID：${c.sourceMessageId}`}
+                className="flex items-center gap-1 px-2 py-1 bg-slate-100 rounded-lg text-[10px] font-bold text-slate-600 hover:bg-slate-200 transition-all disabled:text-red-500 disabled:line-through"
+              >
+                <ExternalLink className="w-3 h-3" /> 承諾原文
+              </button>
+              {c.evidenceMessageIds.map(id => (
+                <button
+                  key={id}
+                  onClick={() => onJump(id)}
+                  title={messagesById.get(id)?.content.slice(0, 80)}
+                  className={`flex items-center gap-1 px-2 py-1 rounded-lg border text-[10px] font-bold hover:opacity-80 transition-all ${STATUS_COLORS[c.status]}`}
+                >
+                  <ExternalLink className="w-3 h-3" /> {c.status === 'kept' ? '履行紀錄' : '後續提及'} {messagesById.get(id)?.date.slice(5)}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </section>
+  );
+};
+
+export default CommitmentList;
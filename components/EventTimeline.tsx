@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { CaseEvent, ChatMessage, TagRule } from '../types';
+import { DayActivity, assignLanes, buildDailyActivity, normalizeEventDates } from '../services/timeline';
+import { daysBetween } from '../services/datetime';
+import { TAG_DOT_COLORS } from './tagConfig';
+
+interface EventTimelineProps {
+  messages: ChatMessage[];
+  events: CaseEvent[];
+  tagRules: TagRule[];
+  onJumpMessage: (messageId: string) => void;
+  onJumpDate?: (date: string) => void; // 未提供時跳到當天第一則訊息
+}
+
+// 每天所佔的高度（px）
+const ZOOM_LEVELS = [3, 6, 12, 20, 32];
+const MAX_TAG_DOTS = 4;
+
+const RISK_BAR_COLORS: Record<CaseEvent['riskLevel'], string> = {
+  '高': 'bg-red-500 text-white',
+  '中': 'bg-orange-400 text-white',
+  '低': 'bg-emerald-400 text-white',
+};
+
+const initialZoom = (dayCount: number) => dayCount <= 30 ? 3 : dayCount <= 90 ? 2 : dayCount <= 365 ? 1 : 0;
+
+const EventTimeline = ({ messages, events, tagRules, onJumpMessage, onJumpDate }: EventTimelineProps) => {
+  const days = useMemo<DayActivity[]>(() => buildDailyActivity(messages), [messages]);
+  const [zoom, setZoom] = useState(() => initialZoom(days.length));
+  const rowHeight = ZOOM_LEVELS[zoom];
+
+  // 舊封存的事件尚未存有起訖日期，於此即時換算
+  const datedEvents = useMemo<CaseEvent[]>(() => {
+    const byId = new Map<string, ChatMessage>(messages.map(m => [m.id, m]));
+    const span: [string, string] | null = messages.length > 0 ? [messages[0].date, messages[messages.length - 1].date] : null;
+    return events.map(e => e.startDate ? e : normalizeEventDates(e, byId, span));
+  }, [events, messages]);
+  const lanes = useMemo<Map<string, number>>(() => assignLanes(datedEvents), [datedEvents]);
+  const laneCount = Math.max(1, ...Array.from<number>(lanes.values()).map(l => l + 1));
+  const maxCount = Math.max(1, ...days.map(d => d.count));
+  const tagColors = useMemo<Map<string, string>>(() => new Map(tagRules.map(r => [r.id, TAG_DOT_COLORS[r.color]])), [tagRules]);
+  const messageOrder = useMemo<Map<string, number>>(() => new Map(messages.map((m, i) => [m.id, i])), [messages]);
+  const undated = datedEvents.filter(e => !e.startDate);
+
+  if (days.length === 0) return null;
+  const firstDate = days[0].date;
+
+  const jumpToDay = (date: string, firstMessageId?: string) => {
+    if (onJumpDate) onJumpDate(date);
+    else if (firstMessageId) onJumpMessage(firstMessageId);
+  };
+
+  // 事件定位到最早的引用訊息；沒有引用訊息時定位到起始日
+  const jumpToEvent = (event: CaseEvent) => {
+    const first = (event.relatedMessageIds || [])
+      .filter(id => messageOrder.has(id))
+      .sort((a, b) => messageOrder.get(a)! - messageOrder.get(b)!)[0];
+    if (first) onJumpMessage(first);
+    else if (event.startDate) jumpToDay(event.startDate, days.find(d => d.date >= event.startDate! && d.count > 0)?.firstMessageId);
+  };
+
+  const showLabel = (date: string, index: number) =>
+    rowHeight >= 12 || index === 0 || date.endsWith('/01') || (rowHeight >= 6 && date.endsWith('/15'));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-[9px] font-black text-slate-400">
+          {(['高', '中', '低'] as CaseEvent['riskLevel'][]).map(level => (
+            <span key={level} className="flex items-center gap-1">
+              <span className={`w-2.5 h-2.5 rounded-sm ${RISK_BAR_COLORS[level].split(' ')[0]}`} /> {level}風險
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setZoom(z => Math.max(0, z - 1))}
+            disabled={zoom === 0}
+            className="p-1.5 bg-slate-100 rounded-lg text-slate-500 hover:bg-slate-200 transition-all disabled:opacity-40"
+          >
+            <ZoomOut className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => setZoom(z => Math.min(ZOOM_LEVELS.length - 1, z + 1))}
+            disabled={zoom === ZOOM_LEVELS.length - 1}
+            className="p-1.5 bg-slate-100 rounded-lg text-slate-500 hover:bg-slate-200 transition-all disabled:opacity-40"
+          >
+            <ZoomIn className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="w-28 shrink-0">
+          {days.map((day, i) => (
+            <button
+              key={day.date}
+              onClick={() => jumpToDay(day.date, day.firstMessageId)}
+              disabled={day.count === 0}
+              title={`${day.date}：${day.count} 則${Object.keys(day.tagCounts).length ? `・${Object.keys(day.tagCounts).length} 類標籤` : ''}`}
+              style={{ height: rowHeight }}
+              className="w-full flex items-center gap-1 group disabled:cursor-default"
+            >
+              <span className="w-12 shrink-0 text-right text-[9px] font-bold text-slate-400 leading-none">
+                {showLabel(day.date, i) ? day.date.slice(5) : ''}
+              </span>
+              <span className="flex-1 h-full flex items-center">
+                <span
+                  className={`h-[70%] min-h-[2px] rounded-r ${day.importantCount ? 'bg-slate-500' : 'bg-slate-300'} group-hover:bg-emerald-500 transition-all`}
+                  style={{ width: `${(day.count / maxCount) * 100}%` }}
+                />
+              </span>
+              {rowHeight >= 6 && (
+                <span className="w-8 shrink-0 flex items-center gap-px">
+                  {Object.keys(day.tagCounts).slice(0, MAX_TAG_DOTS).map(tag => (
+                    <span key={tag} className={`w-1.5 h-1.5 rounded-full ${tagColors.get(tag) || TAG_DOT_COLORS.slate}`} />
+                  ))}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 relative border-l border-slate-100" style={{ height: days.length * rowHeight }}>
+          {datedEvents.filter(e => e.startDate).map(event => {
+            const top = daysBetween(firstDate, event.startDate!) * rowHeight;
+            const height = Math.max(rowHeight, (daysBetween(event.startDate!, event.endDate!) + 1) * rowHeight);
+            const lane = lanes.get(event.id) || 0;
+            return (
+              <button
+                key={event.id}
+                onClick={() => jumpToEvent(event)}
+                title={`${event.title}\n${event.startDate}${event.endDate !== event.startDate ? ` ~ ${event.endDate}` : ''}・風險 ${event.riskLevel}`}
+                className={`absolute rounded-md px-1 overflow-hidden text-left text-[9px] font-black leading-tight hover:ring-2 hover:ring-slate-900/30 transition-all ${RISK_BAR_COLORS[event.riskLevel] || RISK_BAR_COLORS['低']}`}
+                style={{
+                  top,
+                  height: Math.max(height, 4),
+                  left: `calc(${(lane / laneCount) * 100}% + 2px)`,
+                  width: `calc(${100 / laneCount}% - 4px)`,
+                }}
+              >
+                {height >= 14 && event.title}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {undated.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] font-black text-slate-400">無法判定日期的事件</div>
+          {undated.map(event => (
+            <button
+              key={event.id}
+              onClick={() => jumpToEvent(event)}
+              className="w-full p-2 bg-slate-50 rounded-lg text-left text-[11px] font-bold text-slate-600 hover:bg-slate-100 transition-all"
+            >
+              {event.title}（{event.dateRange || '未填日期'}）
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventTimeline;
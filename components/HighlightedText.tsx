@@ -0,0 +1,24 @@
+import React from 'react';
+import { splitHighlights } from '../services/search';
+
+interface HighlightedTextProps {
+  text: string;
+  patterns: RegExp[];
+}
+
+const HighlightedText = ({ text, patterns }: HighlightedTextProps) => {
+  if (patterns.length === 0) return <>{text}</>;
+  return (
+    <>
+      {splitHighlights(text, patterns).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-yellow-200 text-slate-900 rounded px-0.5">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { Banknote, ExternalLink, FileDown, X } from 'lucide-react';
+import { ChatMessage, ParticipantProfile } from '../types';
+import { PARTICIPANT_ROLE_LABELS } from '../services/participants';
+import { LEDGER_KIND_LABELS, LedgerEntry, LedgerEntryKind, buildLedger, summarizeByMonth } from '../services/ledger';
+import { ROLE_COLORS } from './roleConfig';
+
+interface LedgerViewProps {
+  title: string;
+  messages: ChatMessage[];
+  profiles: ParticipantProfile[];
+  onJump: (messageId: string) => void;
+  onExportCsv: (entries: LedgerEntry[]) => void;
+  onClose: () => void;
+}
+
+const KIND_COLORS: Record<LedgerEntryKind, string> = {
+  charge: 'bg-orange-50 text-orange-700 border-orange-200',
+  payment: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  refund: 'bg-sky-50 text-sky-700 border-sky-200',
+  dispute: 'bg-red-50 text-red-700 border-red-200',
+  mention: 'bg-slate-100 text-slate-500 border-slate-200',
+};
+
+const formatAmount = (amount: number | null) => amount === null ? '—' : `NT$ ${amount.toLocaleString()}`;
+
+const LedgerView = ({ title, messages, profiles, onJump, onExportCsv, onClose }: LedgerViewProps) => {
+  const [kindFilter, setKindFilter] = useState<LedgerEntryKind | null>(null);
+  const entries = useMemo(() => buildLedger(messages, profiles), [messages, profiles]);
+  const months = useMemo(() => summarizeByMonth(entries), [entries]);
+  const visible = kindFilter ? entries.filter(e => e.kind === kindFilter) : entries;
+  const counts = entries.reduce((acc, e) => ({ ...acc, [e.kind]: (acc[e.kind] || 0) + 1 }), {} as Record<LedgerEntryKind, number>);
+
+  const jump = (id: string) => {
+    onClose();
+    onJump(id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-8">
+      <div className="bg-white rounded-[32px] shadow-2xl w-full max-w-5xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-8 py-5 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 flex items-center gap-2"><Banknote className="w-5 h-5 text-orange-500" /> 費用帳目</h2>
+            <p className="text-xs font-bold text-slate-400">{title}・由標為「費用」的訊息擷取，金額請對照原文確認</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onExportCsv(visible)}
+              disabled={visible.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-200 transition-all disabled:opacity-50"
+            >
+              <FileDown className="w-3.5 h-3.5" /> 匯出 CSV{kindFilter ? `（${LEDGER_KIND_LABELS[kindFilter]}）` : ''}
+            </button>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar">
+          {entries.length === 0 ? (
+            <p className="text-center text-xs font-bold text-slate-400 py-12">沒有可擷取金額或付款紀錄的費用訊息。若「費用」標籤已停用，請於標籤規則中啟用。</p>
+          ) : (
+            <>
+              <section className="space-y-3">
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">每月合計</h3>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-[10px] font-black text-slate-400 text-left border-b border-slate-100">
+                      <th className="py-2">月份</th>
+                      <th className="py-2 text-right">應收</th>
+                      <th className="py-2 text-right">已付款</th>
+                      <th className="py-2 text-right">退費</th>
+                      <th className="py-2 text-right">爭議</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {months.map(m => (
+                      <tr key={m.month} className="border-b border-slate-50 font-bold text-slate-700">
+                        <td className="py-2">{m.month}</td>
+                        <td className="py-2 text-right">{formatAmount(m.charged)}</td>
+                        <td className="py-2 text-right">{formatAmount(m.paid)}</td>
+                        <td className="py-2 text-right">{formatAmount(m.refunded)}</td>
+                        <td className={`py-2 text-right ${m.disputes ? 'text-red-600' : 'text-slate-300'}`}>{m.disputes} 筆</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-[10px] font-bold text-slate-400">付款確認常未寫金額，已付款合計只計入訊息中明確提到的金額。</p>
+              </section>
+
+              <section className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">明細（{visible.length}）</h3>
+                  <div className="flex items-center gap-1">
+                    {(Object.keys(LEDGER_KIND_LABELS) as LedgerEntryKind[]).filter(k => counts[k]).map(k => (
+                      <button
+                        key={k}
+                        onClick={() => setKindFilter(kindFilter === k ? null : k)}
+                        className={`px-2 py-0.5 rounded-lg text-[10px] font-black border transition-all ${KIND_COLORS[k]} ${kindFilter && kindFilter !== k ? 'opacity-40' : ''}`}
+                      >
+                        {LEDGER_KIND_LABELS[k]} {counts[k]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {visible.map(e => (
+                    <div key={e.id} className="flex items-start gap-3 p-3 bg-white border border-slate-100 rounded-xl">
+                      <span className={`shrink-0 px-2 py-0.5 rounded-lg text-[10px] font-black border ${KIND_COLORS[e.kind]}`}>{LEDGER_KIND_LABELS[e.kind]}</span>
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2 text-[10px] font-bold text-slate-400">
+                          <span>{e.datetime}</span>
+                          <span className={`px-1.5 py-0.5 rounded border ${ROLE_COLORS[e.role]}`}>{e.sender}・{PARTICIPANT_ROLE_LABELS[e.role]}</span>
+                          {e.purpose && <span className="text-slate-600">{e.purpose}</span>}
+                        </div>
+                        <p className="text-xs text-slate-700 leading-relaxed">{e.excerpt}</p>
+                      </div>
+                      <span className="shrink-0 text-sm font-black text-slate-900">{formatAmount(e.amount)}</span>
+                      <button onClick={() => jump(e.messageId)} title="定位原始訊息" className="shrink-0 p-1.5 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all">
+                        <ExternalLink className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LedgerView;
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Link2, Unlink } from 'lucide-react';
+import { Attachment } from '../types';
+import { attachmentUrl } from '../services/attachments';
+import { formatBytes } from '../services/storage';
+
+interface MessageMediaProps {
+  attachment?: Attachment;
+  candidates: Attachment[]; // 尚未對應的同類附件，可人工連結
+  onLink: (attachmentId: string | null) => void;
+}
+
+const MATCHED_BY_LABELS: Record<NonNullable<Attachment['matchedBy']>, string> = {
+  name: '依檔名對應',
+  time: '依時間對應',
+  manual: '人工連結',
+};
+
+const MessageMedia = ({ attachment, candidates, onLink }: MessageMediaProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment) return;
+    const objectUrl = attachmentUrl(attachment);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [attachment?.sha256]);
+
+  if (!attachment) {
+    if (candidates.length === 0) return null;
+    return (
+      <div className="mt-3 flex items-center gap-1.5 text-[10px] font-bold text-slate-400">
+        <Link2 className="w-3 h-3" />
+        <select
+          value=""
+          onChange={(e) => e.target.value && onLink(e.target.value)}
+          className="bg-transparent outline-none cursor-pointer hover:text-slate-600"
+        >
+          <option value="">連結已匯入的附件…</option>
+          {candidates.map(a => (
+            <option key={a.id} value={a.id}>{a.fileName}{a.capturedAt ? `（${a.capturedAt}）` : ''}</option>
+          ))}
+        </select>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-1.5">
+      {url && attachment.kind === 'photo' && (
+        <a href={url} target="_blank" rel="noreferrer">
+          <img src={url} alt={attachment.fileName} className="max-h-60 max-w-full rounded-xl border border-slate-100 object-contain" />
+        </a>
+      )}
+      {url && attachment.kind === 'video' && (
+        <video src={url} controls preload="metadata" className="max-h-60 max-w-full rounded-xl bg-slate-900" />
+      )}
+      {url && attachment.kind === 'voice' && <audio src={url} controls preload="metadata" className="w-64 max-w-full" />}
+      {url && attachment.kind === 'file' && (
+        <a
+          href={url}
+          download={attachment.fileName}
+          className="flex items-center gap-2 px-3 py-2 bg-slate-50 rounded-xl border border-slate-100 text-xs font-bold text-slate-600 hover:bg-slate-100 transition-all"
+        >
+          <FileText className="w-4 h-4 shrink-0" />
+          <span className="truncate">{attachment.fileName}</span>
+          <span className="shrink-0 text-slate-400">{formatBytes(attachment.size)}</span>
+        </a>
+      )}
+      <div className="flex items-center gap-2 text-[9px] font-bold text-slate-300">
+        <span className="truncate" title={`SHA-256 ${attachment.sha256}`}>
+          {attachment.fileName}・SHA-256 {attachment.sha256.slice(0, 12)}…
+          {attachment.matchedBy && `・${MATCHED_BY_LABELS[attachment.matchedBy]}`}
+        </span>
+        <button onClick={() => onLink(null)} title="解除連結" className="p-0.5 rounded hover:text-red-500 hover:bg-red-50 transition-all">
+          <Unlink className="w-3 h-3" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MessageMedia;
@@ -0,0 +1,265 @@
+import React, { useMemo } from 'react';
+import { BarChart3, Clock, ExternalLink, MoonStar, Phone, TimerReset, X } from 'lucide-react';
+import { ChatMessage, MessageKind, ParticipantProfile, TagRule } from '../types';
+import { PARTICIPANT_ROLE_LABELS } from '../services/participants';
+import { computeMetrics, formatDuration } from '../services/metrics';
+import { MESSAGE_KIND_LABELS, formatCallDuration } from '../services/messageKinds';
+import { buildTagConfig, getTagDisplay } from './tagConfig';
+import { ROLE_COLORS } from './roleConfig';
+
+interface MetricsDashboardProps {
+  title: string;
+  messages: ChatMessage[];
+  profiles: ParticipantProfile[];
+  tagRules: TagRule[];
+  onJump: (messageId: string) => void;
+  onClose: () => void;
+}
+
+const CHART_HEIGHT = 120;
+
+const StatCard = ({ icon, label, value, hint }: { icon: React.ReactNode; label: string; value: string; hint?: string }) => (
+  <div className="p-4 bg-slate-50 border border-slate-100 rounded-2xl space-y-1">
+    <div className="flex items-center gap-1.5 text-[10px] font-black text-slate-400 uppercase tracking-widest">{icon} {label}</div>
+    <div className="text-xl font-black text-slate-900">{value}</div>
+    {hint && <div className="text-[10px] font-bold text-slate-400">{hint}</div>}
+  </div>
+);
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <section className="space-y-3">
+    <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{title}</h3>
+    {children}
+  </section>
+);
+
+const MetricsDashboard = ({ title, messages, profiles, tagRules, onJump, onClose }: MetricsDashboardProps) => {
+  const metrics = useMemo(() => computeMetrics(messages, profiles), [messages, profiles]);
+  const tagConfig = useMemo(() => buildTagConfig(tagRules), [tagRules]);
+  const messagesById = useMemo(() => new Map<string, ChatMessage>(messages.map(m => [m.id, m])), [messages]);
+
+  const maxDay = Math.max(1, ...metrics.byDay.map(d => d.family + d.staff + d.other));
+  const maxHour = Math.max(1, ...metrics.byHour);
+  const maxWeekCount = Math.max(1, ...metrics.byWeek.map(w => w.messageCount));
+  const maxWeekLatency = Math.max(1, ...metrics.byWeek.map(w => w.responses.medianMinutes || 0));
+  const maxSender = Math.max(1, ...metrics.bySender.map(s => s.count));
+  const hasRoles = profiles.some(p => p.role !== 'other');
+
+  const jump = (id: string) => {
+    onClose();
+    onJump(id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-8">
+      <div className="bg-white rounded-[32px] shadow-2xl w-full max-w-5xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-8 py-5 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 flex items-center gap-2"><BarChart3 className="w-5 h-5 text-emerald-600" /> 溝通統計</h2>
+            <p className="text-xs font-bold text-slate-400">{title}・由本機訊息計算，非 AI 估計</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar">
+          {!hasRoles && (
+            <p className="p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs font-bold text-amber-700">
+              尚未設定參與者角色，無法區分家屬與單位人員，回應時間無法計算。請先於「參與者」設定角色。
+            </p>
+          )}
+
+          <div className="grid grid-cols-5 gap-3">
+            <StatCard icon={<Clock className="w-3 h-3" />} label="回應中位數" value={formatDuration(metrics.latency.medianMinutes)} hint={`共 ${metrics.latency.count} 次回應`} />
+            <StatCard icon={<TimerReset className="w-3 h-3" />} label="90% 於此時間內" value={formatDuration(metrics.latency.p90Minutes)} />
+            <StatCard
+              icon={<MoonStar className="w-3 h-3" />}
+              label="非上班時段"
+              value={formatDuration(metrics.afterHoursLatency.medianMinutes)}
+              hint={`${metrics.afterHoursLatency.count} 次・平日 8–18 時以外`}
+            />
+            <StatCard label="訊息總數" icon={<BarChart3 className="w-3 h-3" />} value={`${metrics.messageCount}`} hint={`${metrics.byDay.length} 天有對話`} />
+            <StatCard
+              icon={<ExternalLink className="w-3 h-3" />}
+              label="未獲回覆"
+              value={`${metrics.unanswered.length}`}
+              hint={metrics.unanswered.length ? '對話結束時仍待回覆' : '家屬訊息皆已回覆'}
+            />
+          </div>
+
+          {metrics.byWeek.length > 1 && (
+            <Section title="每週趨勢（長條：訊息量・折線：回應中位數）">
+              <div className="p-4 border border-slate-100 rounded-2xl">
+                <svg viewBox={`0 0 ${metrics.byWeek.length * 40} ${CHART_HEIGHT + 20}`} className="w-full h-40" preserveAspectRatio="none">
+                  {metrics.byWeek.map((w, i) => {
+                    const h = (w.messageCount / maxWeekCount) * CHART_HEIGHT;
+                    return (
+                      <rect key={w.weekStart} x={i * 40 + 8} y={CHART_HEIGHT - h} width={24} height={h} rx={3} className="fill-slate-200">
+                        <title>{`${w.weekStart} 起：${w.messageCount} 則・回應中位數 ${formatDuration(w.responses.medianMinutes)}`}</title>
+                      </rect>
+                    );
+                  })}
+                  <polyline
+                    fill="none"
+                    strokeWidth={2}
+                    className="stroke-emerald-500"
+                    vectorEffect="non-scaling-stroke"
+                    points={metrics.byWeek
+                      .map((w, i) => w.responses.medianMinutes === null ? null : `${i * 40 + 20},${CHART_HEIGHT - (w.responses.medianMinutes / maxWeekLatency) * CHART_HEIGHT}`)
+                      .filter(Boolean)
+                      .join(' ')}
+                  />
+                </svg>
+                <div className="flex justify-between text-[9px] font-bold text-slate-400">
+                  <span>{metrics.byWeek[0].weekStart}</span>
+                  <span>最慢週中位數 {formatDuration(maxWeekLatency)}</span>
+                  <span>{metrics.byWeek[metrics.byWeek.length - 1].weekStart}</span>
+                </div>
+              </div>
+            </Section>
+          )}
+
+          <div className="grid grid-cols-2 gap-8">
+            <Section title="最久的回應">
+              <div className="space-y-2">
+                {metrics.worstResponses.length === 0 && <p className="text-xs font-bold text-slate-400">尚無可計算的回應。</p>}
+                {metrics.worstResponses.map(r => (
+                  <div key={r.requestId} className="p-3 bg-white border border-slate-100 rounded-xl space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-black text-red-600">{formatDuration(r.waitMinutes)}</span>
+                      <span className="text-[10px] font-bold text-slate-400">{r.requestDatetime}{r.afterHours ? '・非上班時段' : ''}</span>
+                    </div>
+                    <p className="text-xs text-slate-600 truncate">{messagesById.get(r.requestId)?.content}</p>
+                    <div className="flex gap-1.5">
+                      <button onClick={() => jump(r.requestId)} className="flex items-center gap-1 px-2 py-0.5 bg-slate-100 rounded text-[10px] font-bold text-slate-600 hover:bg-slate-200 transition-all">
+                        <ExternalLink className="w-3 h-3" /> 家屬訊息
+                      </button>
+                      <button onClick={() => jump(r.responseId)} className="flex items-center gap-1 px-2 py-0.5 bg-slate-100 rounded text-[10px] font-bold text-slate-600 hover:bg-slate-200 transition-all">
+                        <ExternalLink className="w-3 h-3" /> {r.responder} 回覆
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {metrics.unanswered.map(id => (
+                  <button key={id} onClick={() => jump(id)} className="w-full flex items-center gap-2 p-3 bg-red-50 border border-red-100 rounded-xl text-left text-xs font-bold text-red-700 hover:bg-red-100 transition-all">
+                    <ExternalLink className="w-3 h-3 shrink-0" />
+                    <span className="truncate">未獲回覆：{messagesById.get(id)?.datetime} {messagesById.get(id)?.content}</span>
+                  </button>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="發送者訊息量">
+              <div className="space-y-1.5">
+                {metrics.bySender.map(s => (
+                  <div key={s.name} className="flex items-center gap-2">
+                    <span className="w-28 truncate text-xs font-bold text-slate-700" title={s.name}>{s.name}</span>
+                    <span className={`px-1.5 py-0.5 rounded text-[9px] font-black border ${ROLE_COLORS[s.role]}`}>{PARTICIPANT_ROLE_LABELS[s.role]}</span>
+                    <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-slate-400 rounded-full" style={{ width: `${(s.count / maxSender) * 100}%` }} />
+                    </div>
+                    <span className="w-10 text-right text-[10px] font-black text-slate-500">{s.count}</span>
+                  </div>
+                ))}
+              </div>
+            </Section>
+          </div>
+
+          <Section title="每日訊息量（藍：家屬/案主・綠：單位・灰：其他）">
+            <div className="flex items-end gap-px h-32 p-4 border border-slate-100 rounded-2xl overflow-x-auto">
+              {metrics.byDay.map(d => (
+                <div
+                  key={d.date}
+                  title={`${d.date}：家屬 ${d.family}・單位 ${d.staff}・其他 ${d.other}`}
+                  className="flex-1 min-w-[4px] flex flex-col-reverse"
+                  style={{ height: `${((d.family + d.staff + d.other) / maxDay) * 100}%` }}
+                >
+                  <div className="bg-blue-400" style={{ flexGrow: d.family }} />
+                  <div className="bg-emerald-400" style={{ flexGrow: d.staff }} />
+                  <div className="bg-slate-300" style={{ flexGrow: d.other }} />
+                </div>
+              ))}
+            </div>
+          </Section>
+
+          <div className="grid grid-cols-2 gap-8">
+            <Section title="時段分布">
+              <div className="p-4 border border-slate-100 rounded-2xl">
+                <div className="flex items-end gap-1 h-24">
+                  {metrics.byHour.map((count, hour) => (
+                    <div
+                      key={hour}
+                      title={`${hour}:00–${hour}:59：${count} 則`}
+                      className={`flex-1 rounded-t ${hour >= 8 && hour < 18 ? 'bg-emerald-300' : 'bg-indigo-300'}`}
+                      style={{ height: `${(count / maxHour) * 100}%` }}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-[9px] font-bold text-slate-400 mt-1">
+                  <span>0 時</span><span>6</span><span>12</span><span>18</span><span>23 時</span>
+                </div>
+              </div>
+            </Section>
+
+            <Section title="標籤統計">
+              <div className="flex flex-wrap gap-2">
+                {Object.keys(metrics.tagCounts).sort((a, b) => metrics.tagCounts[b] - metrics.tagCounts[a]).map(tag => {
+                  const display = getTagDisplay(tagConfig, tag);
+                  return (
+                    <span key={tag} className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-black border ${display.color}`}>
+                      {display.icon} {display.label} {metrics.tagCounts[tag]}
+                    </span>
+                  );
+                })}
+                {Object.keys(metrics.tagCounts).length === 0 && <p className="text-xs font-bold text-slate-400">沒有被標籤規則分類的訊息。</p>}
+              </div>
+            </Section>
+          </div>
+
+          <div className="grid grid-cols-2 gap-8">
+            <Section title="訊息類型">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(metrics.kindCounts) as MessageKind[]).sort((a, b) => metrics.kindCounts[b]! - metrics.kindCounts[a]!).map(kind => (
+                  <span key={kind} className="px-2.5 py-1 rounded-full text-[10px] font-black border bg-slate-50 text-slate-600 border-slate-200">
+                    {MESSAGE_KIND_LABELS[kind]} {metrics.kindCounts[kind]}
+                  </span>
+                ))}
+              </div>
+            </Section>
+
+            <Section title="通話紀錄">
+              {metrics.calls.count === 0 ? (
+                <p className="text-xs font-bold text-slate-400">沒有通話紀錄。</p>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                    <Phone className="w-3.5 h-3.5 text-sky-600" />
+                    共 {metrics.calls.count} 通・接通 {metrics.calls.answered}・未接通 {metrics.calls.missed}・
+                    總通話 {formatCallDuration(metrics.calls.totalSeconds)}
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {metrics.calls.callIds.map(id => {
+                      const m = messagesById.get(id);
+                      return m && (
+                        <button
+                          key={id}
+                          onClick={() => jump(id)}
+                          className="px-2 py-0.5 rounded-lg text-[10px] font-bold bg-slate-50 text-slate-500 hover:bg-slate-100 transition-all"
+                        >
+                          {m.datetime}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+            </Section>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MetricsDashboard;
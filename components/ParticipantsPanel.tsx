@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { Crown, Merge, Users, X } from 'lucide-react';
+import { ChatMessage, ParticipantProfile, ParticipantRole } from '../types';
+import {
+  PARTICIPANT_ROLES,
+  PARTICIPANT_ROLE_LABELS,
+  buildParticipantIndex,
+  countMessagesByParticipant,
+  describeProfileChanges,
+  mergeParticipants,
+  renameParticipant,
+  setParticipantRole,
+  splitAlias
+} from '../services/participants';
+import { ROLE_COLORS } from './roleConfig';
+
+interface ParticipantsPanelProps {
+  profiles: ParticipantProfile[];
+  messages: ChatMessage[];
+  onSave: (profiles: ParticipantProfile[], changes: string[]) => void;
+  onClose: () => void;
+}
+
+const ParticipantsPanel = ({ profiles, messages, onSave, onClose }: ParticipantsPanelProps) => {
+  const [draft, setDraft] = useState<ParticipantProfile[]>(profiles);
+
+  const counts = useMemo(() => countMessagesByParticipant(messages, buildParticipantIndex(draft)), [messages, draft]);
+  const changes = describeProfileChanges(profiles, draft);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-full bg-white rounded-[32px] shadow-2xl flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="flex items-center gap-2 text-lg font-black text-slate-900"><Users className="w-5 h-5" /> 參與者角色</h3>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">指定角色，並將改過 LINE 顯示名稱的同一人合併</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-3 custom-scrollbar">
+          {draft.map(p => (
+            <div key={p.name} className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+              <div className="flex items-center gap-3">
+                <span className="flex-1 min-w-0 text-sm font-black text-slate-800 truncate">{p.name}</span>
+                <span className="text-[10px] font-bold text-slate-400 whitespace-nowrap">{counts[p.name] || 0} 則</span>
+                <select
+                  value={p.role}
+                  onChange={(e) => setDraft(prev => setParticipantRole(prev, p.name, e.target.value as ParticipantRole))}
+                  className={`px-2 py-1 rounded-lg border text-xs font-bold outline-none ${ROLE_COLORS[p.role]}`}
+                >
+                  {PARTICIPANT_ROLES.map(role => (
+                    <option key={role} value={role}>{PARTICIPANT_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                {draft.length > 1 && (
+                  <label className="flex items-center gap-1 text-[10px] font-bold text-slate-400">
+                    <Merge className="w-3 h-3" />
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && setDraft(prev => mergeParticipants(prev, e.target.value, p.name))}
+                      className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 outline-none"
+                    >
+                      <option value="">併入…</option>
+                      {draft.filter(o => o.name !== p.name).map(o => (
+                        <option key={o.name} value={o.name}>{o.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+              {p.aliases.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1.5">
+                  <span className="text-[9px] font-black text-slate-400 uppercase">曾用名稱</span>
+                  {p.aliases.map(alias => (
+                    <span key={alias} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-white border border-slate-200 rounded-full text-[10px] font-bold text-slate-600">
+                      {alias}
+                      <button
+                        onClick={() => setDraft(prev => renameParticipant(prev, p.name, alias))}
+                        title="設為主要名稱"
+                        className="p-0.5 text-slate-300 hover:text-amber-600 transition-all"
+                      >
+                        <Crown className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => setDraft(prev => splitAlias(prev, p.name, alias))}
+                        title="分離為獨立參與者"
+                        className="p-0.5 text-slate-300 hover:text-red-600 transition-all"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-8 py-4 border-t border-slate-100 flex items-center justify-end gap-2">
+          <span className="mr-auto text-[10px] font-bold text-slate-400">
+            {changes.length > 0 ? `${changes.length} 項變更，儲存後記入保管紀錄` : '尚無變更'}
+          </span>
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100 transition-all">取消</button>
+          <button
+            onClick={() => onSave(draft, changes)}
+            disabled={changes.length === 0}
+            className="px-4 py-2 rounded-xl text-sm font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all disabled:opacity-50"
+          >
+            儲存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParticipantsPanel;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ExternalLink, MessageCircleQuestion, Send, ShieldAlert, Trash2 } from 'lucide-react';
+import { ChatMessage, QaTurn } from '../types';
+import { CITATION_PATTERN } from '../services/qa';
+
+interface QaPanelProps {
+  turns: QaTurn[];
+  messagesById: Map<string, ChatMessage>;
+  isAsking: boolean;
+  disabledReason: string | null; // AI 未設定或訊息尚未載入時的說明
+  onAsk: (question: string) => void;
+  onJump: (messageId: string) => void;
+  onClear: () => void;
+}
+
+const EXAMPLES = ['家屬第一次抱怨排班異動是什麼時候？', '單位對費用問題做過哪些承諾？'];
+
+const QaPanel = ({ turns, messagesById, isAsking, disabledReason, onAsk, onJump, onClear }: QaPanelProps) => {
+  const [question, setQuestion] = useState('');
+
+  const submit = () => {
+    const q = question.trim();
+    if (!q || isAsking || disabledReason) return;
+    setQuestion('');
+    onAsk(q);
+  };
+
+  const citationButton = (id: string, key: React.Key) => {
+    const message = messagesById.get(id);
+    return (
+      <button
+        key={key}
+        onClick={() => onJump(id)}
+        title={message ? `${message.datetime} ${message.sender}：${message.content.slice(0, 60)}` : id}
+        className="inline-flex items-center gap-1 mx-0.5 px-1.5 py-0.5 bg-emerald-50 border border-emerald-100 rounded text-[10px] font-bold text-emerald-700 hover:bg-emerald-100 align-baseline transition-all"
+      >
+        <ExternalLink className="w-2.5 h-2.5" />
+        {message ? `${message.date.slice(5)} ${message.time}` : '定位'}
+      </button>
+    );
+  };
+
+  // 回答中的 [訊息 ID] 換成可定位的按鈕，其他方括號文字原樣顯示
+  const renderAnswer = (turn: QaTurn) => {
+    const valid = new Set(turn.citedMessageIds);
+    const parts: React.ReactNode[] = [];
+    let last = 0;
+    for (const match of turn.answer.matchAll(CITATION_PATTERN)) {
+      if (!valid.has(match[1])) continue;
+      parts.push(turn.answer.slice(last, match.index));
+      parts.push(citationButton(match[1], `${match[1]}-${match.index}`));
+      last = match.index! + match[0].length;
+    }
+    parts.push(turn.answer.slice(last));
+    return parts;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-1 space-y-6">
+        {turns.length === 0 ? (
+          <div className="flex flex-col items-center justify-center text-center p-8 opacity-60 space-y-4">
+            <MessageCircleQuestion className="w-10 h-10 opacity-60" />
+            <p className="text-xs font-bold leading-relaxed text-slate-500">以自然語言詢問這份對話，<br />回答會附上可定位的原始訊息。</p>
+            <div className="space-y-2">
+              {EXAMPLES.map(example => (
+                <button
+                  key={example}
+                  onClick={() => setQuestion(example)}
+                  className="block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-[11px] font-bold text-slate-600 hover:bg-slate-100 transition-all"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-end">
+              <button onClick={onClear} className="flex items-center gap-1 text-[10px] font-bold text-slate-400 hover:text-red-600 transition-all">
+                <Trash2 className="w-3 h-3" /> 清除問答紀錄
+              </button>
+            </div>
+            {turns.map(turn => (
+              <div key={turn.id} className="space-y-2">
+                <div className="ml-10 p-3 bg-slate-900 text-white rounded-2xl rounded-tr-sm text-xs font-bold leading-relaxed">
+                  {turn.question}
+                </div>
+                <div className="mr-6 p-4 bg-white border border-slate-100 rounded-2xl rounded-tl-sm shadow-sm space-y-2">
+                  <p className="text-xs leading-relaxed text-slate-700 whitespace-pre-wrap font-medium">{renderAnswer(turn)}</p>
+                  {turn.citedMessageIds.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1 pt-2 border-t border-slate-100">
+                      <span className="text-[9px] font-black text-slate-400 uppercase mr-1">引用 {turn.citedMessageIds.length} 則</span>
+                      {turn.citedMessageIds.map(id => citationButton(id, id))}
+                    </div>
+                  )}
+                  {turn.invalidMessageIds.length > 0 && (
+                    <div className="flex items-start gap-1.5 text-[10px] font-bold text-red-600">
+                      <ShieldAlert className="w-3 h-3 shrink-0 mt-px" />
+                      <span>無法對應的引用 ID：{turn.invalidMessageIds.join('、')}</span>
+                    </div>
+                  )}
+                  <div className="text-[9px] font-bold text-slate-300">
+                    {turn.provider}・檢索 {turn.retrievedCount} 則{turn.redacted ? '・已遮蔽個資' : ''}・{new Date(turn.askedAt).toLocaleString()}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+        {isAsking && (
+          <div className="mr-6 p-4 bg-white border border-slate-100 rounded-2xl flex items-center gap-2 text-xs font-bold text-slate-400">
+            <div className="w-4 h-4 border-2 border-slate-200 border-t-emerald-500 rounded-full animate-spin" />
+            檢索並詢問中…
+          </div>
+        )}
+      </div>
+
+      <div className="sticky bottom-0 pt-4 bg-white">
+        {disabledReason && <p className="mb-2 text-[10px] font-bold text-amber-600">{disabledReason}</p>}
+        <div className="flex items-end gap-2 p-2 bg-slate-50 border border-slate-200 rounded-2xl focus-within:ring-2 focus-within:ring-emerald-500/20">
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                e.preventDefault();
+                submit();
+              }
+            }}
+            rows={2}
+            placeholder="詢問這份對話…（Enter 送出）"
+            className="flex-1 bg-transparent px-2 py-1 text-xs outline-none resize-none"
+          />
+          <button
+            onClick={submit}
+            disabled={!question.trim() || isAsking || !!disabledReason}
+            className="p-2 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-all disabled:opacity-40"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QaPanel;
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { EyeOff, Send, ShieldAlert, X } from 'lucide-react';
+import { ChatMessage, ParticipantProfile, PiiKind, RedactionEntry } from '../types';
+import { buildAnalysisPrompts, createAnalysisJob } from '../services/analysis';
+import { PII_KIND_LABELS, buildRedactionTable, countRedactions } from '../services/redaction';
+
+interface RedactionPreviewProps {
+  messages: ChatMessage[];
+  profiles: ParticipantProfile[];
+  isRemote: boolean; // 本機端點預設不遮蔽，仍可手動開啟
+  onConfirm: (redaction: RedactionEntry[] | undefined) => void;
+  onClose: () => void;
+}
+
+const TOKEN_SPLIT = /(\[[^\[\]\s]{1,12}\d+\])/;
+
+const RedactionPreview = ({ messages, profiles, isRemote, onConfirm, onClose }: RedactionPreviewProps) => {
+  const [enabled, setEnabled] = useState(isRemote);
+  const [termsDraft, setTermsDraft] = useState('');
+  const [customTerms, setCustomTerms] = useState<string[]>([]);
+  const [chunkIndex, setChunkIndex] = useState(0);
+
+  const table = useMemo(() => buildRedactionTable(messages, profiles, customTerms), [messages, profiles, customTerms]);
+  const counts = useMemo(() => countRedactions(messages, table), [messages, table]);
+  const prompts = useMemo(
+    () => buildAnalysisPrompts(messages, createAnalysisJob(messages, enabled ? table : undefined), profiles),
+    [messages, profiles, table, enabled]
+  );
+
+  const byKind = useMemo(() => {
+    const groups = {} as Record<PiiKind, RedactionEntry[]>;
+    table.forEach(e => { (groups[e.kind] ||= []).push(e); });
+    return groups;
+  }, [table]);
+
+  const prompt = prompts[Math.min(chunkIndex, prompts.length - 1)] || '';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="w-full max-w-6xl h-full bg-white rounded-[32px] shadow-2xl flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="flex items-center gap-2 text-lg font-black text-slate-900"><EyeOff className="w-5 h-5" /> 送出前預覽</h3>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{isRemote ? '以下內容將傳送至外部 AI 服務，其餘資料留在本機' : '以下內容將傳送至本機 AI 端點'}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-80 border-r border-slate-100 overflow-y-auto p-6 space-y-5 custom-scrollbar">
+            <label className="flex items-center gap-2 p-3 bg-slate-50 rounded-xl border border-slate-100 text-sm font-bold text-slate-700">
+              <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+              遮蔽個資後再送出
+            </label>
+            {!enabled && (
+              <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-100 rounded-xl text-[11px] font-bold text-red-700">
+                <ShieldAlert className="w-4 h-4 shrink-0" />
+                未遮蔽時，姓名、電話、地址與身分證字號等原文都會傳送至 AI 服務。
+              </div>
+            )}
+
+            {(Object.keys(PII_KIND_LABELS) as PiiKind[]).filter(kind => byKind[kind]?.length).map(kind => (
+              <section key={kind}>
+                <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
+                  {PII_KIND_LABELS[kind]}（{byKind[kind].length}）
+                </h4>
+                <ul className="space-y-1">
+                  {byKind[kind].map(e => (
+                    <li key={e.original} className="flex items-center justify-between gap-2 text-[11px]">
+                      <span className="truncate font-medium text-slate-600" title={e.original}>{e.original}</span>
+                      <span className="flex items-center gap-1.5 shrink-0">
+                        <span className="font-mono font-bold text-emerald-700">{e.token}</span>
+                        <span className="text-[9px] font-bold text-slate-300">×{counts[e.original] || 0}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+
+            <section>
+              <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">自訂遮蔽詞</h4>
+              <textarea
+                value={termsDraft}
+                onChange={(e) => setTermsDraft(e.target.value)}
+                rows={3}
+                placeholder="每行一個，例如暱稱、機構名稱"
+                className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-emerald-500/20"
+              />
+              <button
+                onClick={() => setCustomTerms(termsDraft.split('\n').map(t => t.trim()).filter(Boolean))}
+                className="mt-1 px-3 py-1.5 bg-slate-100 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-200 transition-all"
+              >
+                套用
+              </button>
+            </section>
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            {prompts.length > 1 && (
+              <div className="px-6 pt-4 flex flex-wrap gap-1">
+                {prompts.map((_, i) => (
+                  <button
+                    key={i}
+                    onClick={() => setChunkIndex(i)}
+                    className={`px-2 py-1 rounded-lg text-[10px] font-black border transition-all ${chunkIndex === i ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200'}`}
+                  >
+                    第 {i + 1} 段
+                  </button>
+                ))}
+                <span className="ml-2 self-center text-[10px] font-bold text-slate-400">各段分析完成後，另會送出模型回傳的各段摘要與事件標題以彙整總結</span>
+              </div>
+            )}
+            <pre className="flex-1 m-6 p-4 bg-slate-50 rounded-2xl border border-slate-100 overflow-auto text-[11px] leading-relaxed text-slate-700 whitespace-pre-wrap font-mono custom-scrollbar">
+              {enabled
+                ? prompt.split(TOKEN_SPLIT).map((part, i) => i % 2 === 1
+                  ? <mark key={i} className="bg-emerald-100 text-emerald-800 rounded px-0.5">{part}</mark>
+                  : part)
+                : prompt}
+            </pre>
+          </div>
+        </div>
+
+        <div className="px-8 py-4 border-t border-slate-100 flex items-center justify-end gap-2">
+          <span className="mr-auto text-[10px] font-bold text-slate-400">
+            共 {prompts.length} 段，{prompts.reduce((sum, p) => sum + p.length, 0).toLocaleString()} 字元
+          </span>
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100 transition-all">取消</button>
+          <button
+            onClick={() => onConfirm(enabled ? table : undefined)}
+            className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all"
+          >
+            <Send className="w-4 h-4" /> 確認送出分析
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RedactionPreview;
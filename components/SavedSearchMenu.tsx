@@ -0,0 +1,70 @@
+import React from 'react';
+import { BookmarkPlus, Trash2 } from 'lucide-react';
+import { SavedSearch } from '../types';
+
+interface SavedSearchMenuProps {
+  searches: SavedSearch[];
+  currentQuery: string;
+  onApply: (search: SavedSearch) => void;
+  onSaveCurrent: () => void;
+  onDelete: (search: SavedSearch) => void;
+}
+
+const SYNTAX_HINTS = [
+  ['sender:王小明', '發言者'],
+  ['role:居服員', '角色，亦可用 staff / 家屬方'],
+  ['tag:費用', '標籤'],
+  ['kind:收回訊息', '訊息類型，如 通話 / 未接通話 / 加入群組'],
+  ['date:2024/03/01..2024/03/31', '日期區間，亦可寫單日或 2024/03'],
+  ['"完整片語"', '精確片語'],
+  ['/\\d+元/', '正規表示式'],
+  ['A OR B、-排除、( )', '布林條件，空白即 AND'],
+];
+
+const SavedSearchMenu = ({ searches, currentQuery, onApply, onSaveCurrent, onDelete }: SavedSearchMenuProps) => (
+  <div className="absolute right-0 top-full mt-2 w-80 bg-white border border-slate-200 rounded-2xl shadow-xl p-3 z-30 space-y-3">
+    <button
+      onClick={onSaveCurrent}
+      disabled={!currentQuery.trim()}
+      className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold text-emerald-700 bg-emerald-50 hover:bg-emerald-100 transition-all disabled:opacity-50"
+    >
+      <BookmarkPlus className="w-4 h-4" /> 儲存目前的搜尋
+    </button>
+
+    <div className="space-y-1">
+      <div className="px-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">已儲存的搜尋</div>
+      {searches.length === 0 && <p className="px-1 text-[11px] font-bold text-slate-300">尚無儲存的搜尋</p>}
+      {searches.map(s => (
+        <div key={s.id} className="flex items-center gap-1 group">
+          <button
+            onClick={() => onApply(s)}
+            title={s.query}
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl text-left hover:bg-slate-100 transition-all"
+          >
+            <div className="text-xs font-bold text-slate-700 truncate">{s.name}</div>
+            <div className="text-[10px] font-mono text-slate-400 truncate">{s.query}</div>
+          </button>
+          <button
+            onClick={() => onDelete(s)}
+            title="刪除"
+            className="p-1.5 rounded-lg text-slate-300 hover:text-red-600 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-all"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+
+    <div className="pt-2 border-t border-slate-100 space-y-1">
+      <div className="px-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">查詢語法</div>
+      {SYNTAX_HINTS.map(([example, label]) => (
+        <div key={example} className="flex items-baseline gap-2 px-1 text-[10px]">
+          <code className="font-mono text-slate-700 shrink-0">{example}</code>
+          <span className="text-slate-400 font-bold">{label}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default SavedSearchMenu;
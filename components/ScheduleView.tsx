@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CalendarDays, CheckCircle2, CircleHelp, ExternalLink, FileDown, X } from 'lucide-react';
+import { ChatMessage, ParticipantProfile } from '../types';
+import { SCHEDULE_KIND_LABELS, ScheduleItem, ScheduleItemKind, extractSchedule } from '../services/schedule';
+
+interface ScheduleViewProps {
+  title: string;
+  messages: ChatMessage[];
+  profiles: ParticipantProfile[];
+  onJump: (messageId: string) => void;
+  onExportIcs: (items: ScheduleItem[]) => void;
+  onClose: () => void;
+}
+
+const KIND_COLORS: Record<ScheduleItemKind, string> = {
+  visit: 'bg-blue-50 text-blue-700 border-blue-200',
+  reschedule: 'bg-purple-50 text-purple-700 border-purple-200',
+  pause: 'bg-slate-100 text-slate-600 border-slate-300',
+  substitute: 'bg-amber-50 text-amber-700 border-amber-200',
+};
+
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
+const weekdayOf = (date: string) => {
+  const [y, m, d] = date.split('/').map(Number);
+  return WEEKDAY_LABELS[new Date(Date.UTC(y, m - 1, d)).getUTCDay()];
+};
+
+type ScheduleFilter = 'all' | 'conflict' | 'unconfirmed';
+
+const ScheduleView = ({ title, messages, profiles, onJump, onExportIcs, onClose }: ScheduleViewProps) => {
+  const [filter, setFilter] = useState<ScheduleFilter>('all');
+  const items = useMemo(() => extractSchedule(messages, profiles), [messages, profiles]);
+  const byId = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+  const conflictCount = items.filter(i => i.conflicts.length > 0).length;
+  const unconfirmedCount = items.filter(i => !i.confirmedBy).length;
+
+  const visible = items.filter(i =>
+    filter === 'conflict' ? i.conflicts.length > 0 : filter === 'unconfirmed' ? !i.confirmedBy : true
+  );
+  const dates: string[] = Array.from(new Set(visible.map(i => i.date)));
+
+  const jump = (id: string) => {
+    onClose();
+    onJump(id);
+  };
+
+  const filterButton = (value: ScheduleFilter, label: string) => (
+    <button
+      onClick={() => setFilter(value)}
+      className={`px-3 py-1 rounded-lg text-[10px] font-black transition-all ${filter === value ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-8">
+      <div className="bg-white rounded-[32px] shadow-2xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-8 py-5 border-b border-slate-100">
+          <div>
+            <h2 className="text-lg font-black text-slate-900 flex items-center gap-2"><CalendarDays className="w-5 h-5 text-purple-600" /> 服務排程</h2>
+            <p className="text-xs font-bold text-slate-400">{title}・由標為「排程」的訊息擷取，相對日期以訊息當天換算</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onExportIcs(visible)}
+              disabled={visible.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-200 transition-all disabled:opacity-50"
+            >
+              <FileDown className="w-3.5 h-3.5" /> 匯出行事曆 (.ics)
+            </button>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 px-8 py-3 border-b border-slate-100">
+          {filterButton('all', `全部 ${items.length}`)}
+          {filterButton('conflict', `衝突 ${conflictCount}`)}
+          {filterButton('unconfirmed', `未確認 ${unconfirmedCount}`)}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+          {items.length === 0 && (
+            <p className="text-center text-xs font-bold text-slate-400 py-12">沒有可擷取日期的排程訊息。若「排程」標籤已停用，請於標籤規則中啟用。</p>
+          )}
+          {dates.map(date => (
+            <section key={date} className="flex gap-4">
+              <div className="w-20 shrink-0 pt-2 text-right">
+                <div className="text-sm font-black text-slate-900">{date.slice(5)}</div>
+                <div className="text-[10px] font-bold text-slate-400">{date.slice(0, 4)}・週{weekdayOf(date)}</div>
+              </div>
+              <div className="flex-1 space-y-2 border-l-2 border-slate-100 pl-4">
+                {visible.filter(i => i.date === date).map(item => (
+                  <div key={item.id} className={`p-3 bg-white border rounded-xl space-y-1.5 ${item.conflicts.length ? 'border-red-200' : 'border-slate-100'}`}>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded-lg text-[10px] font-black border ${KIND_COLORS[item.kind]}`}>{SCHEDULE_KIND_LABELS[item.kind]}</span>
+                      <span className="text-xs font-black text-slate-700">
+                        {item.endDate ? `至 ${item.endDate}` : item.time || '整天'}
+                      </span>
+                      {item.confirmedBy ? (
+                        <button onClick={() => jump(item.confirmedBy!)} className="flex items-center gap-1 text-[10px] font-bold text-emerald-600 hover:underline">
+                          <CheckCircle2 className="w-3 h-3" /> 已確認
+                        </button>
+                      ) : (
+                        <span className="flex items-center gap-1 text-[10px] font-bold text-amber-600"><CircleHelp className="w-3 h-3" /> 未見對方確認</span>
+                      )}
+                      <span className="ml-auto text-[10px] font-bold text-slate-400">{item.sender}</span>
+                      <button onClick={() => jump(item.messageId)} title="定位原始訊息" className="p-1 text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all">
+                        <ExternalLink className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                    <p className="text-xs text-slate-700 leading-relaxed">{item.excerpt}</p>
+                    {item.conflicts.map(id => {
+                      const other = byId.get(id);
+                      return other && (
+                        <button
+                          key={id}
+                          onClick={() => jump(other.messageId)}
+                          className="w-full flex items-center gap-1.5 text-left text-[10px] font-bold text-red-600 hover:underline"
+                        >
+                          <AlertTriangle className="w-3 h-3 shrink-0" />
+                          <span className="truncate">
+                            與{SCHEDULE_KIND_LABELS[other.kind]}衝突：{other.date}{other.endDate ? `–${other.endDate}` : ''} {other.time || ''}「{other.excerpt}」
+                          </span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleView;
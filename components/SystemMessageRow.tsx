@@ -0,0 +1,58 @@
+import React from 'react';
+import { Images, Info, Megaphone, NotebookText, Phone, PhoneMissed, Undo2, UserMinus, UserPlus, Video, Vote } from 'lucide-react';
+import { ChatMessage, MessageKind } from '../types';
+import { CALL_OUTCOME_LABELS, MESSAGE_KIND_LABELS, formatCallDuration, parseCallRecord } from '../services/messageKinds';
+import HighlightedText from './HighlightedText';
+
+interface SystemMessageRowProps {
+  message: ChatMessage;
+  kind: MessageKind;
+  speakerName?: string; // 通話等有發送者的紀錄顯示參與者名稱
+  patterns: RegExp[];
+}
+
+const KIND_ICONS: Partial<Record<MessageKind, React.ReactNode>> = {
+  call: <Phone className="w-3 h-3" />,
+  missedCall: <PhoneMissed className="w-3 h-3" />,
+  unsent: <Undo2 className="w-3 h-3" />,
+  join: <UserPlus className="w-3 h-3" />,
+  invite: <UserPlus className="w-3 h-3" />,
+  leave: <UserMinus className="w-3 h-3" />,
+  album: <Images className="w-3 h-3" />,
+  note: <NotebookText className="w-3 h-3" />,
+  announcement: <Megaphone className="w-3 h-3" />,
+  poll: <Vote className="w-3 h-3" />,
+};
+
+// 收回與未接通話是常被引用的紀錄，以顏色與一般系統訊息區隔
+const KIND_STYLES: Partial<Record<MessageKind, string>> = {
+  call: 'bg-sky-50 text-sky-700 border-sky-100',
+  missedCall: 'bg-rose-50 text-rose-600 border-rose-100',
+  unsent: 'bg-amber-50 text-amber-700 border-amber-100',
+};
+
+const SystemMessageRow = ({ message, kind, speakerName, patterns }: SystemMessageRowProps) => {
+  const call = kind === 'call' || kind === 'missedCall' ? parseCallRecord(message.content) : null;
+  const style = KIND_STYLES[kind] ?? 'bg-slate-100/50 text-slate-400 border-transparent';
+
+  return (
+    <div className={`flex items-center gap-1.5 px-4 py-1 rounded-lg border text-[10px] font-medium ${style}`}>
+      {call?.media === 'video' ? <Video className="w-3 h-3" /> : KIND_ICONS[kind] ?? <Info className="w-3 h-3" />}
+      <span className="font-bold">{MESSAGE_KIND_LABELS[kind]}</span>
+      <span className="opacity-60">{message.time}</span>
+      {speakerName && <span className="font-bold">{speakerName}</span>}
+      {call ? (
+        <span>
+          {call.media === 'video' ? '視訊' : '語音'}・{CALL_OUTCOME_LABELS[call.outcome]}
+          {call.durationSeconds !== undefined && `・${formatCallDuration(call.durationSeconds)}`}
+        </span>
+      ) : (
+        <span className="italic">
+          <HighlightedText text={message.content} patterns={patterns} />
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default SystemMessageRow;
@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Plus, RotateCcw, Tags, Trash2, Upload, X } from 'lucide-react';
+import { ChatMessage, TagColor, TagIcon, TagRule } from '../types';
+import { DEFAULT_TAG_RULES, countRuleHits, createTagRule, validatePattern, validateTagRules, withRuleDefaults } from '../services/classifier';
+import { downloadBlob } from '../services/download';
+import { TAG_COLORS, TAG_ICONS } from './tagConfig';
+
+interface TagRulesEditorProps {
+  rules: TagRule[];
+  messages: ChatMessage[]; // 用於預覽命中數，未開啟 session 時為空
+  onSave: (rules: TagRule[], reclassify: boolean) => void;
+  onClose: () => void;
+}
+
+const splitList = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
+
+const TagRulesEditor = ({ rules, messages, onSave, onClose }: TagRulesEditorProps) => {
+  const [draft, setDraft] = useState<TagRule[]>(rules);
+  const [selectedId, setSelectedId] = useState<string | null>(rules[0]?.id ?? null);
+
+  const hits = useMemo(() => countRuleHits(messages, draft), [messages, draft]);
+  const selected = draft.find(r => r.id === selectedId);
+  const patternErrors = (selected?.patterns || []).map(p => ({ pattern: p, error: validatePattern(p) })).filter(p => p.error);
+  const hasErrors = draft.some(r => r.patterns.some(p => validatePattern(p)) || !r.label.trim());
+
+  const updateSelected = (patch: Partial<TagRule>) => {
+    setDraft(prev => prev.map(r => r.id === selectedId ? { ...r, ...patch } : r));
+  };
+
+  const addRule = () => {
+    const created = createTagRule();
+    setDraft(prev => [...prev, created]);
+    setSelectedId(created.id);
+  };
+
+  const removeRule = (id: string) => {
+    if (!confirm('刪除此標籤規則？已標記的訊息在重新分類後會移除此標籤。')) return;
+    setDraft(prev => prev.filter(r => r.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const exportRules = () => {
+    downloadBlob(new Blob([JSON.stringify(draft, null, 2)], { type: 'application/json' }), 'Tag_Rules.json');
+  };
+
+  const importRules = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      alert("無法讀取標籤規則檔，檔案格式可能不正確。");
+      return;
+    }
+    const issues = validateTagRules(parsed);
+    if (issues.length > 0) {
+      const shown = issues.slice(0, 5).join('\n');
+      alert(`標籤規則檔格式不符，未匯入：\n${shown}${issues.length > 5 ? `\n（另有 ${issues.length - 5} 處）` : ''}`);
+      return;
+    }
+    const imported = withRuleDefaults(parsed as TagRule[]);
+    setDraft(imported);
+    setSelectedId(imported[0]?.id ?? null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div className="w-full max-w-4xl h-full max-h-[720px] bg-white rounded-[32px] shadow-2xl flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="flex items-center gap-2 text-lg font-black text-slate-900"><Tags className="w-5 h-5" /> 標籤分類規則</h3>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {messages.length > 0 ? `預覽：目前對話 ${messages.length} 則訊息` : '開啟對話後可預覽命中數'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-200 cursor-pointer transition-all">
+              <Upload className="w-3.5 h-3.5" /> 匯入
+              <input type="file" accept=".json" className="hidden" onChange={importRules} />
+            </label>
+            <button onClick={exportRules} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-200 transition-all">
+              <Download className="w-3.5 h-3.5" /> 匯出
+            </button>
+            <button
+              onClick={() => confirm('還原為預設規則？') && setDraft(DEFAULT_TAG_RULES)}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-200 transition-all"
+            >
+              <RotateCcw className="w-3.5 h-3.5" /> 預設
+            </button>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-64 border-r border-slate-100 overflow-y-auto p-4 space-y-1 custom-scrollbar">
+            {draft.map(r => (
+              <button
+                key={r.id}
+                onClick={() => setSelectedId(r.id)}
+                className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-left transition-all ${
+                  selectedId === r.id ? 'bg-slate-900 text-white' : 'hover:bg-slate-50 text-slate-600'
+                } ${r.enabled ? '' : 'opacity-50'}`}
+              >
+                <span className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[10px] font-black border ${TAG_COLORS[r.color]}`}>
+                  {TAG_ICONS[r.icon]} {r.label}
+                </span>
+                <span className="text-[10px] font-black">{hits[r.id] ?? 0}</span>
+              </button>
+            ))}
+            <button
+              onClick={addRule}
+              className="w-full flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl border border-dashed border-slate-300 text-xs font-bold text-slate-500 hover:bg-slate-50 transition-all"
+            >
+              <Plus className="w-3.5 h-3.5" /> 新增標籤
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-8 custom-scrollbar">
+            {selected ? (
+              <div className="space-y-5">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-black text-slate-500">命中 {hits[selected.id] ?? 0} 則訊息</span>
+                  <div className="flex items-center gap-3">
+                    <label className="flex items-center gap-1.5 text-xs font-bold text-slate-600">
+                      <input type="checkbox" checked={selected.enabled} onChange={(e) => updateSelected({ enabled: e.target.checked })} />
+                      啟用
+                    </label>
+                    <label className="flex items-center gap-1.5 text-xs font-bold text-slate-600">
+                      <input type="checkbox" checked={selected.important} onChange={(e) => updateSelected({ important: e.target.checked })} />
+                      標為重要
+                    </label>
+                    <button onClick={() => removeRule(selected.id)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block">
+                    <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">名稱</span>
+                    <input
+                      value={selected.label}
+                      onChange={(e) => updateSelected({ label: e.target.value })}
+                      className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:ring-2 focus:ring-emerald-500/20"
+                    />
+                  </label>
+                  <div>
+                    <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">圖示與顏色</span>
+                    <div className="flex flex-wrap gap-1">
+                      {(Object.keys(TAG_ICONS) as TagIcon[]).map(icon => (
+                        <button
+                          key={icon}
+                          onClick={() => updateSelected({ icon })}
+                          className={`p-1.5 rounded-lg border transition-all ${selected.icon === icon ? 'border-slate-900 bg-slate-100' : 'border-slate-200'}`}
+                        >
+                          {TAG_ICONS[icon]}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {(Object.keys(TAG_COLORS) as TagColor[]).map(color => (
+                        <button
+                          key={color}
+                          onClick={() => updateSelected({ color })}
+                          className={`w-6 h-6 rounded-lg border-2 ${TAG_COLORS[color]} ${selected.color === color ? 'ring-2 ring-slate-900' : ''}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                <label className="block">
+                  <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">關鍵字（每行一個，任一出現即符合）</span>
+                  <textarea
+                    value={selected.keywords.join('\n')}
+                    onChange={(e) => updateSelected({ keywords: splitList(e.target.value) })}
+                    rows={4}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-mono outline-none focus:ring-2 focus:ring-emerald-500/20"
+                  />
+                </label>
+
+                <label className="block">
+                  <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">正規表示式（每行一個）</span>
+                  <textarea
+                    value={selected.patterns.join('\n')}
+                    onChange={(e) => updateSelected({ patterns: splitList(e.target.value) })}
+                    rows={3}
+                    placeholder={'例：NT\\$\\s?\\d+'}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-mono outline-none focus:ring-2 focus:ring-emerald-500/20"
+                  />
+                  {patternErrors.map(p => (
+                    <span key={p.pattern} className="block text-[10px] font-bold text-red-600">/{p.pattern}/：{p.error}</span>
+                  ))}
+                </label>
+
+                <label className="block">
+                  <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">排除關鍵字（出現即不符合，用於排除誤判）</span>
+                  <textarea
+                    value={selected.excludeKeywords.join('\n')}
+                    onChange={(e) => updateSelected({ excludeKeywords: splitList(e.target.value) })}
+                    rows={2}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-mono outline-none focus:ring-2 focus:ring-emerald-500/20"
+                  />
+                </label>
+
+                <div>
+                  <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">發送者條件</span>
+                  <div className="flex items-start gap-3">
+                    <select
+                      value={selected.senderMode}
+                      onChange={(e) => updateSelected({ senderMode: e.target.value as TagRule['senderMode'] })}
+                      className="bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none"
+                    >
+                      <option value="any">不限發送者</option>
+                      <option value="include">僅限下列發送者</option>
+                      <option value="exclude">排除下列發送者</option>
+                    </select>
+                    {selected.senderMode !== 'any' && (
+                      <textarea
+                        value={selected.senders.join('\n')}
+                        onChange={(e) => updateSelected({ senders: splitList(e.target.value) })}
+                        rows={2}
+                        placeholder="名稱包含（每行一個）"
+                        className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-emerald-500/20"
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center text-xs font-bold text-slate-400">選擇左側的標籤以編輯規則</div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-8 py-4 border-t border-slate-100 flex items-center justify-end gap-2">
+          {hasErrors && <span className="mr-auto text-[10px] font-bold text-red-600">請修正名稱或正規表示式錯誤後再儲存</span>}
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:bg-slate-100 transition-all">取消</button>
+          <button
+            onClick={() => onSave(draft, false)}
+            disabled={hasErrors}
+            className="px-4 py-2 rounded-xl text-sm font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 transition-all disabled:opacity-50"
+          >
+            儲存規則
+          </button>
+          {messages.length > 0 && (
+            <button
+              onClick={() => onSave(draft, true)}
+              disabled={hasErrors}
+              className="px-4 py-2 rounded-xl text-sm font-bold bg-emerald-600 text-white hover:bg-emerald-700 transition-all disabled:opacity-50"
+            >
+              儲存並重新分類此對話
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagRulesEditor;
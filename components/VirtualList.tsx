@@ -0,0 +1,159 @@
+import React, { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+
+export interface VirtualListHandle {
+  // 捲動到指定項目並等待其實際渲染；找不到項目時回傳 false
+  scrollToKey: (key: string, align?: 'start' | 'center') => Promise<boolean>;
+}
+
+interface VirtualListProps<T> {
+  items: T[];
+  scrollRef: { current: HTMLElement | null }; // 外層負責捲動的容器
+  getKey: (item: T) => string;
+  estimateSize: (item: T) => number;
+  renderItem: (item: T) => React.ReactNode;
+  overscan?: number; // 視窗上下額外渲染的像素
+  ref?: { current: VirtualListHandle | null };
+}
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+// 第一個底端超過 top 的項目
+const findIndex = (offsets: number[], top: number) => {
+  let lo = 0;
+  let hi = offsets.length - 2;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid + 1] <= top) lo = mid + 1;
+    else hi = mid;
+  }
+  return Math.max(0, lo);
+};
+
+/**
+ * 只渲染視窗附近的項目。高度先以 estimateSize 估計，渲染後以 ResizeObserver 量測修正；
+ * 視窗上方的項目高度改變時同步調整捲動位置，避免畫面跳動。
+ */
+const VirtualList = <T,>({ items, scrollRef, getKey, estimateSize, renderItem, overscan = 800, ref }: VirtualListProps<T>) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  const keys = useMemo<string[]>(() => items.map(getKey), [items]);
+  const keyIndex = useMemo<Map<string, number>>(() => new Map(keys.map((k, i) => [k, i])), [keys]);
+  const offsets = useMemo<number[]>(() => {
+    const result = [0];
+    items.forEach((item, i) => result.push(result[i] + (sizesRef.current.get(keys[i]) ?? estimateSize(item))));
+    return result;
+  }, [items, keys, measureVersion]);
+
+  const latest = useRef({ offsets, keyIndex, viewportTop: 0 });
+  latest.current = { offsets, keyIndex, viewportTop: viewport.top };
+
+  // 清單頂端相對於捲動內容的位置（容器可能有 padding 或其他前置內容）
+  const listTop = () => {
+    const scroller = scrollRef.current;
+    const list = listRef.current;
+    if (!scroller || !list) return 0;
+    return list.getBoundingClientRect().top - scroller.getBoundingClientRect().top + scroller.scrollTop;
+  };
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setViewport({ top: scroller.scrollTop - listTop(), height: scroller.clientHeight }));
+    };
+    update();
+    scroller.addEventListener('scroll', update, { passive: true });
+    const resize = new ResizeObserver(update);
+    resize.observe(scroller);
+    return () => {
+      cancelAnimationFrame(frame);
+      scroller.removeEventListener('scroll', update);
+      resize.disconnect();
+    };
+  }, [scrollRef]);
+
+  // 觀察器在 effect 中建立與中止；建立前已渲染的項目先記在 elementsRef，建立時補上觀察
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const elementsRef = useRef(new Set<HTMLElement>());
+  useEffect(() => {
+    const observer = new ResizeObserver(entries => {
+      let changed = false;
+      let shift = 0;
+      entries.forEach(entry => {
+        const el = entry.target as HTMLElement;
+        const key = el.dataset.key;
+        if (!key || !el.isConnected) return;
+        const height = el.offsetHeight;
+        const previous = sizesRef.current.get(key);
+        if (previous === height) return;
+        const index = latest.current.keyIndex.get(key);
+        if (index !== undefined && latest.current.offsets[index] < latest.current.viewportTop) {
+          shift += height - (previous ?? latest.current.offsets[index + 1] - latest.current.offsets[index]);
+        }
+        sizesRef.current.set(key, height);
+        changed = true;
+      });
+      if (shift && scrollRef.current) scrollRef.current.scrollTop += shift;
+      if (changed) setMeasureVersion(v => v + 1);
+    });
+    observerRef.current = observer;
+    elementsRef.current.forEach(el => observer.observe(el));
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [scrollRef]);
+
+  const measure = useCallback((el: HTMLElement | null) => {
+    if (!el) return;
+    elementsRef.current.add(el);
+    observerRef.current?.observe(el);
+    return () => {
+      elementsRef.current.delete(el);
+      observerRef.current?.unobserve(el);
+    };
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    scrollToKey: async (key: string, align: 'start' | 'center' = 'start') => {
+      const scroller = scrollRef.current;
+      if (!scroller || !latest.current.keyIndex.has(key)) return false;
+      // 目標附近的項目量測後位置會再變動，重複對齊直到穩定
+      for (let pass = 0; pass < 4; pass++) {
+        const { offsets: current, keyIndex: index } = latest.current;
+        const i = index.get(key)!;
+        const size = current[i + 1] - current[i];
+        const target = Math.max(0, listTop() + current[i] - (align === 'center' ? (scroller.clientHeight - size) / 2 : 0));
+        if (pass > 0 && Math.abs(scroller.scrollTop - target) < 2) break;
+        scroller.scrollTop = target;
+        await nextFrame();
+        await nextFrame();
+      }
+      return true;
+    },
+  }), [scrollRef]);
+
+  const total = offsets[offsets.length - 1];
+  const start = items.length ? findIndex(offsets, viewport.top - overscan) : 0;
+  let end = start;
+  while (end < items.length && offsets[end] < viewport.top + viewport.height + overscan) end++;
+
+  return (
+    <div ref={listRef} className="relative" style={{ height: total }}>
+      <div className="absolute inset-x-0" style={{ top: offsets[start] }}>
+        {items.slice(start, end).map((item, i) => (
+          <div key={keys[start + i]} data-key={keys[start + i]} ref={measure}>
+            {renderItem(item)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
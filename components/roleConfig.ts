@@ -0,0 +1,9 @@
+import { ParticipantRole } from '../types';
+
+export const ROLE_COLORS: Record<ParticipantRole, string> = {
+  family: 'bg-blue-100 text-blue-700 border-blue-200',
+  client: 'bg-indigo-100 text-indigo-700 border-indigo-200',
+  careWorker: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  supervisor: 'bg-teal-100 text-teal-700 border-teal-200',
+  other: 'bg-slate-100 text-slate-600 border-slate-200',
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import {
+  AlertCircle,
+  Banknote,
+  CalendarCheck,
+  CalendarOff,
+  Car,
+  HeartPulse,
+  House,
+  Phone,
+  Pill,
+  Stethoscope,
+  Tag
+} from 'lucide-react';
+import { TagColor, TagIcon, TagRule } from '../types';
+
+export interface TagDisplay {
+  icon: React.ReactNode;
+  color: string;
+  label: string;
+}
+
+export const TAG_ICONS: Record<TagIcon, React.ReactNode> = {
+  banknote: <Banknote className="w-3 h-3" />,
+  stethoscope: <Stethoscope className="w-3 h-3" />,
+  calendar: <CalendarCheck className="w-3 h-3" />,
+  alert: <AlertCircle className="w-3 h-3" />,
+  pill: <Pill className="w-3 h-3" />,
+  heart: <HeartPulse className="w-3 h-3" />,
+  'calendar-off': <CalendarOff className="w-3 h-3" />,
+  car: <Car className="w-3 h-3" />,
+  phone: <Phone className="w-3 h-3" />,
+  house: <House className="w-3 h-3" />,
+  tag: <Tag className="w-3 h-3" />,
+};
+
+export const TAG_COLORS: Record<TagColor, string> = {
+  orange: 'bg-orange-100 text-orange-700 border-orange-200',
+  blue: 'bg-blue-100 text-blue-700 border-blue-200',
+  purple: 'bg-purple-100 text-purple-700 border-purple-200',
+  red: 'bg-red-100 text-red-700 border-red-200',
+  emerald: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  pink: 'bg-pink-100 text-pink-700 border-pink-200',
+  sky: 'bg-sky-100 text-sky-700 border-sky-200',
+  amber: 'bg-amber-100 text-amber-700 border-amber-200',
+  slate: 'bg-slate-100 text-slate-700 border-slate-200',
+};
+
+// 時間軸上的標籤標記點
+export const TAG_DOT_COLORS: Record<TagColor, string> = {
+  orange: 'bg-orange-400',
+  blue: 'bg-blue-400',
+  purple: 'bg-purple-400',
+  red: 'bg-red-500',
+  emerald: 'bg-emerald-400',
+  pink: 'bg-pink-400',
+  sky: 'bg-sky-400',
+  amber: 'bg-amber-400',
+  slate: 'bg-slate-400',
+};
+
+// 規則已刪除但訊息上仍留有的標籤
+const UNKNOWN_TAG = (id: string): TagDisplay => ({ icon: TAG_ICONS.tag, color: TAG_COLORS.slate, label: id });
+
+export const buildTagConfig = (rules: TagRule[]): Record<string, TagDisplay> =>
+  Object.fromEntries(rules.map(r => [r.id, { icon: TAG_ICONS[r.icon], color: TAG_COLORS[r.color], label: r.label }]));
+
+export const getTagDisplay = (config: Record<string, TagDisplay>, id: string) => config[id] || UNKNOWN_TAG(id);
@@ -1,6 +1,5 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type, GenerateContentResponse } from '@google/genai';
 import { 
   MessageSquare, 
   Users, 
@@ -18,10 +17,6 @@ import {
   Download,
   Search,
   AlertCircle,
-  Banknote,
-  Stethoscope,
-  CalendarCheck,
-  ChevronRight,
   Filter,
   Info,
   ExternalLink,
@@ -29,339 +24,1130 @@ import {
   User,
   Building2,
   Quote,
-  ShieldAlert
+  ShieldAlert,
+  FileWarning,
+  X,
+  RotateCcw,
+  Square,
+  FileCheck,
+  Link2,
+  HardDrive,
+  Printer,
+  FileDown,
+  Pencil,
+  Pin,
+  StickyNote,
+  Plus,
+  Check,
+  Bot,
+  BarChart3,
+  Banknote,
+  CalendarDays,
+  UserPen,
+  ListPlus,
+  Settings2,
+  Tags,
+  UserCog,
+  GitCompare,
+  Globe,
+  FilePlus2,
+  Briefcase,
+  FolderPlus,
+  MessageCircleQuestion,
+  ChevronUp,
+  ChevronDown,
+  Bookmark,
+  Paperclip,
+  FolderOpen
 } from 'lucide-react';
-
-// --- Types ---
-
-interface ChatMessage {
-  id: string;
-  date: string;
-  time: string;
-  datetime: string;
-  sender: string;
-  content: string;
-  isSystem: boolean;
-  isImportant: boolean;
-  tags: string[];
-}
-
-interface CaseEvent {
-  id: string;
-  title: string;
-  summary: string;
-  riskLevel: '低' | '中' | '高';
-  riskAssessment: string;
-  remarks: string;
-  dateRange: string;
-  relatedMessageIds: string[];
-  familyExcerpts: string[]; // 關鍵原文摘錄: 家屬/案主說過的話
-  staffExcerpts: string[];  // 關鍵原文摘錄: 單位/機構說過的話
-}
-
-interface AnalysisResult {
-  summary: string;
-  sentiment: string;
-  topics: string[];
-  relationshipDynamic: string;
-  events: CaseEvent[];
-  statistics: {
-    paymentCount: number;
-    serviceCount: number;
-    scheduleCount: number;
-    issueCount: number;
-  };
-}
-
-interface ChatSession {
-  id: string;
-  fileName: string;
-  timestamp: number;
-  fileHash: string;
-  fileSize: number;
-  messages: ChatMessage[];
-  participants: string[];
-  analysis?: AnalysisResult;
-}
+import {
+  Attachment,
+  CaseEvent,
+  CaseFolder,
+  ChatMessage,
+  ChatSession,
+  Commitment,
+  CommitmentStatus,
+  AiSettings,
+  AnalysisJob,
+  ArchiveVerificationReport,
+  ChunkStatus,
+  ExcerptMatch,
+  LineDialect,
+  MessageKind,
+  ParticipantProfile,
+  ParticipantRole,
+  RedactionEntry,
+  SavedSearch,
+  TagRule
+} from './types';
+import { canResumeJob, createAnalysisJob, runAnalysisJob } from './services/analysis';
+import { countUnverified, verifyAnalysis } from './services/verification';
+import {
+  SessionWrite,
+  StorageEstimate,
+  describeStorageError,
+  formatBytes,
+  getStorageEstimate,
+  loadCases,
+  loadSessionData,
+  loadSessionSummaries,
+  migrateLegacyStorage,
+  writeCases,
+  writeSessions
+} from './services/storage';
+import { buildCaseReportHtml, buildReportHtml, printReport } from './services/report';
+import {
+  EDITABLE_FIELD_LABELS,
+  EventPatch,
+  createManualEvent,
+  deleteEvent,
+  isAiAnalysis,
+  isHumanEvent,
+  linkMessages,
+  setAnnotation,
+  unlinkMessage,
+  updateEvent
+} from './services/editing';
+import {
+  CUSTODY_ACTION_LABELS,
+  appendCustodyEntry,
+  sealArchive,
+  verifyArchive
+} from './services/custody';
+import { EXPORT_DIFF_LABELS, MergeResult, indexExportDiffs, mergeExport } from './services/merge';
+import { loadTagRules, reclassifyMessages, saveTagRules } from './services/classifier';
+import { buildTagConfig, getTagDisplay } from './components/tagConfig';
+import TagRulesEditor from './components/TagRulesEditor';
+import {
+  GroupedExcerpt,
+  PARTICIPANT_ROLES,
+  PARTICIPANT_ROLE_LABELS,
+  buildParticipantIndex,
+  groupExcerpts,
+  resolveProfiles
+} from './services/participants';
+import ParticipantsPanel from './components/ParticipantsPanel';
+import RedactionPreview from './components/RedactionPreview';
+import { AI_PROVIDER_LABELS, createAiProvider, describeSettingsProblem, isRemoteProvider, loadAiSettings, saveAiSettings } from './services/aiProvider';
+import AiSettingsPanel from './components/AiSettingsPanel';
+import { ROLE_COLORS } from './components/roleConfig';
+import { buildCaseTimeline, createCaseFolder, findCaseOf, pruneCaseMembers, resolveCaseProfiles } from './services/cases';
+import CaseView from './components/CaseView';
+import { askArchive } from './services/qa';
+import QaPanel from './components/QaPanel';
+import { COMMITMENT_STATUS_LABELS, setCommitmentStatus, trackCommitments } from './services/commitments';
+import CommitmentList from './components/CommitmentList';
+import MetricsDashboard from './components/MetricsDashboard';
+import { LedgerEntry, ledgerToCsv } from './services/ledger';
+import LedgerView from './components/LedgerView';
+import { ScheduleItem, scheduleToIcs } from './services/schedule';
+import ScheduleView from './components/ScheduleView';
+import { withEventDates } from './services/timeline';
+import EventTimeline from './components/EventTimeline';
+import { collectHighlights, compileQuery, loadSavedSearches, parseQuery, saveSavedSearches } from './services/search';
+import HighlightedText from './components/HighlightedText';
+import SavedSearchMenu from './components/SavedSearchMenu';
+import { IMPORT_STAGE_LABELS, ImportProgress, ProcessedExport, processExportInWorker } from './services/importPipeline';
+import VirtualList, { VirtualListHandle } from './components/VirtualList';
+import { AttachmentInput, createAttachment, linkAttachment, matchAttachments, readZipEntries } from './services/attachments';
+import { ATTACHABLE_KINDS, MESSAGE_KINDS, MESSAGE_KIND_LABELS, messageKindOf } from './services/messageKinds';
+import MessageMedia from './components/MessageMedia';
+import { DEFAULT_TIME_ZONE, TIME_ZONE_OPTIONS, withTimeZone } from './services/datetime';
+import { downloadBlob } from './services/download';
+import { ANALYSIS_SCHEMA_VERSION, SESSION_SCHEMA_VERSION, migrateAnalysis, migrateSession, needsMigration, remapCaseMessageIds } from './services/migrations';
+import { parseArchiveFile } from './services/archive';
+import SystemMessageRow from './components/SystemMessageRow';
 
 // --- Constants & Config ---
 
-const MODEL_NAME = 'gemini-3-pro-preview';
-
-const TAG_CONFIG: Record<string, { icon: React.ReactNode; color: string; label: string }> = {
-  payment: { icon: <Banknote className="w-3 h-3" />, color: 'bg-orange-100 text-orange-700 border-orange-200', label: '費用' },
-  service: { icon: <Stethoscope className="w-3 h-3" />, color: 'bg-blue-100 text-blue-700 border-blue-200', label: '服務' },
-  schedule: { icon: <CalendarCheck className="w-3 h-3" />, color: 'bg-purple-100 text-purple-700 border-purple-200', label: '排程' },
-  issue: { icon: <AlertCircle className="w-3 h-3" />, color: 'bg-red-100 text-red-700 border-red-200', label: '問題' },
+const DIALECT_LABELS: Record<LineDialect, string> = {
+  'zh-TW': '繁體中文',
+  en: 'English',
+  ja: '日本語',
+  unknown: '未知格式',
 };
 
-// --- Utilities ---
-
-const calculateSHA256 = async (text: string): Promise<string> => {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(text);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+const CHUNK_STATUS_CONFIG: Record<ChunkStatus, { color: string; label: string }> = {
+  pending: { color: 'bg-slate-100 text-slate-400 border-slate-200', label: '待分析' },
+  running: { color: 'bg-blue-50 text-blue-600 border-blue-100', label: '分析中' },
+  done: { color: 'bg-emerald-50 text-emerald-600 border-emerald-100', label: '完成' },
+  failed: { color: 'bg-red-50 text-red-600 border-red-100', label: '失敗' },
 };
 
-const classifyMessage = (content: string): { tags: string[]; isImportant: boolean } => {
-  const tags: string[] = [];
-  let isImportant = false;
-  const c = content.toLowerCase();
-
-  if (c.match(/[$元]|繳費|自付額|費用|薪資|匯款/)) {
-    tags.push('payment');
-    isImportant = true;
-  }
-  if (c.match(/服務|照護|居服|協助|喘息|就醫|家訪|評估/)) {
-    tags.push('service');
-  }
-  if (c.match(/時間|星期|禮拜|調動|排程|日期|幾點|暫停|更換/)) {
-    tags.push('schedule');
-  }
-  if (c.match(/問題|抱歉|不好意思|協商|抱怨|受傷|跌倒|緊急|受傷|衝突/)) {
-    tags.push('issue');
-    isImportant = true;
-  }
-  return { tags, isImportant };
+const EXCERPT_MATCH_CONFIG: Record<ExcerptMatch, { color: string; label: string }> = {
+  exact: { color: 'bg-emerald-100 text-emerald-700 border-emerald-200', label: '原文相符' },
+  fuzzy: { color: 'bg-amber-100 text-amber-700 border-amber-200', label: '近似原文' },
+  unverified: { color: 'bg-red-100 text-red-700 border-red-200', label: '無法驗證' },
 };
 
+// 對話虛擬清單的一列：日期分隔或訊息
+interface ChatRow {
+  key: string;
+  date: string;
+  message?: ChatMessage;
+}
+
 // --- Main App Component ---
 
 const App = () => {
-  const [sessions, setSessions] = useState<ChatSession[]>(() => {
-    const saved = localStorage.getItem('line_intel_pro_sessions');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [isStorageReady, setIsStorageReady] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [loadedSessionIds, setLoadedSessionIds] = useState<Set<string>>(() => new Set());
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [cases, setCases] = useState<CaseFolder[]>([]);
+  const [activeCaseId, setActiveCaseId] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterTag, setFilterTag] = useState<string | null>(null);
-  const [rightPanel, setRightPanel] = useState<'analysis' | 'navigator'>('analysis');
+  const [filterRole, setFilterRole] = useState<ParticipantRole | null>(null);
+  const [filterKind, setFilterKind] = useState<MessageKind | null>(null);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>(() => loadSavedSearches());
+  const [showSavedSearches, setShowSavedSearches] = useState(false);
+  const [matchCursor, setMatchCursor] = useState(-1);
+  const [importProgress, setImportProgress] = useState<{ fileName: string; progress: ImportProgress } | null>(null);
+  const [rightPanel, setRightPanel] = useState<'analysis' | 'navigator' | 'qa'>('analysis');
+  const [isAsking, setIsAsking] = useState(false);
+  const [showUnparsed, setShowUnparsed] = useState(false);
+  const [showReportMenu, setShowReportMenu] = useState(false);
+  const [selectedMessageIds, setSelectedMessageIds] = useState<Set<string>>(() => new Set());
+  const [editingEventId, setEditingEventId] = useState<string | null>(null);
+  const [eventDraft, setEventDraft] = useState<EventPatch>({});
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [archiveReport, setArchiveReport] = useState<{ title: string; report: ArchiveVerificationReport } | null>(null);
+  const [tagRules, setTagRules] = useState<TagRule[]>(() => loadTagRules());
+  const [showTagEditor, setShowTagEditor] = useState(false);
+  const [showParticipants, setShowParticipants] = useState(false);
+  const [redactionTarget, setRedactionTarget] = useState<'session' | 'case' | null>(null);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(() => loadAiSettings());
+  const [showAiSettings, setShowAiSettings] = useState(false);
+  const [showMetrics, setShowMetrics] = useState(false);
+  const [showLedger, setShowLedger] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
   
   const scrollRef = useRef<HTMLDivElement>(null);
+  const chatListRef = useRef<VirtualListHandle | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const sessionsRef = useRef(sessions);
+  sessionsRef.current = sessions;
+  // 儲存區目前的內容，用於判斷哪些 session 需要寫回
+  const persistedRef = useRef(new Map<string, ChatSession>());
+  const persistedCasesRef = useRef(new Map<string, CaseFolder>());
+  // 寫入失敗的 ID：下次變更時視為未曾儲存，完整重寫或重新刪除
+  const unsavedIdsRef = useRef(new Set<string>());
+  const unsavedCaseIdsRef = useRef(new Set<string>());
+  const casesRef = useRef(cases);
+  casesRef.current = cases;
+  const loadedIdsRef = useRef(loadedSessionIds);
+  loadedIdsRef.current = loadedSessionIds;
+  const loadingIdsRef = useRef(new Set<string>());
 
   const activeSession = useMemo(() => 
     sessions.find(s => s.id === activeSessionId), 
     [sessions, activeSessionId]
   );
 
-  const messagesByDate = useMemo<Record<string, ChatMessage[]>>(() => {
-    if (!activeSession) return {};
-    const groups: Record<string, ChatMessage[]> = {};
-    activeSession.messages.forEach(m => {
-      if (!groups[m.date]) groups[m.date] = [];
-      groups[m.date].push(m);
-    });
-    return groups;
-  }, [activeSession]);
+  const activeCase = useMemo(() => cases.find(c => c.id === activeCaseId), [cases, activeCaseId]);
+  const caseMembers = useMemo(() =>
+    activeCase ? activeCase.sessionIds.map(id => sessions.find(s => s.id === id)).filter((s): s is ChatSession => !!s) : [],
+    [activeCase, sessions]
+  );
+  const isCaseLoaded = caseMembers.every(s => loadedSessionIds.has(s.id));
+  const caseMessages = useMemo(() => isCaseLoaded ? buildCaseTimeline(caseMembers) : [], [caseMembers, isCaseLoaded]);
+  const caseProfiles = useMemo(() => resolveCaseProfiles(caseMembers), [caseMembers]);
+
+  const tagConfig = useMemo(() => buildTagConfig(tagRules), [tagRules]);
 
-  const filteredMessages = useMemo(() => {
+  const participantProfiles = useMemo<ParticipantProfile[]>(() =>
+    activeSession ? resolveProfiles(activeSession.participants, activeSession.participantProfiles) : [],
+    [activeSession]
+  );
+  const participantIndex = useMemo(() => buildParticipantIndex(participantProfiles), [participantProfiles]);
+  const exportDiffs = useMemo(() => indexExportDiffs(activeSession?.exportDiffs), [activeSession]);
+  const messagesById = useMemo(() => new Map<string, ChatMessage>((activeSession?.messages || []).map(m => [m.id, m])), [activeSession]);
+  const attachmentsByMessage = useMemo(() => new Map<string, Attachment>(
+    (activeSession?.attachments || []).filter(a => a.messageId).map(a => [a.messageId!, a])
+  ), [activeSession]);
+  const unlinkedAttachments = useMemo<Attachment[]>(() => (activeSession?.attachments || []).filter(a => !a.messageId), [activeSession]);
+
+  // 依發言者角色分組的摘錄，以事件 ID 為鍵
+  const excerptGroups = useMemo(() => new Map<string, Record<'family' | 'staff', GroupedExcerpt[]>>(
+    (activeSession?.analysis?.events || []).map(e => [e.id, groupExcerpts(e, messagesById, participantIndex)])
+  ), [activeSession, messagesById, participantIndex]);
+
+  const parsedQuery = useMemo(() => parseQuery(searchTerm), [searchTerm]);
+  const highlightPatterns = useMemo<RegExp[]>(() => collectHighlights(parsedQuery.node), [parsedQuery]);
+  const isSearching = !!parsedQuery.node;
+
+  const filteredMessages = useMemo<ChatMessage[]>(() => {
     if (!activeSession) return [];
-    let results = activeSession.messages;
-    if (searchTerm) {
-      const s = searchTerm.toLowerCase();
-      results = results.filter(m => 
-        m.content.toLowerCase().includes(s) || 
-        m.sender.toLowerCase().includes(s)
-      );
-    }
-    if (filterTag) {
-      results = results.filter(m => m.tags.includes(filterTag));
-    }
-    return results;
-  }, [activeSession, searchTerm, filterTag]);
+    const matchesQuery = compileQuery(parsedQuery.node, { participantIndex, tagRules });
+    return activeSession.messages.filter(m =>
+      matchesQuery(m) &&
+      (!filterTag || m.tags.includes(filterTag)) &&
+      (!filterRole || participantIndex.get(m.sender)?.role === filterRole) &&
+      (!filterKind || messageKindOf(m) === filterKind)
+    );
+  }, [activeSession, parsedQuery, filterTag, filterRole, filterKind, participantIndex, tagRules]);
+
+  // 各類型訊息數，篩選選單只列出此對話中出現的類型
+  const kindCounts = useMemo<Map<MessageKind, number>>(() => {
+    const counts = new Map<MessageKind, number>();
+    activeSession?.messages.forEach(m => {
+      const kind = messageKindOf(m);
+      counts.set(kind, (counts.get(kind) ?? 0) + 1);
+    });
+    return counts;
+  }, [activeSession?.messages]);
+
+  // 虛擬清單的列：每個日期一列日期分隔，其後為當天的訊息
+  const chatRows = useMemo<ChatRow[]>(() => {
+    const rows: ChatRow[] = [];
+    filteredMessages.forEach((m, i) => {
+      if (i === 0 || filteredMessages[i - 1].date !== m.date) rows.push({ key: `date-${m.date}`, date: m.date });
+      rows.push({ key: m.id, date: m.date, message: m });
+    });
+    return rows;
+  }, [filteredMessages]);
+
+  useEffect(() => setMatchCursor(-1), [filteredMessages]);
+
+  const isActiveLoaded = !!activeSessionId && loadedSessionIds.has(activeSessionId);
+
+  const aiProblem = useMemo(() => describeSettingsProblem(aiSettings), [aiSettings]);
+  const isAiReady = !aiProblem;
+
+  const refreshStorageEstimate = () => {
+    getStorageEstimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+  };
+
+  useEffect(() => {
+    migrateLegacyStorage()
+      .catch(err => {
+        console.error("Legacy storage migration failed", err);
+        setStorageError(`舊資料搬移失敗，原資料仍保留於瀏覽器中。${describeStorageError(err)}`);
+      })
+      .then(() => Promise.all([loadSessionSummaries(), loadCases()]))
+      .then(([loaded, loadedCases]) => {
+        persistedRef.current = new Map(loaded.map(s => [s.id, s]));
+        setSessions(loaded);
+        persistedCasesRef.current = new Map(loadedCases.map(c => [c.id, c]));
+        setCases(loadedCases);
+      })
+      .catch(err => setStorageError(describeStorageError(err)))
+      .finally(() => {
+        setIsStorageReady(true);
+        refreshStorageEstimate();
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    const persisted: Map<string, ChatSession> = persistedRef.current;
+    const unsaved: Set<string> = unsavedIdsRef.current;
+    const loadedIds: Set<string> = loadedIdsRef.current;
+    const writes: SessionWrite[] = sessions
+      .filter(s => unsaved.has(s.id) || persisted.get(s.id) !== s)
+      .map(s => {
+        const prev = unsaved.has(s.id) ? undefined : persisted.get(s.id);
+        const loaded = loadedIds.has(s.id);
+        return {
+          session: s,
+          writeMessages: loaded && prev?.messages !== s.messages,
+          writeSources: loaded && prev?.sources !== s.sources,
+          writeAttachments: loaded && prev?.attachments !== s.attachments,
+        };
+      });
+    const currentIds = new Set(sessions.map(s => s.id));
+    const deletedIds = Array.from(new Set([...persisted.keys(), ...unsaved])).filter(id => !currentIds.has(id));
+    if (writes.length === 0 && deletedIds.length === 0) return;
+
+    const writtenIds = [...writes.map(w => w.session.id), ...deletedIds];
+    persistedRef.current = new Map(sessions.map(s => [s.id, s]));
+    writeSessions(writes, deletedIds)
+      .then(() => {
+        writtenIds.forEach(id => unsavedIdsRef.current.delete(id));
+        setStorageError(null);
+      })
+      .catch(err => {
+        console.error("Saving sessions failed", err);
+        writtenIds.forEach(id => unsavedIdsRef.current.add(id));
+        setStorageError(describeStorageError(err));
+      })
+      .finally(refreshStorageEstimate);
+  }, [sessions, isStorageReady]);
+
+  useEffect(() => {
+    if (!isStorageReady) return;
+    const persisted: Map<string, CaseFolder> = persistedCasesRef.current;
+    const unsaved: Set<string> = unsavedCaseIdsRef.current;
+    const writes = cases.filter(c => unsaved.has(c.id) || persisted.get(c.id) !== c);
+    const currentIds = new Set(cases.map(c => c.id));
+    const deletedIds = Array.from(new Set([...persisted.keys(), ...unsaved])).filter(id => !currentIds.has(id));
+    if (writes.length === 0 && deletedIds.length === 0) return;
+
+    const writtenIds = [...writes.map(c => c.id), ...deletedIds];
+    persistedCasesRef.current = new Map(cases.map(c => [c.id, c]));
+    writeCases(writes, deletedIds)
+      .then(() => writtenIds.forEach(id => unsavedCaseIdsRef.current.delete(id)))
+      .catch(err => {
+        console.error("Saving cases failed", err);
+        writtenIds.forEach(id => unsavedCaseIdsRef.current.add(id));
+        setStorageError(describeStorageError(err));
+      });
+  }, [cases, isStorageReady]);
+
+  // 開啟 session 或案件時才從儲存區載入訊息與原始檔
+  useEffect(() => {
+    const wanted = activeCase ? activeCase.sessionIds : activeSessionId ? [activeSessionId] : [];
+    wanted.filter(id => !loadedSessionIds.has(id) && !loadingIdsRef.current.has(id)).forEach(id => {
+      loadingIdsRef.current.add(id);
+      loadSessionData(id)
+        .then(async data => {
+          // 舊版資料在開啟時遷移，遷移結果隨後寫回儲存區；分析須在訊息 ID 遷移前補齊
+          const current = sessionsRef.current.find(s => s.id === id);
+          const merged = current && { ...current, ...data };
+          const analysis = merged?.analysis && migrateAnalysis(merged.analysis, merged.messages);
+          const upgraded = merged && analysis !== merged.analysis
+            ? await appendCustodyEntry({ ...merged, analysis }, 'edit', `分析結果更新至第 ${ANALYSIS_SCHEMA_VERSION} 版：補上原文驗證與事件日期`)
+            : merged;
+          const { session: migrated, idMap } = upgraded && needsMigration(upgraded)
+            ? await migrateSession(upgraded)
+            : { session: upgraded !== merged ? upgraded : null, idMap: new Map<string, string>() };
+          setSessions(prev => prev.map(s => {
+            if (s.id !== id) return s;
+            const loaded = { ...s, ...data };
+            persistedRef.current.set(id, loaded);
+            return migrated ?? loaded;
+          }));
+          if (idMap.size > 0) setCases(prev => prev.map(c => c.sessionIds.includes(id) ? remapCaseMessageIds(c, id, idMap) : c));
+          setLoadedSessionIds(prev => new Set(prev).add(id));
+        })
+        .catch(err => setStorageError(describeStorageError(err)))
+        .finally(() => loadingIdsRef.current.delete(id));
+    });
+  }, [activeSessionId, activeCase, loadedSessionIds]);
 
-  const isOnline = useMemo(() => !!process.env.API_KEY, []);
+  useEffect(() => {
+    setSelectedMessageIds(new Set());
+    setEditingEventId(null);
+    setEditingNoteId(null);
+  }, [activeSessionId]);
+
+  const markLoaded = (id: string) => {
+    loadedIdsRef.current = new Set(loadedIdsRef.current).add(id);
+    setLoadedSessionIds(loadedIdsRef.current);
+  };
 
   const saveSessions = (updated: ChatSession[]) => {
     setSessions(updated);
-    localStorage.setItem('line_intel_pro_sessions', JSON.stringify(updated));
   };
 
+  // 非同步流程中以最新狀態更新單一 session，避免覆蓋期間的其他變更
+  const updateSession = (id: string, update: (s: ChatSession) => ChatSession) => {
+    setSessions(prev => prev.map(s => s.id === id ? update(s) : s));
+  };
+
+  // 對話以虛擬清單呈現，目標不一定在 DOM 中，須先由清單捲動並渲染
   const jumpToDate = (date: string) => {
-    const element = document.getElementById(`date-${date}`);
-    if (element) {
-      element.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    chatListRef.current?.scrollToKey(`date-${date}`, 'start');
+  };
+
+  // 被搜尋或篩選隱藏的訊息不在清單中，清除條件後待清單重新渲染再跳轉
+  const pendingJumpRef = useRef<string | null>(null);
+
+  const jumpToMessage = async (id: string) => {
+    if (!filteredMessages.some(m => m.id === id) && messagesById.has(id)) {
+      if (!confirm('此訊息目前被搜尋或篩選條件隱藏，要清除條件並跳至該訊息嗎？')) return;
+      pendingJumpRef.current = id;
+      setSearchTerm('');
+      setFilterTag(null);
+      setFilterRole(null);
+      setFilterKind(null);
+      return;
     }
+    if (!(await chatListRef.current?.scrollToKey(id, 'center'))) return;
+    const el = document.getElementById(id);
+    el?.classList.add('ring-2', 'ring-emerald-400', 'ring-offset-4');
+    setTimeout(() => el?.classList.remove('ring-2', 'ring-emerald-400', 'ring-offset-4'), 2000);
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement> | React.DragEvent) => {
-    let file: File | null = null;
-    const target = e.target as HTMLInputElement;
-    if (target && target.files && target.files.length > 0) {
-      file = target.files[0];
-    } else if ('dataTransfer' in e) {
-      file = (e as React.DragEvent).dataTransfer.files[0];
+  useEffect(() => {
+    const id = pendingJumpRef.current;
+    if (!id || !filteredMessages.some(m => m.id === id)) return;
+    pendingJumpRef.current = null;
+    jumpToMessage(id);
+  }, [filteredMessages]);
+
+  const stepMatch = (delta: 1 | -1) => {
+    if (filteredMessages.length === 0) return;
+    const next = matchCursor === -1 && delta === -1
+      ? filteredMessages.length - 1
+      : (matchCursor + delta + filteredMessages.length) % filteredMessages.length;
+    setMatchCursor(next);
+    jumpToMessage(filteredMessages[next].id);
+  };
+
+  const saveCurrentSearch = () => {
+    const query = searchTerm.trim();
+    if (!query) return;
+    if (parsedQuery.error) {
+      alert(`查詢語法有誤，無法儲存：${parsedQuery.error}`);
+      return;
+    }
+    const name = prompt('為這個搜尋命名：', query);
+    if (!name?.trim()) return;
+    const next = [...savedSearches, { id: `search-${Date.now().toString(36)}`, name: name.trim(), query, createdAt: new Date().toISOString() }];
+    setSavedSearches(next);
+    saveSavedSearches(next);
+  };
+
+  const deleteSavedSearch = (search: SavedSearch) => {
+    if (!confirm(`確定刪除已儲存的搜尋「${search.name}」？`)) return;
+    const next = savedSearches.filter(s => s.id !== search.id);
+    setSavedSearches(next);
+    saveSavedSearches(next);
+  };
+
+  // 解析、分類與雜湊在 Worker 中進行，期間顯示進度
+  const processUpload = async (file: File, sourceIndex: number, timeZone: string): Promise<ProcessedExport | null> => {
+    setImportProgress({ fileName: file.name, progress: { stage: 'source', done: 0, total: 0 } });
+    try {
+      return await processExportInWorker(
+        { fileName: file.name, buffer: await file.arrayBuffer(), sourceIndex, rules: tagRules, timeZone },
+        progress => setImportProgress({ fileName: file.name, progress })
+      );
+    } catch (err) {
+      console.error("Import failed", err);
+      alert(`匯入「${file.name}」失敗：${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    } finally {
+      setImportProgress(null);
     }
+  };
 
-    if (!file) return;
+  // 單一封存的完整性驗證、資料遷移與保管紀錄；取消或略過時回傳 null
+  const importArchiveEntry = async (label: string, session: ChatSession, knownIds: Set<string>, problems: string[]): Promise<ChatSession | null> => {
+    const report = await verifyArchive(session, { sealed: true });
+    const errorCount = report.issues.filter(i => i.severity === 'error').length;
+    if (!report.ok && !confirm(`「${label}」完整性驗證發現 ${errorCount} 項異常，內容可能遭竄改。仍要匯入嗎？`)) {
+      setArchiveReport({ title: label, report });
+      problems.push(`「${label}」完整性驗證未通過，未匯入`);
+      return null;
+    }
+    if (knownIds.has(session.id) && !confirm(`已有相同的紀錄「${session.fileName}」，要以「${label}」的內容取代嗎？`)) {
+      problems.push(`「${label}」與既有紀錄重複，已略過`);
+      return null;
+    }
 
-    if (file.name.endsWith('.json')) {
-      const text = await file.text();
+    if (session.analysis) session.analysis = migrateAnalysis(session.analysis, session.messages);
+    const logged = await appendCustodyEntry(
+      session,
+      'import',
+      `匯入 JSON 封存「${label}」（資料結構第 ${session.schemaVersion ?? 1} 版）：${report.ok ? '完整性驗證通過' : `完整性驗證發現 ${errorCount} 項異常`}`
+    );
+    const { session: migrated } = await migrateSession(logged);
+    knownIds.add(migrated.id);
+    markLoaded(migrated.id);
+    setSessions(prev => [migrated, ...prev.filter(s => s.id !== migrated.id)]);
+    if (!report.ok) setArchiveReport({ title: label, report });
+    return migrated;
+  };
+
+  // 匯入 JSON 封存檔中的每個封存；格式不符或處理失敗者記入 problems，不影響其他封存
+  const importArchiveFile = async (file: File, knownIds: Set<string>, problems: string[]): Promise<ChatSession[]> => {
+    const imported: ChatSession[] = [];
+    for (const entry of parseArchiveFile(file.name, await file.text())) {
+      if (!entry.session) {
+        problems.push(`「${entry.label}」格式不符，未匯入：\n${entry.errors.map(err => `・${err}`).join('\n')}`);
+        continue;
+      }
       try {
-        const session: ChatSession = JSON.parse(text);
-        if (session.id && session.messages) {
-          const updated = [session, ...sessions.filter(s => s.id !== session.id)];
-          saveSessions(updated);
-          setActiveSessionId(session.id);
-        }
+        const session = await importArchiveEntry(entry.label, entry.session, knownIds, problems);
+        if (session) imported.push(session);
       } catch (err) {
-        alert("無法讀取 JSON 封存，檔案格式可能不正確。");
+        console.error("Archive import failed", err);
+        problems.push(`「${entry.label}」處理失敗，未匯入：${err instanceof Error ? err.message : String(err)}`);
       }
-    } else if (file.name.endsWith('.txt')) {
-      const text = await file.text();
-      const hash = await calculateSHA256(text);
-      const lines = text.split('\n');
-      const messages: ChatMessage[] = [];
-      const participants = new Set<string>();
-      let currentDate = '';
-
-      const datePattern = /^(\d{4}\/\d{2}\/\d{2})[（(](.)[)）]$/;
-      const messagePattern = /^([上下]午\d{2}:\d{2})\s+([^\s]+)\s+(.*)$/;
-
-      lines.forEach((line, idx) => {
-        const trimmed = line.trim();
-        if (!trimmed || trimmed.startsWith('[LINE]') || trimmed.startsWith('儲存日期')) return;
-
-        const dateMatch = trimmed.match(datePattern);
-        if (dateMatch) {
-          currentDate = dateMatch[1];
-          return;
-        }
-
-        const msgMatch = trimmed.match(messagePattern);
-        if (msgMatch && currentDate) {
-          const [, time, sender, content] = msgMatch;
-          const { tags, isImportant } = classifyMessage(content);
-          messages.push({
-            id: `msg-${idx}`,
-            date: currentDate,
-            time,
-            datetime: `${currentDate} ${time}`,
-            sender,
-            content,
-            isSystem: content.includes('已新增') || content.includes('至群組') || content.includes('通話時間'),
-            isImportant,
-            tags
-          });
-          participants.add(sender);
-        }
-      });
+    }
+    return imported;
+  };
 
-      const newSession: ChatSession = {
-        id: Math.random().toString(36).substring(7),
-        fileName: file.name,
-        timestamp: Date.now(),
-        fileHash: hash,
-        fileSize: file.size,
-        messages,
-        participants: Array.from(participants),
-      };
+  const importTextExport = async (file: File, problems: string[]): Promise<ChatSession | null> => {
+    const processed = await processUpload(file, 0, DEFAULT_TIME_ZONE);
+    if (!processed) return null;
+    const { source, messages } = processed;
+
+    if (messages.length === 0) {
+      problems.push(`「${file.name}」無法辨識此 LINE 匯出格式，未解析出任何訊息。`);
+      return null;
+    }
 
-      const updated = [newSession, ...sessions];
-      saveSessions(updated);
-      setActiveSessionId(newSession.id);
+    const participants = new Set(messages.map(m => m.sender).filter(Boolean));
+
+    const newSession = await appendCustodyEntry({
+      id: Math.random().toString(36).substring(7),
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      fileName: file.name,
+      timestamp: Date.now(),
+      fileHash: source.sha256,
+      fileSize: file.size,
+      messages,
+      participants: Array.from(participants),
+      dialect: processed.dialect,
+      timeZone: DEFAULT_TIME_ZONE,
+      unparsedLines: processed.unparsedLines,
+      sources: [source],
+    }, 'import', `匯入 LINE 匯出檔「${file.name}」，解析 ${messages.length} 則訊息，${processed.unparsedLines.length} 行未解析`);
+
+    markLoaded(newSession.id);
+    setSessions(prev => [newSession, ...prev]);
+    return newSession;
+  };
+
+  // 可一次選取或拖入多個檔案，依序匯入，最後開啟最後一筆並彙整未匯入的原因
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement> | React.DragEvent) => {
+    const target = e.target as HTMLInputElement;
+    const files = (target && target.files && target.files.length > 0
+      ? Array.from(target.files)
+      : 'dataTransfer' in e ? Array.from((e as React.DragEvent).dataTransfer.files) : []) as File[];
+    if (target instanceof HTMLInputElement) target.value = '';
+
+    if (files.length === 0 || importProgress) return;
+
+    const knownIds = new Set<string>(sessionsRef.current.map(s => s.id));
+    const problems: string[] = [];
+    const imported: ChatSession[] = [];
+    for (const file of files) {
+      const name = file.name.toLowerCase();
+      if (name.endsWith('.json')) {
+        imported.push(...await importArchiveFile(file, knownIds, problems));
+      } else if (name.endsWith('.txt')) {
+        const session = await importTextExport(file, problems);
+        if (session) imported.push(session);
+      } else {
+        problems.push(`「${file.name}」不是 .txt 或 .json 檔，已略過`);
+      }
+    }
+
+    if (imported.length > 0) openSession(imported[imported.length - 1].id);
+    if (problems.length > 0) {
+      alert(`${files.length > 1 || imported.length > 0 ? `已匯入 ${imported.length} 筆紀錄。\n\n` : ''}${problems.join('\n\n')}`);
+    }
+  };
+
+  // 同一聊天室的新匯出併入目前 session：重複部分略過，只附加新訊息並記錄前後版本的差異
+  const handleMergeUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !activeSessionId || !isActiveLoaded || importProgress) return;
+    const session = sessionsRef.current.find(s => s.id === activeSessionId);
+    if (!session) return;
+
+    const sources = session.sources || [];
+    if (sources.length === 0) {
+      alert("此紀錄未保留原始匯出檔（可能為舊版封存），無法與新匯出比對合併。");
+      return;
+    }
+    const processed = await processUpload(file, sources.length, session.timeZone ?? DEFAULT_TIME_ZONE);
+    if (!processed) return;
+    const { source } = processed;
+    if (sources.some(s => s.sha256 === source.sha256)) {
+      alert(`「${file.name}」與已併入的匯出檔內容相同，無需再次合併。`);
+      return;
+    }
+    if (processed.messages.length === 0) {
+      alert("無法辨識此 LINE 匯出格式，未解析出任何訊息。");
+      return;
+    }
+
+    let result: MergeResult;
+    try {
+      result = mergeExport(session.messages, processed.messages, file.name);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    const logged = await appendCustodyEntry({
+      ...session,
+      messages: result.messages,
+      participants: Array.from(new Set([...session.participants, ...result.added.map(m => m.sender).filter(Boolean)])),
+      unparsedLines: [
+        ...(session.unparsedLines || []),
+        ...processed.unparsedLines.map(l => ({ ...l, reason: `「${file.name}」：${l.reason}` })),
+      ],
+      sources: [...sources, source],
+      exportDiffs: [...(session.exportDiffs || []), ...result.diffs],
+    }, 'import', `合併 LINE 匯出檔「${file.name}」：新增 ${result.added.length} 則、重複略過 ${result.duplicates} 則、與先前匯出不一致 ${result.diffs.length} 則`);
+    updateSession(session.id, () => logged);
+
+    if (result.diffs.length > 0) {
+      alert(`已合併「${file.name}」，其中 ${result.diffs.length} 則先前的訊息在新匯出中已收回、內容不同或不存在，已於對話中標示。`);
     }
   };
 
-  const analyzeWithGemini = async () => {
-    if (!activeSession || isAnalyzing || !isOnline) return;
+  // 匯入另行保存的照片、語音與文件（可為多個檔案、ZIP 或整個資料夾），並自動對應佔位訊息
+  const handleAttachmentUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (files.length === 0 || !activeSessionId || !isActiveLoaded) return;
+    const session = sessionsRef.current.find(s => s.id === activeSessionId);
+    if (!session) return;
+
+    const inputs: AttachmentInput[] = [];
+    try {
+      for (const file of files) {
+        if (file.name.startsWith('.')) continue;
+        const buffer = await file.arrayBuffer();
+        if (file.name.toLowerCase().endsWith('.zip')) inputs.push(...await readZipEntries(buffer));
+        else inputs.push({ fileName: file.name, buffer, lastModified: file.lastModified });
+      }
+    } catch (err) {
+      alert(`無法讀取附件：${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    const candidates: Attachment[] = [];
+    for (const input of inputs) {
+      candidates.push(await createAttachment(input, session.timeZone ?? DEFAULT_TIME_ZONE));
+    }
+
+    // 讀檔與雜湊期間 session 可能已被編輯，以最新狀態去重與對應，如同 applyEdit
+    const latest = sessionsRef.current.find(s => s.id === session.id);
+    if (!latest) return;
+    const existing = latest.attachments || [];
+    const known = new Set(existing.map(a => a.sha256));
+    const created = candidates.filter(a => {
+      if (known.has(a.sha256)) return false;
+      known.add(a.sha256);
+      return true;
+    });
+    if (created.length === 0) {
+      alert("所選檔案皆已匯入過。");
+      return;
+    }
+
+    const createdIds = new Set(created.map(a => a.id));
+    const attachments = matchAttachments([...existing, ...created], latest.messages, latest.timeZone ?? DEFAULT_TIME_ZONE);
+    const linked = attachments.filter(a => createdIds.has(a.id) && a.messageId).length;
+    const logged = await appendCustodyEntry(
+      { ...latest, attachments },
+      'import',
+      `匯入附件 ${created.length} 個（自動對應 ${linked} 個、未對應 ${created.length - linked} 個）：${created.map(a => a.fileName).join('、')}`
+    );
+    updateSession(latest.id, () => logged);
+    if (linked < created.length) {
+      alert(`已匯入 ${created.length} 個附件，其中 ${created.length - linked} 個無法依檔名或時間對應，可於對話中的佔位訊息手動連結。`);
+    }
+  };
+
+  const setMessageAttachment = async (messageId: string, attachmentId: string | null) => {
+    const target = attachmentId || attachmentsByMessage.get(messageId)?.id;
+    const attachment = activeSession?.attachments?.find(a => a.id === target);
+    if (!target || !attachment) return;
+    await applyEdit(
+      s => ({ ...s, attachments: linkAttachment(s.attachments || [], target, attachmentId ? messageId : null) }),
+      attachmentId ? `將附件「${attachment.fileName}」連結至訊息 ${messageId}` : `解除附件「${attachment.fileName}」與訊息 ${messageId} 的連結`
+    );
+  };
+
+  // 已有完成段落的 job 沿用原本的遮蔽設定接續；新的分析先預覽送出內容
+  const startAnalysis = () => {
+    if (!activeSession || !isActiveLoaded || isAnalyzing || !isAiReady) return;
+    const job = activeSession.analysisJob;
+    if (job && canResumeJob(job, activeSession.messages) && job.chunks.some(c => c.status === 'done')) {
+      runAnalysis(job);
+    } else {
+      setRedactionTarget('session');
+    }
+  };
+
+  const confirmRedaction = (redaction: RedactionEntry[] | undefined) => {
+    const target = redactionTarget;
+    setRedactionTarget(null);
+    if (target === 'case') runCaseAnalysis(createAnalysisJob(caseMessages, redaction));
+    else if (activeSession) {
+      const redactionSettings = {
+        enabled: Boolean(redaction),
+        customTerms: (redaction || []).filter(e => e.kind === 'custom').map(e => e.original),
+      };
+      updateSession(activeSession.id, s => ({ ...s, redactionSettings }));
+      runAnalysis(createAnalysisJob(activeSession.messages, redaction));
+    }
+  };
+
+  const runAnalysis = async (job: AnalysisJob) => {
+    if (!activeSession || !isActiveLoaded || isAnalyzing || !isAiReady) return;
+    const sessionId = activeSession.id;
+    const messages = activeSession.messages;
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-      const sampleLimit = 400; 
-      const sampledMessages = activeSession.messages.length > sampleLimit
-        ? activeSession.messages.slice(0, sampleLimit / 2).concat(activeSession.messages.slice(-sampleLimit / 2))
-        : activeSession.messages;
-
-      const chatContext = sampledMessages.map(m => `[ID: ${m.id}][${m.datetime}] ${m.sender}: ${m.content}`).join('\n');
-
-      const response: GenerateContentResponse = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: `你是一位資深的居家長照證據保全分析專家。請分析以下 LINE 對話紀錄。
-        你的任務是將對話整理成「獨立事件 (Events/Cases)」，一個事件可能跨越數天。
-        
-        對每個事件，請提供：
-        1. 事件標題 (Title)
-        2. 事件摘要 (Summary)
-        3. 風險評估 (Risk Level: 低/中/高)
-        4. 風險具體說明 (Risk Assessment)
-        5. 備註 (Remarks) - 長照留證據所需的專業註解
-        6. 日期範圍 (Date Range)
-        7. 相關對話段 ID (Related Message IDs) - 必須是 context 中標註的 ID
-        8. 家屬說過的話 (Family Excerpts) - 摘錄家屬或案主具備關鍵性、代表性的原文摘要。
-        9. 單位說過的話 (Staff Excerpts) - 摘錄機構同仁、督導或主任的回應或承諾原文摘要。
-        
-        對話紀錄：
-        ${chatContext}`,
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              summary: { type: Type.STRING },
-              sentiment: { type: Type.STRING },
-              topics: { type: Type.ARRAY, items: { type: Type.STRING } },
-              relationshipDynamic: { type: Type.STRING },
-              events: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    id: { type: Type.STRING },
-                    title: { type: Type.STRING },
-                    summary: { type: Type.STRING },
-                    riskLevel: { type: Type.STRING, enum: ['低', '中', '高'] },
-                    riskAssessment: { type: Type.STRING },
-                    remarks: { type: Type.STRING },
-                    dateRange: { type: Type.STRING },
-                    relatedMessageIds: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    familyExcerpts: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    staffExcerpts: { type: Type.ARRAY, items: { type: Type.STRING } }
-                  },
-                  required: ["title", "summary", "riskLevel", "riskAssessment", "remarks", "dateRange", "relatedMessageIds", "familyExcerpts", "staffExcerpts"]
-                }
-              },
-              statistics: {
-                type: Type.OBJECT,
-                properties: {
-                  paymentCount: { type: Type.NUMBER },
-                  serviceCount: { type: Type.NUMBER },
-                  scheduleCount: { type: Type.NUMBER },
-                  issueCount: { type: Type.NUMBER }
-                }
-              }
-            },
-            required: ["summary", "sentiment", "events", "statistics"]
-          }
-        }
+      const provider = createAiProvider(aiSettings);
+      const analysis = await runAnalysisJob(provider, messages, job, {
+        signal: controller.signal,
+        onProgress: (progress) => updateSession(sessionId, s => ({ ...s, analysisJob: progress })),
+        participants: participantProfiles,
       });
-
-      const analysis = JSON.parse(response.text || '{}') as AnalysisResult;
-      const updatedSessions = sessions.map(s => 
-        s.id === activeSession.id ? { ...s, analysis } : s
-      );
-      saveSessions(updatedSessions);
+      const verified = verifyAnalysis(analysis, messages);
+      const latest = sessionsRef.current.find(s => s.id === sessionId);
+      if (latest) {
+        const humanEvents = latest.analysis?.events.filter(isHumanEvent) || [];
+        const logged = await appendCustodyEntry(
+          { ...latest, analysis: { ...verified, events: [...verified.events, ...humanEvents] }, analysisJob: undefined },
+          'analysis',
+          `AI 分析完成（${provider.label}，${job.chunks.length} 段，${verified.events.length} 個事件，${job.redaction ? `送出前遮蔽 ${job.redaction.length} 項個資` : '未遮蔽個資'}）`
+        );
+        updateSession(sessionId, () => logged);
+      }
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error("AI Analysis failed", error);
-      alert("AI 分析失敗。請確認 API 金鑰是否有效。");
+      alert(`AI 分析失敗：${error instanceof Error ? error.message : String(error)}\n已完成的段落已保留，可稍後接續分析。請確認 AI 服務設定是否正確。`);
+    } finally {
+      analysisAbortRef.current = null;
+      setIsAnalyzing(false);
+    }
+  };
+
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  const askQuestion = async (question: string) => {
+    if (!activeSession || !isActiveLoaded || !isAiReady) return;
+    const sessionId = activeSession.id;
+    setIsAsking(true);
+    try {
+      const provider = createAiProvider(aiSettings);
+      // 沿用送出前預覽的遮蔽設定；尚未預覽過且要送往外部服務時先徵得同意
+      const settings = activeSession.redactionSettings;
+      if (!settings && provider.isRemote && !confirm(
+        `此對話尚未在「送出前預覽」設定遮蔽方式。\n問題與檢索到的相關訊息將遮蔽姓名、電話等個資後傳送至 ${provider.label}，確定送出？`
+      )) return;
+      const turn = await askArchive(provider, activeSession.messages, question, {
+        profiles: participantProfiles,
+        history: activeSession.qaHistory || [],
+        redact: settings ? settings.enabled : provider.isRemote,
+        customTerms: settings?.customTerms || [],
+        signal: AbortSignal.timeout(180000),
+      });
+      updateSession(sessionId, s => ({ ...s, qaHistory: [...(s.qaHistory || []), turn] }));
+    } catch (error) {
+      console.error("Archive question failed", error);
+      alert(`提問失敗：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  // --- Case folders ---
+
+  const updateCase = (id: string, update: (c: CaseFolder) => CaseFolder) => {
+    setCases(prev => prev.map(c => c.id === id ? update(c) : c));
+  };
+
+  const openSession = (id: string) => {
+    setActiveCaseId(null);
+    setActiveSessionId(id);
+  };
+
+  const openCase = (id: string) => {
+    setActiveSessionId(null);
+    setActiveCaseId(id);
+  };
+
+  const createCase = () => {
+    const name = prompt('案件名稱（例如案主姓名或案號）：');
+    if (!name?.trim()) return;
+    const folder = createCaseFolder(name.trim());
+    // 從對話建立時直接納入目前開啟的對話
+    if (activeSessionId && !findCaseOf(cases, activeSessionId)) folder.sessionIds.push(activeSessionId);
+    setCases(prev => [folder, ...prev]);
+    openCase(folder.id);
+  };
+
+  const deleteCase = () => {
+    if (!activeCase || !confirm(`確定要刪除案件「${activeCase.name}」嗎？案件中的對話紀錄不會被刪除。`)) return;
+    setCases(prev => prev.filter(c => c.id !== activeCase.id));
+    setActiveCaseId(null);
+  };
+
+  // 成員異動後原本的案件分析引用已不完整，保留分析但捨棄未完成的分段
+  const setCaseMembers = (sessionIds: string[]) => {
+    if (!activeCase) return;
+    updateCase(activeCase.id, c => ({ ...c, sessionIds, analysisJob: undefined }));
+  };
+
+  const startCaseAnalysis = () => {
+    if (!activeCase || !isCaseLoaded || isAnalyzing || !isAiReady) return;
+    const job = activeCase.analysisJob;
+    if (job && canResumeJob(job, caseMessages) && job.chunks.some(c => c.status === 'done')) {
+      runCaseAnalysis(job);
+    } else {
+      setRedactionTarget('case');
+    }
+  };
+
+  const runCaseAnalysis = async (job: AnalysisJob) => {
+    if (!activeCase || !isCaseLoaded || isAnalyzing || !isAiReady) return;
+    const caseId = activeCase.id;
+    const caseName = activeCase.name;
+    const memberIds = activeCase.sessionIds;
+    const messages = caseMessages;
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setIsAnalyzing(true);
+    try {
+      const provider = createAiProvider(aiSettings);
+      const analysis = await runAnalysisJob(provider, messages, job, {
+        signal: controller.signal,
+        onProgress: (progress) => updateCase(caseId, c => ({ ...c, analysisJob: progress })),
+        participants: caseProfiles,
+      });
+      const verified = verifyAnalysis(analysis, messages);
+      updateCase(caseId, c => ({ ...c, analysis: verified, analysisJob: undefined }));
+      // 案件分析引用各成員對話的訊息，於每個成員的保管紀錄留下紀錄
+      for (const id of memberIds) {
+        const latest = sessionsRef.current.find(s => s.id === id);
+        if (!latest) continue;
+        const logged = await appendCustodyEntry(
+          latest,
+          'analysis',
+          `納入案件「${caseName}」的 AI 分析（${provider.label}，${memberIds.length} 個對話，${verified.events.length} 個事件，${job.redaction ? `送出前遮蔽 ${job.redaction.length} 項個資` : '未遮蔽個資'}）`
+        );
+        updateSession(id, () => logged);
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Case analysis failed", error);
+      alert(`案件分析失敗：${error instanceof Error ? error.message : String(error)}\n已完成的段落已保留，可稍後接續分析。`);
     } finally {
+      analysisAbortRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
-  const exportArchive = () => {
-    if (!activeSession) return;
-    const blob = new Blob([JSON.stringify(activeSession, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `Evidence_Archive_${activeSession.fileName.replace('.txt', '')}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const exportCaseReport = async (format: 'html' | 'pdf') => {
+    if (!activeCase || !isCaseLoaded) return;
+    const members: ChatSession[] = [];
+    for (const member of caseMembers) {
+      const logged = await appendCustodyEntry(member, 'export', `匯出案件「${activeCase.name}」${format === 'pdf' ? '列印 / PDF' : ' HTML'} 報告`);
+      updateSession(member.id, () => logged);
+      members.push(logged);
+    }
+    const html = buildCaseReportHtml(activeCase, members, caseMessages, caseProfiles);
+    if (format === 'pdf') {
+      printReport(html);
+    } else {
+      downloadBlob(new Blob([html], { type: 'text/html' }), `Case_Report_${activeCase.name}.html`);
+    }
+  };
+
+  // --- Analyst editing ---
+
+  const applyEdit = async (mutate: (s: ChatSession) => ChatSession, detail: string) => {
+    if (!activeSessionId) return;
+    const latest = sessionsRef.current.find(s => s.id === activeSessionId);
+    if (!latest) return;
+    const edited = mutate(latest);
+    // 修改日期範圍或相關訊息後重新換算時間軸用的起訖日期
+    const normalized = edited.analysis ? { ...edited, analysis: withEventDates(edited.analysis, edited.messages) } : edited;
+    const logged = await appendCustodyEntry(normalized, 'edit', detail);
+    updateSession(latest.id, () => logged);
+  };
+
+  // 時間戳依來源時區換算，更正時區後重新換算；原始日期與時間字串不變
+  const changeTimeZone = (timeZone: string) => {
+    if (!activeSession || timeZone === activeSession.timeZone) return;
+    applyEdit(
+      s => ({ ...s, timeZone, messages: withTimeZone(s.messages, timeZone) }),
+      `來源時區由 ${activeSession.timeZone ?? '未設定'} 改為 ${timeZone}，重新換算 ${activeSession.messages.length} 則訊息的時間戳`
+    );
+  };
+
+  const startEditingEvent = (eventId: string) => {
+    const event = activeSession?.analysis?.events.find(e => e.id === eventId);
+    if (!event) return;
+    setEditingEventId(eventId);
+    setEventDraft({
+      title: event.title,
+      summary: event.summary,
+      riskLevel: event.riskLevel,
+      remarks: event.remarks,
+      dateRange: event.dateRange,
+    });
+  };
+
+  const saveEventDraft = async () => {
+    const analysis = activeSession?.analysis;
+    if (!analysis || !editingEventId) return;
+    const { analysis: updated, changed } = updateEvent(analysis, editingEventId, eventDraft);
+    setEditingEventId(null);
+    if (changed.length === 0) return;
+    const title = updated.events.find(e => e.id === editingEventId)?.title;
+    await applyEdit(
+      s => ({ ...s, analysis: updated }),
+      `人工修改事件「${title}」：${changed.map(f => EDITABLE_FIELD_LABELS[f]).join('、')}`
+    );
+  };
+
+  const removeLinkedMessage = async (eventId: string, messageId: string) => {
+    const analysis = activeSession?.analysis;
+    if (!analysis) return;
+    const { analysis: updated, changed } = unlinkMessage(analysis, eventId, messageId);
+    if (changed.length === 0) return;
+    const title = updated.events.find(e => e.id === eventId)?.title;
+    await applyEdit(s => ({ ...s, analysis: updated }), `自事件「${title}」移除相關訊息 ${messageId}`);
+  };
+
+  const linkSelectionToEvent = async (eventId: string) => {
+    const analysis = activeSession?.analysis;
+    if (!analysis || selectedMessageIds.size === 0) return;
+    const ids: string[] = Array.from(selectedMessageIds);
+    const { analysis: updated, changed } = linkMessages(analysis, eventId, ids);
+    setSelectedMessageIds(new Set());
+    if (changed.length === 0) return;
+    const title = updated.events.find(e => e.id === eventId)?.title;
+    await applyEdit(s => ({ ...s, analysis: updated }), `將 ${ids.length} 則訊息加入事件「${title}」`);
+  };
+
+  const createEventFromSelection = async () => {
+    if (!activeSession || selectedMessageIds.size === 0) return;
+    const title = prompt('新事件標題：');
+    if (!title?.trim()) return;
+    const selected = activeSession.messages.filter(m => selectedMessageIds.has(m.id));
+    setSelectedMessageIds(new Set());
+    setRightPanel('analysis');
+    await applyEdit(
+      s => ({ ...s, analysis: createManualEvent(s.analysis, selected, title.trim()) }),
+      `以 ${selected.length} 則訊息建立人工事件「${title.trim()}」`
+    );
+  };
+
+  const removeEvent = async (eventId: string) => {
+    const event = activeSession?.analysis?.events.find(e => e.id === eventId);
+    if (!event || !confirm(`確定要刪除事件「${event.title}」嗎？`)) return;
+    await applyEdit(s => ({ ...s, analysis: s.analysis && deleteEvent(s.analysis, eventId) }), `刪除人工事件「${event.title}」`);
+  };
+
+  const changeCommitmentStatus = async (commitment: Commitment, status: CommitmentStatus | 'auto') => {
+    const analysis = activeSession?.analysis;
+    if (!analysis) return;
+    if (status === 'auto') {
+      if (commitment.statusOrigin !== 'human') return;
+      const reset = (analysis.commitments || []).map(c => c.id === commitment.id ? { ...c, statusOrigin: 'ai' as const } : c);
+      await applyEdit(
+        s => ({ ...s, analysis: s.analysis && { ...s.analysis, commitments: trackCommitments(reset, s.messages) } }),
+        `承諾「${commitment.description}」改回自動判定`
+      );
+      return;
+    }
+    const note = prompt(`判定為「${COMMITMENT_STATUS_LABELS[status]}」的理由：`, commitment.statusOrigin === 'human' ? commitment.statusNote : '');
+    if (note === null) return;
+    await applyEdit(
+      s => ({ ...s, analysis: s.analysis && setCommitmentStatus(s.analysis, commitment.id, status, note.trim()) }),
+      `人工判定承諾「${commitment.description}」為${COMMITMENT_STATUS_LABELS[status]}${note.trim() ? `：${note.trim()}` : ''}`
+    );
+  };
+
+  const togglePin = async (messageIds: string[], pinned: boolean) => {
+    if (messageIds.length === 0) return;
+    setSelectedMessageIds(new Set());
+    await applyEdit(
+      s => ({ ...s, annotations: messageIds.reduce((acc, id) => setAnnotation(acc, id, { pinned }), s.annotations) }),
+      `${pinned ? '釘選' : '取消釘選'} ${messageIds.length} 則訊息為證據：${messageIds.join('、')}`
+    );
+  };
+
+  const saveNote = async (messageId: string) => {
+    const note = noteDraft.trim();
+    setEditingNoteId(null);
+    if (note === (activeSession?.annotations?.[messageId]?.note || '')) return;
+    await applyEdit(
+      s => ({ ...s, annotations: setAnnotation(s.annotations, messageId, { note }) }),
+      `${note ? '更新' : '刪除'}訊息 ${messageId} 的人工註記`
+    );
+  };
+
+  const saveTagRuleSet = async (rules: TagRule[], reclassify: boolean) => {
+    setTagRules(rules);
+    saveTagRules(rules);
+    setShowTagEditor(false);
+    if (filterTag && !rules.some(r => r.id === filterTag && r.enabled)) setFilterTag(null);
+    if (!reclassify || !isActiveLoaded) return;
+    const enabled = rules.filter(r => r.enabled).map(r => r.label);
+    await applyEdit(
+      s => ({ ...s, messages: reclassifyMessages(s.messages, rules) }),
+      `以自訂標籤規則重新分類訊息（${enabled.join('、') || '無啟用規則'}）`
+    );
+  };
+
+  const saveParticipantProfiles = async (profiles: ParticipantProfile[], changes: string[]) => {
+    setShowParticipants(false);
+    await applyEdit(
+      s => ({ ...s, participantProfiles: profiles }),
+      `更新參與者角色：${changes.join('；')}`
+    );
+  };
+
+  const toggleSelected = (messageId: string) => {
+    setSelectedMessageIds(prev => {
+      const next = new Set(prev);
+      if (next.has(messageId)) next.delete(messageId);
+      else next.add(messageId);
+      return next;
+    });
+  };
+
+  const exportArchive = async () => {
+    if (!activeSession || !isActiveLoaded) return;
+    const sealed = await sealArchive(activeSession, `匯出 JSON 證據封存（${activeSession.messages.length} 則訊息）`);
+    updateSession(sealed.id, () => sealed);
+    const blob = new Blob([JSON.stringify(sealed, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `Evidence_Archive_${activeSession.fileName.replace('.txt', '')}.json`);
+  };
+
+  const exportReport = async (format: 'html' | 'pdf') => {
+    if (!activeSession || !isActiveLoaded) return;
+    setShowReportMenu(false);
+    const logged = await appendCustodyEntry(activeSession, 'export', `匯出${format === 'pdf' ? '列印 / PDF' : ' HTML'} 報告`);
+    updateSession(logged.id, () => logged);
+    const html = buildReportHtml(logged);
+    if (format === 'pdf') {
+      printReport(html);
+    } else {
+      downloadBlob(new Blob([html], { type: 'text/html' }), `Evidence_Report_${activeSession.fileName.replace('.txt', '')}.html`);
+    }
+  };
+
+  const exportLedgerCsv = async (entries: LedgerEntry[]) => {
+    if (!activeSession || !isActiveLoaded) return;
+    const logged = await appendCustodyEntry(activeSession, 'export', `匯出費用帳目 CSV（${entries.length} 筆）`);
+    updateSession(logged.id, () => logged);
+    const csv = ledgerToCsv(entries, PARTICIPANT_ROLE_LABELS);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `Payment_Ledger_${activeSession.fileName.replace('.txt', '')}.csv`);
+  };
+
+  const exportScheduleIcs = async (items: ScheduleItem[]) => {
+    if (!activeSession || !isActiveLoaded) return;
+    const logged = await appendCustodyEntry(activeSession, 'export', `匯出服務排程行事曆（${items.length} 筆）`);
+    updateSession(logged.id, () => logged);
+    const name = activeSession.fileName.replace('.txt', '');
+    downloadBlob(new Blob([scheduleToIcs(items, `${name} 服務排程`, activeSession.timeZone ?? DEFAULT_TIME_ZONE)], { type: 'text/calendar' }), `Service_Schedule_${name}.ics`);
+  };
+
+  const verifyActiveArchive = async () => {
+    if (!activeSession || !isActiveLoaded) return;
+    setArchiveReport({ title: activeSession.fileName, report: await verifyArchive(activeSession) });
   };
 
   const deleteSession = (id: string, e: React.MouseEvent) => {
@@ -369,9 +1155,42 @@ const App = () => {
     if (!confirm('確定要刪除此封存紀錄嗎？')) return;
     const updated = sessions.filter(s => s.id !== id);
     saveSessions(updated);
+    setCases(prev => pruneCaseMembers(prev, new Set(updated.map(s => s.id))));
     if (activeSessionId === id) setActiveSessionId(null);
   };
 
+  const renderExcerpts = (excerpts: GroupedExcerpt[], textColor: string) => (
+    <ul className="space-y-1">
+      {excerpts.map(({ text: txt, verification: v, regrouped }, idx) => {
+        const speaker = v?.messageId ? messagesById.get(v.messageId)?.sender : undefined;
+        return (
+          <li key={idx} className="flex items-start gap-2">
+            <span className={`flex-1 text-[11px] font-medium italic ${v?.match === 'unverified' ? 'text-red-700 line-through decoration-red-300' : textColor}`}>
+              「{txt}」
+              {regrouped && <span className="not-italic ml-1 text-[9px] font-black text-slate-400">（依發言者角色調整分組）</span>}
+            </span>
+            {v && (
+              v.messageId ? (
+                <button
+                  onClick={() => jumpToMessage(v.messageId!)}
+                  title={`相似度 ${Math.round(v.score * 100)}%${speaker !== undefined ? `・發言者：${participantIndex.get(speaker)?.name ?? speaker}` : ''}`}
+                  className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[9px] font-black border whitespace-nowrap hover:opacity-80 transition-all ${EXCERPT_MATCH_CONFIG[v.match].color}`}
+                >
+                  <ExternalLink className="w-2.5 h-2.5" />
+                  {EXCERPT_MATCH_CONFIG[v.match].label}
+                </button>
+              ) : (
+                <span className={`px-1.5 py-0.5 rounded text-[9px] font-black border whitespace-nowrap ${EXCERPT_MATCH_CONFIG[v.match].color}`}>
+                  {EXCERPT_MATCH_CONFIG[v.match].label}
+                </span>
+              )
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
   const getRiskColor = (level: string) => {
     switch (level) {
       case '高': return 'text-red-600 bg-red-50 border-red-100';
@@ -396,12 +1215,45 @@ const App = () => {
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
+          <div className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 px-2">
+            <Briefcase className="w-3 h-3" />
+            <span>案件</span>
+            <button onClick={createCase} title="新增案件" className="ml-auto p-1 rounded-lg hover:bg-slate-100 hover:text-slate-700 transition-all">
+              <FolderPlus className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          {cases.length > 0 && (
+            <div className="space-y-2 mb-6">
+              {cases.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => openCase(c.id)}
+                  className={`w-full text-left px-4 py-3 rounded-2xl transition-all border ${
+                    activeCaseId === c.id
+                      ? 'bg-slate-900 border-slate-900 text-white shadow-xl'
+                      : 'bg-white border-slate-100 hover:border-slate-300 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  <span className="block text-sm font-bold truncate">{c.name}</span>
+                  <span className="flex items-center gap-2 text-[10px] opacity-60">
+                    {c.sessionIds.length} 個對話
+                    {c.analysis && <ShieldCheck className="w-3 h-3 text-emerald-400" />}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-widest mb-4 px-2">
             <History className="w-3 h-3" />
             <span>歷史記錄</span>
           </div>
 
-          {sessions.length === 0 ? (
+          {!isStorageReady ? (
+            <div className="flex justify-center py-12">
+              <div className="w-5 h-5 border-2 border-slate-200 border-t-emerald-500 rounded-full animate-spin" />
+            </div>
+          ) : sessions.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12 px-6 text-center opacity-30">
               <FileText className="w-8 h-8 mb-3" />
               <p className="text-xs font-medium">尚無記錄</p>
@@ -411,7 +1263,7 @@ const App = () => {
               {sessions.map(s => (
                 <button
                   key={s.id}
-                  onClick={() => setActiveSessionId(s.id)}
+                  onClick={() => openSession(s.id)}
                   className={`w-full text-left p-4 rounded-2xl transition-all group relative border ${
                     activeSessionId === s.id 
                       ? 'bg-slate-900 border-slate-900 text-white shadow-xl' 
@@ -424,6 +1276,9 @@ const App = () => {
                       <Calendar className="w-3 h-3" />
                       <span>{new Date(s.timestamp).toLocaleDateString()}</span>
                       {s.analysis && <ShieldCheck className="w-3 h-3 text-emerald-400" />}
+                      {findCaseOf(cases, s.id) && (
+                        <span className="flex items-center gap-1 truncate"><Briefcase className="w-3 h-3" /> {findCaseOf(cases, s.id)!.name}</span>
+                      )}
                     </div>
                   </div>
                   <button 
@@ -442,17 +1297,57 @@ const App = () => {
           <label className="flex items-center justify-center gap-2 w-full py-3 px-4 bg-emerald-600 text-white rounded-xl font-bold cursor-pointer hover:bg-emerald-700 transition-all active:scale-95 shadow-md shadow-emerald-50">
             <Upload className="w-4 h-4" />
             <span>匯入 (.txt/.json)</span>
-            <input type="file" accept=".txt,.json" className="hidden" onChange={handleFileUpload} />
+            <input type="file" accept=".txt,.json" multiple className="hidden" onChange={handleFileUpload} />
           </label>
+          {storageError && (
+            <div className="mt-3 flex items-start gap-2 p-3 bg-red-50 rounded-xl border border-red-100 text-[10px] font-bold text-red-600 leading-relaxed">
+              <AlertCircle className="w-3 h-3 shrink-0 mt-px" />
+              <span>{storageError}</span>
+            </div>
+          )}
+          {storageEstimate && storageEstimate.quota > 0 && (
+            <div className="mt-3 px-1">
+              <div className="flex items-center justify-between text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-1">
+                <span className="flex items-center gap-1"><HardDrive className="w-3 h-3" /> 儲存空間</span>
+                <span>{formatBytes(storageEstimate.usage)} / {formatBytes(storageEstimate.quota)}</span>
+              </div>
+              <div className="h-1 bg-slate-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${storageEstimate.usage / storageEstimate.quota > 0.9 ? 'bg-red-500' : 'bg-emerald-500'}`}
+                  style={{ width: `${Math.min(100, Math.max(1, (storageEstimate.usage / storageEstimate.quota) * 100))}%` }}
+                />
+              </div>
+            </div>
+          )}
           <p className="mt-3 text-[9px] text-center text-slate-400 font-bold uppercase tracking-widest leading-relaxed">
-            所有數據皆在本機處理<br/>保障個資隱私安全
+            所有數據皆在本機處理<br/>AI 分析前遮蔽個資並可預覽
           </p>
         </div>
       </aside>
 
       {/* Main Panel */}
       <main className="flex-1 flex flex-col min-w-0 bg-slate-100">
-        {activeSession ? (
+        {activeCase ? (
+          <CaseView
+            folder={activeCase}
+            sessions={sessions}
+            members={caseMembers}
+            messages={caseMessages}
+            isLoaded={isCaseLoaded}
+            profiles={caseProfiles}
+            tagRules={tagRules}
+            isAnalyzing={isAnalyzing}
+            canAnalyze={isAiReady}
+            onRename={(name) => updateCase(activeCase.id, c => ({ ...c, name }))}
+            onDelete={deleteCase}
+            onAddSession={(id) => setCaseMembers([...activeCase.sessionIds, id])}
+            onRemoveSession={(id) => setCaseMembers(activeCase.sessionIds.filter(s => s !== id))}
+            onOpenSession={openSession}
+            onAnalyze={startCaseAnalysis}
+            onCancelAnalysis={cancelAnalysis}
+            onExportReport={exportCaseReport}
+          />
+        ) : activeSession ? (
           <div className="flex-1 flex flex-col h-full overflow-hidden">
             {/* Header */}
             <header className="bg-white border-b border-slate-200 px-8 py-5 flex items-center justify-between shrink-0">
@@ -461,7 +1356,7 @@ const App = () => {
                   <h2 className="text-xl font-black text-slate-900 tracking-tight truncate">
                     {activeSession.fileName.replace('.txt', '')}
                   </h2>
-                  {activeSession.analysis ? (
+                  {isAiAnalysis(activeSession.analysis) ? (
                     <span className="px-2 py-0.5 bg-emerald-50 text-emerald-600 rounded text-[10px] font-bold border border-emerald-100 whitespace-nowrap flex items-center gap-1">
                       <ShieldCheck className="w-3 h-3" /> 證據已分析
                     </span>
@@ -472,13 +1367,140 @@ const App = () => {
                   )}
                 </div>
                 <div className="flex items-center gap-4 text-xs font-bold text-slate-400">
-                  <div className="flex items-center gap-1"><Users className="w-3 h-3" /> {activeSession.participants.length} 人</div>
-                  <div className="flex items-center gap-1"><MessageSquare className="w-3 h-3" /> {activeSession.messages.length} 則</div>
+                  <button
+                    onClick={() => setShowParticipants(true)}
+                    disabled={!isActiveLoaded}
+                    title="設定參與者角色"
+                    className="flex items-center gap-1 hover:text-slate-700 transition-all disabled:hover:text-slate-400"
+                  >
+                    <Users className="w-3 h-3" /> {participantProfiles.length} 人 <UserCog className="w-3 h-3" />
+                  </button>
+                  <div className="flex items-center gap-1"><MessageSquare className="w-3 h-3" /> {isActiveLoaded ? activeSession.messages.length : activeSession.messageCount} 則</div>
                   <div className="flex items-center gap-1"><Clock className="w-3 h-3" /> {new Date(activeSession.timestamp).toLocaleDateString()}</div>
+                  {activeSession.dialect && (
+                    <div className="flex items-center gap-1"><FileText className="w-3 h-3" /> {DIALECT_LABELS[activeSession.dialect]}</div>
+                  )}
+                  <label className="flex items-center gap-1" title="匯出裝置所在的時區，用於換算訊息時間戳">
+                    <Globe className="w-3 h-3" />
+                    <select
+                      value={activeSession.timeZone ?? DEFAULT_TIME_ZONE}
+                      onChange={(e) => changeTimeZone(e.target.value)}
+                      disabled={!isActiveLoaded}
+                      className="bg-transparent outline-none cursor-pointer hover:text-slate-700"
+                    >
+                      {!TIME_ZONE_OPTIONS.some(([zone]) => zone === (activeSession.timeZone ?? DEFAULT_TIME_ZONE)) && (
+                        <option value={activeSession.timeZone ?? DEFAULT_TIME_ZONE}>{activeSession.timeZone ?? DEFAULT_TIME_ZONE}</option>
+                      )}
+                      {TIME_ZONE_OPTIONS.map(([zone, label]) => (
+                        <option key={zone} value={zone}>{label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {!!activeSession.unparsedLines?.length && (
+                    <button
+                      onClick={() => setShowUnparsed(v => !v)}
+                      className="flex items-center gap-1 px-2 py-0.5 bg-amber-50 text-amber-600 rounded border border-amber-100 hover:bg-amber-100 transition-all"
+                    >
+                      <FileWarning className="w-3 h-3" /> {activeSession.unparsedLines.length} 行未解析
+                    </button>
+                  )}
                 </div>
               </div>
 
               <div className="flex items-center gap-2">
+                {!!activeSession.exportDiffs?.length && (
+                  <button
+                    onClick={() => jumpToMessage(activeSession.exportDiffs![0].messageId)}
+                    title="先前匯出的訊息在較新匯出中已收回、內容不同或不存在"
+                    className="flex items-center gap-1.5 px-3 py-2 bg-orange-50 text-orange-600 rounded-xl border border-orange-100 text-xs font-bold hover:bg-orange-100 transition-all"
+                  >
+                    <GitCompare className="w-4 h-4" /> {activeSession.exportDiffs.length} 則前後不一致
+                  </button>
+                )}
+                <label
+                  title="併入同一聊天室較新的 LINE 匯出檔，重複訊息自動略過"
+                  className={`flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold transition-all ${isActiveLoaded ? 'cursor-pointer hover:bg-slate-200' : 'opacity-50'}`}
+                >
+                  <FilePlus2 className="w-4 h-4" />
+                  <span>合併新匯出</span>
+                  <input type="file" accept=".txt" className="hidden" disabled={!isActiveLoaded} onChange={handleMergeUpload} />
+                </label>
+                <div className={`flex items-center bg-slate-100 text-slate-600 rounded-xl text-sm font-bold transition-all ${isActiveLoaded ? '' : 'opacity-50'}`}>
+                  <label
+                    title="匯入另行保存的照片、影片、語音與文件（可多選或選擇 ZIP），依檔名與時間對應至佔位訊息"
+                    className={`flex items-center gap-2 pl-4 pr-2 py-2 rounded-l-xl ${isActiveLoaded ? 'cursor-pointer hover:bg-slate-200' : ''}`}
+                  >
+                    <Paperclip className="w-4 h-4" />
+                    <span>匯入附件{activeSession.attachments?.length ? `（${activeSession.attachments.length}）` : ''}</span>
+                    <input type="file" multiple accept=".zip,image/*,video/*,audio/*,.pdf,.doc,.docx,.xls,.xlsx" className="hidden" disabled={!isActiveLoaded} onChange={handleAttachmentUpload} />
+                  </label>
+                  <label
+                    title="選擇整個資料夾匯入附件"
+                    className={`px-2 py-2 rounded-r-xl border-l border-slate-200 ${isActiveLoaded ? 'cursor-pointer hover:bg-slate-200' : ''}`}
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    <input type="file" multiple {...{ webkitdirectory: '' }} className="hidden" disabled={!isActiveLoaded} onChange={handleAttachmentUpload} />
+                  </label>
+                </div>
+                <button
+                  onClick={() => setShowSchedule(true)}
+                  disabled={!isActiveLoaded}
+                  title="由排程訊息擷取的服務日期、暫停與換人"
+                  className="flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold hover:bg-slate-200 transition-all disabled:opacity-50"
+                >
+                  <CalendarDays className="w-4 h-4" />
+                  <span>服務排程</span>
+                </button>
+                <button
+                  onClick={() => setShowLedger(true)}
+                  disabled={!isActiveLoaded}
+                  title="由費用訊息擷取的金額、付款與爭議紀錄"
+                  className="flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold hover:bg-slate-200 transition-all disabled:opacity-50"
+                >
+                  <Banknote className="w-4 h-4" />
+                  <span>費用帳目</span>
+                </button>
+                <button
+                  onClick={() => setShowMetrics(true)}
+                  disabled={!isActiveLoaded}
+                  title="回應時間、訊息量與標籤統計"
+                  className="flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold hover:bg-slate-200 transition-all disabled:opacity-50"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                  <span>溝通統計</span>
+                </button>
+                <button 
+                  onClick={verifyActiveArchive}
+                  className="flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold hover:bg-slate-200 transition-all"
+                >
+                  <FileCheck className="w-4 h-4" />
+                  <span>驗證封存</span>
+                </button>
+                <div className="relative">
+                  <button 
+                    onClick={() => setShowReportMenu(v => !v)}
+                    className="flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold hover:bg-slate-200 transition-all"
+                  >
+                    <Printer className="w-4 h-4" />
+                    <span>報告</span>
+                  </button>
+                  {showReportMenu && (
+                    <div className="absolute right-0 top-full mt-2 w-52 bg-white border border-slate-200 rounded-2xl shadow-xl p-2 z-30">
+                      <button
+                        onClick={() => exportReport('pdf')}
+                        className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-100 transition-all"
+                      >
+                        <Printer className="w-4 h-4" /> 列印 / 另存 PDF
+                      </button>
+                      <button
+                        onClick={() => exportReport('html')}
+                        className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-100 transition-all"
+                      >
+                        <FileDown className="w-4 h-4" /> 下載 HTML 報告
+                      </button>
+                    </div>
+                  )}
+                </div>
                 <button 
                   onClick={exportArchive}
                   className="flex items-center gap-2 bg-slate-100 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold hover:bg-slate-200 transition-all"
@@ -486,125 +1508,382 @@ const App = () => {
                   <Download className="w-4 h-4" />
                   <span>下載封存 (JSON)</span>
                 </button>
-                {isOnline && !activeSession.analysis && (
-                  <button 
-                    onClick={analyzeWithGemini}
-                    disabled={isAnalyzing}
-                    className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-2 rounded-xl text-sm font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-50 disabled:opacity-50"
-                  >
-                    {isAnalyzing ? (
+                <button
+                  onClick={() => setShowAiSettings(true)}
+                  title={`AI 分析服務：${AI_PROVIDER_LABELS[aiSettings.provider]} · ${aiSettings.model}`}
+                  className="p-2 bg-slate-100 text-slate-600 rounded-xl hover:bg-slate-200 transition-all"
+                >
+                  <Settings2 className="w-4 h-4" />
+                </button>
+                {isAiReady && !isAiAnalysis(activeSession.analysis) && (
+                  isAnalyzing ? (
+                    <button
+                      onClick={cancelAnalysis}
+                      className="flex items-center gap-2 bg-slate-900 text-white px-5 py-2 rounded-xl text-sm font-bold hover:bg-slate-700 transition-all shadow-lg"
+                    >
                       <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    ) : (
-                      <>
-                        <BrainCircuit className="w-4 h-4" />
-                        <span>AI 證據分析</span>
-                      </>
-                    )}
-                  </button>
+                      {activeSession.analysisJob && (
+                        <span>
+                          {activeSession.analysisJob.chunks.filter(c => c.status === 'done').length}/{activeSession.analysisJob.chunks.length}
+                        </span>
+                      )}
+                      <Square className="w-3 h-3 fill-current" />
+                      <span>取消</span>
+                    </button>
+                  ) : (
+                    <button 
+                      onClick={startAnalysis}
+                      className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-2 rounded-xl text-sm font-bold hover:bg-emerald-700 transition-all shadow-lg shadow-emerald-50"
+                    >
+                      {activeSession.analysisJob ? (
+                        <>
+                          <RotateCcw className="w-4 h-4" />
+                          <span>接續分析</span>
+                        </>
+                      ) : (
+                        <>
+                          <BrainCircuit className="w-4 h-4" />
+                          <span>AI 證據分析</span>
+                        </>
+                      )}
+                    </button>
+                  )
                 )}
-                {!isOnline && !activeSession.analysis && (
-                  <div className="flex items-center gap-2 px-4 py-2 bg-amber-50 text-amber-600 rounded-xl text-xs font-bold border border-amber-100">
+                {!isAiReady && !isAiAnalysis(activeSession.analysis) && (
+                  <button
+                    onClick={() => setShowAiSettings(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-amber-50 text-amber-600 rounded-xl text-xs font-bold border border-amber-100 hover:bg-amber-100 transition-all"
+                  >
                     <ShieldAlert className="w-4 h-4" />
-                    <span>離線模式：無法執行 AI 分析</span>
-                  </div>
+                    <span>無法執行 AI 分析：{aiProblem}</span>
+                  </button>
                 )}
               </div>
             </header>
 
+            {/* Unparsed Lines */}
+            {showUnparsed && !!activeSession.unparsedLines?.length && (
+              <div className="bg-amber-50 border-b border-amber-100 px-8 py-4 shrink-0 max-h-60 overflow-y-auto custom-scrollbar">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="flex items-center gap-2 text-[10px] font-black text-amber-700 uppercase tracking-widest">
+                    <FileWarning className="w-3 h-3" /> 未能歸入訊息的原始行（已保留於封存中）
+                  </span>
+                  <button onClick={() => setShowUnparsed(false)} className="p-1 text-amber-600 hover:bg-amber-100 rounded-lg transition-all">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <ul className="space-y-1">
+                  {activeSession.unparsedLines.map(u => (
+                    <li key={u.line} className="flex items-start gap-3 text-[11px]">
+                      <span className="font-black text-amber-500 shrink-0 w-14">第 {u.line} 行</span>
+                      <span className="font-mono text-amber-900 break-all flex-1">{u.text}</span>
+                      <span className="text-amber-500 font-bold shrink-0">{u.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Filter Bar */}
             <div className="bg-white/80 backdrop-blur-sm border-b border-slate-200 px-8 py-3 flex items-center gap-4 shrink-0">
               <div className="flex-1 relative">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
                 <input 
                   type="text" 
-                  placeholder="搜尋關鍵字..." 
+                  placeholder="搜尋關鍵字，或如 sender:王 tag:費用 date:2024/03 -取消..." 
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
-                  className="w-full bg-slate-50 border border-slate-200 rounded-xl pl-10 pr-4 py-2 text-sm focus:ring-2 focus:ring-emerald-500/20 outline-none"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') stepMatch(e.shiftKey ? -1 : 1);
+                  }}
+                  className={`w-full bg-slate-50 border rounded-xl pl-10 pr-44 py-2 text-sm focus:ring-2 focus:ring-emerald-500/20 outline-none ${parsedQuery.error ? 'border-red-300' : 'border-slate-200'}`}
                 />
+                <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+                  {parsedQuery.error ? (
+                    <span title={parsedQuery.error} className="max-w-[9rem] truncate text-[10px] font-bold text-red-500">{parsedQuery.error}</span>
+                  ) : isSearching && (
+                    <>
+                      <span className="text-[10px] font-black text-slate-400 whitespace-nowrap">
+                        {matchCursor >= 0 ? `${matchCursor + 1} / ` : ''}{filteredMessages.length} 則
+                      </span>
+                      <button onClick={() => stepMatch(-1)} disabled={filteredMessages.length === 0} title="上一筆 (Shift+Enter)" className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-200 disabled:opacity-40">
+                        <ChevronUp className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => stepMatch(1)} disabled={filteredMessages.length === 0} title="下一筆 (Enter)" className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-200 disabled:opacity-40">
+                        <ChevronDown className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowSavedSearches(!showSavedSearches)}
+                      title="已儲存的搜尋與查詢語法"
+                      className={`p-1 rounded transition-all ${showSavedSearches ? 'text-emerald-600 bg-emerald-50' : 'text-slate-400 hover:text-slate-700 hover:bg-slate-200'}`}
+                    >
+                      <Bookmark className="w-3.5 h-3.5" />
+                    </button>
+                    {showSavedSearches && (
+                      <SavedSearchMenu
+                        searches={savedSearches}
+                        currentQuery={searchTerm}
+                        onApply={(search) => { setSearchTerm(search.query); setShowSavedSearches(false); }}
+                        onSaveCurrent={saveCurrentSearch}
+                        onDelete={deleteSavedSearch}
+                      />
+                    )}
+                  </div>
+                </div>
               </div>
-              <div className="flex items-center gap-2">
+              <div className="flex items-center gap-2 overflow-x-auto custom-scrollbar">
                 <button 
                   onClick={() => setFilterTag(null)}
                   className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${!filterTag ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200'}`}
                 >
                   全部
                 </button>
-                {Object.entries(TAG_CONFIG).map(([key, cfg]) => (
+                {tagRules.filter(r => r.enabled).map(r => (
                   <button 
-                    key={key}
-                    onClick={() => setFilterTag(key)}
-                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${filterTag === key ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200'}`}
+                    key={r.id}
+                    onClick={() => setFilterTag(r.id)}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold border whitespace-nowrap transition-all ${filterTag === r.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200'}`}
                   >
-                    {cfg.icon}
-                    {cfg.label}
+                    {tagConfig[r.id].icon}
+                    {r.label}
                   </button>
                 ))}
+                <button
+                  onClick={() => setShowTagEditor(true)}
+                  title="編輯標籤分類規則"
+                  className="p-1.5 rounded-lg border border-slate-200 text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-all"
+                >
+                  <Tags className="w-4 h-4" />
+                </button>
+                <select
+                  value={filterRole || ''}
+                  onChange={(e) => setFilterRole((e.target.value || null) as ParticipantRole | null)}
+                  className={`px-2 py-1.5 rounded-lg text-xs font-bold border outline-none transition-all ${filterRole ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200'}`}
+                >
+                  <option value="">所有角色</option>
+                  {PARTICIPANT_ROLES.map(role => (
+                    <option key={role} value={role}>{PARTICIPANT_ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+                <select
+                  value={filterKind || ''}
+                  onChange={(e) => setFilterKind((e.target.value || null) as MessageKind | null)}
+                  className={`px-2 py-1.5 rounded-lg text-xs font-bold border outline-none transition-all ${filterKind ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200'}`}
+                >
+                  <option value="">所有類型</option>
+                  {MESSAGE_KINDS.filter(kind => kindCounts.has(kind) || kind === filterKind).map(kind => (
+                    <option key={kind} value={kind}>{MESSAGE_KIND_LABELS[kind]}（{kindCounts.get(kind) ?? 0}）</option>
+                  ))}
+                </select>
               </div>
             </div>
 
             {/* Chat Messages */}
-            <div className="flex-1 overflow-y-auto p-8 space-y-8 custom-scrollbar" ref={scrollRef}>
-              {Object.entries(messagesByDate).map(([date, msgs]) => {
-                const dayFiltered = msgs.filter(m => {
-                  const matchesSearch = !searchTerm || m.content.toLowerCase().includes(searchTerm.toLowerCase()) || m.sender.toLowerCase().includes(searchTerm.toLowerCase());
-                  const matchesTag = !filterTag || m.tags.includes(filterTag);
-                  return matchesSearch && matchesTag;
-                });
-
-                if (dayFiltered.length === 0) return null;
-
-                return (
-                  <div key={date} id={`date-${date}`} className="space-y-4">
-                    <div className="flex items-center gap-4">
-                      <div className="h-px flex-1 bg-slate-200" />
-                      <div className="px-4 py-1 bg-white border border-slate-200 rounded-full text-xs font-black text-slate-400">
-                        {date}
-                      </div>
-                      <div className="h-px flex-1 bg-slate-200" />
-                    </div>
-                    
-                    <div className="space-y-3">
-                      {dayFiltered.map((msg) => (
-                        <div 
-                          key={msg.id}
-                          id={msg.id}
-                          className={`flex flex-col group ${msg.isSystem ? 'items-center' : 'items-start'}`}
-                        >
-                          {!msg.isSystem ? (
-                            <div className="max-w-[80%] flex flex-col gap-1">
-                              <div className="flex items-center gap-2 ml-3">
-                                <span className="text-[10px] font-black text-slate-500 uppercase">{msg.sender}</span>
-                                <span className="text-[9px] font-bold text-slate-300">{msg.time}</span>
-                              </div>
-                              <div className={`p-4 rounded-2xl border shadow-sm transition-all ${msg.isImportant ? 'bg-rose-50 border-rose-100' : 'bg-white border-slate-100'}`}>
-                                <p className="text-sm leading-relaxed text-slate-700 whitespace-pre-wrap font-medium">
-                                  {msg.content}
-                                </p>
-                                {msg.tags.length > 0 && (
-                                  <div className="mt-3 flex flex-wrap gap-1.5">
-                                    {msg.tags.map(tag => (
-                                      <span key={tag} className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest border ${TAG_CONFIG[tag].color}`}>
-                                        {TAG_CONFIG[tag].icon}
-                                        {TAG_CONFIG[tag].label}
+            <div className="flex-1 overflow-y-auto p-8 custom-scrollbar" ref={scrollRef}>
+              {!isActiveLoaded && (
+                <div className="h-full flex flex-col items-center justify-center gap-3 text-slate-400">
+                  <div className="w-6 h-6 border-2 border-slate-200 border-t-emerald-500 rounded-full animate-spin" />
+                  <span className="text-xs font-bold">載入 {activeSession.messageCount ?? ''} 則訊息…</span>
+                </div>
+              )}
+              {isActiveLoaded && (
+                // 以 session 為 key，切換時重新量測列高
+                <React.Fragment key={activeSession.id}>
+                  <VirtualList
+                    ref={chatListRef}
+                    items={chatRows}
+                    scrollRef={scrollRef}
+                    getKey={(row: ChatRow) => row.key}
+                    estimateSize={(row: ChatRow) => row.message ? (row.message.isSystem ? 36 : 110) : 64}
+                    renderItem={(row: ChatRow) => {
+                      if (!row.message) return (
+                        <div id={row.key} className="flex items-center gap-4 pt-4 pb-4">
+                          <div className="h-px flex-1 bg-slate-200" />
+                          <div className="px-4 py-1 bg-white border border-slate-200 rounded-full text-xs font-black text-slate-400">
+                            {row.date}
+                          </div>
+                          <div className="h-px flex-1 bg-slate-200" />
+                        </div>
+                      );
+                      const msg = row.message;
+                      const annotation = activeSession.annotations?.[msg.id];
+                      const speaker = participantIndex.get(msg.sender);
+                      const isSelected = selectedMessageIds.has(msg.id);
+                      const exportDiff = exportDiffs.get(msg.id);
+                      const kind = messageKindOf(msg);
+                      const attachableKind = ATTACHABLE_KINDS[kind];
+                      return (
+                        <div className="pb-3">
+                          <div 
+                            id={msg.id}
+                            className={`flex flex-col group ${msg.isSystem ? 'items-center' : 'items-start'}`}
+                          >
+                            {!msg.isSystem ? (
+                              <div className="max-w-[80%] flex items-start gap-2">
+                                <button
+                                  onClick={() => toggleSelected(msg.id)}
+                                  title="選取訊息"
+                                  className={`mt-6 w-4 h-4 shrink-0 rounded border flex items-center justify-center transition-all ${
+                                    isSelected ? 'bg-emerald-600 border-emerald-600 text-white' : 'border-slate-300 bg-white opacity-0 group-hover:opacity-100'
+                                  } ${selectedMessageIds.size > 0 ? 'opacity-100' : ''}`}
+                                >
+                                  {isSelected && <Check className="w-3 h-3" />}
+                                </button>
+                                <div className="flex flex-col gap-1 min-w-0">
+                                  <div className="flex items-center gap-2 ml-3">
+                                    <span className="text-[10px] font-black text-slate-500 uppercase">{speaker?.name ?? msg.sender}</span>
+                                    {speaker && speaker.name !== msg.sender && (
+                                      <span className="text-[9px] font-bold text-slate-300" title="原始 LINE 顯示名稱">（{msg.sender}）</span>
+                                    )}
+                                    {speaker && speaker.role !== 'other' && (
+                                      <span className={`px-1.5 py-0.5 rounded text-[9px] font-black border ${ROLE_COLORS[speaker.role]}`}>
+                                        {PARTICIPANT_ROLE_LABELS[speaker.role]}
+                                      </span>
+                                    )}
+                                    <span className="text-[9px] font-bold text-slate-300">{msg.time}</span>
+                                    {kind !== 'text' && (
+                                      <span className="px-1.5 py-0.5 rounded bg-slate-100 text-[9px] font-black text-slate-500">{MESSAGE_KIND_LABELS[kind]}</span>
+                                    )}
+                                    {annotation?.pinned && (
+                                      <span className="flex items-center gap-1 text-[9px] font-black text-amber-600">
+                                        <Pin className="w-2.5 h-2.5" /> 人工釘選
                                       </span>
-                                    ))}
+                                    )}
+                                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                                      <button
+                                        onClick={() => togglePin([msg.id], !annotation?.pinned)}
+                                        title={annotation?.pinned ? '取消釘選' : '釘選為證據'}
+                                        className="p-1 rounded text-slate-400 hover:text-amber-600 hover:bg-amber-50"
+                                      >
+                                        <Pin className="w-3 h-3" />
+                                      </button>
+                                      <button
+                                        onClick={() => { setEditingNoteId(msg.id); setNoteDraft(annotation?.note || ''); }}
+                                        title="人工註記"
+                                        className="p-1 rounded text-slate-400 hover:text-amber-600 hover:bg-amber-50"
+                                      >
+                                        <StickyNote className="w-3 h-3" />
+                                      </button>
+                                    </div>
                                   </div>
-                                )}
+                                  <div className={`p-4 rounded-2xl border shadow-sm transition-all ${msg.isImportant ? 'bg-rose-50 border-rose-100' : 'bg-white border-slate-100'} ${annotation?.pinned ? 'ring-2 ring-amber-300' : exportDiff ? 'ring-2 ring-orange-200' : ''}`}>
+                                    <p className="text-sm leading-relaxed text-slate-700 whitespace-pre-wrap font-medium">
+                                      <HighlightedText text={msg.content} patterns={highlightPatterns} />
+                                    </p>
+                                    {attachableKind && (
+                                      <MessageMedia
+                                        attachment={attachmentsByMessage.get(msg.id)}
+                                        candidates={unlinkedAttachments.filter(a => a.kind === attachableKind)}
+                                        onLink={(attachmentId) => setMessageAttachment(msg.id, attachmentId)}
+                                      />
+                                    )}
+                                    {msg.tags.length > 0 && (
+                                      <div className="mt-3 flex flex-wrap gap-1.5">
+                                        {msg.tags.map(tag => {
+                                          const display = getTagDisplay(tagConfig, tag);
+                                          return (
+                                            <span key={tag} className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest border ${display.color}`}>
+                                              {display.icon}
+                                              {display.label}
+                                            </span>
+                                          );
+                                        })}
+                                      </div>
+                                    )}
+                                  </div>
+                                  {exportDiff && (
+                                    <div className="px-3 py-2 bg-orange-50 rounded-xl border border-orange-100 text-xs text-orange-900 font-medium">
+                                      <span className="flex items-center gap-1 text-[9px] font-black text-orange-600 uppercase mb-0.5">
+                                        <GitCompare className="w-2.5 h-2.5" /> {EXPORT_DIFF_LABELS[exportDiff.kind]}（{exportDiff.sourceFileName}）
+                                      </span>
+                                      {exportDiff.laterContent && <span className="whitespace-pre-wrap">{exportDiff.laterContent}</span>}
+                                    </div>
+                                  )}
+                                  {editingNoteId === msg.id ? (
+                                    <div className="p-3 bg-amber-50 rounded-2xl border border-amber-200 space-y-2">
+                                      <textarea
+                                        autoFocus
+                                        value={noteDraft}
+                                        onChange={(e) => setNoteDraft(e.target.value)}
+                                        placeholder="輸入人工註記…"
+                                        rows={2}
+                                        className="w-full bg-white border border-amber-200 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-amber-300/40"
+                                      />
+                                      <div className="flex justify-end gap-2">
+                                        <button onClick={() => setEditingNoteId(null)} className="px-3 py-1 rounded-lg text-[10px] font-bold text-slate-500 hover:bg-white">取消</button>
+                                        <button onClick={() => saveNote(msg.id)} className="px-3 py-1 rounded-lg text-[10px] font-bold bg-amber-500 text-white hover:bg-amber-600">儲存</button>
+                                      </div>
+                                    </div>
+                                  ) : annotation?.note && (
+                                    <div className="px-3 py-2 bg-amber-50 rounded-xl border border-amber-100 text-xs text-amber-900 font-medium">
+                                      <span className="flex items-center gap-1 text-[9px] font-black text-amber-600 uppercase mb-0.5">
+                                        <UserPen className="w-2.5 h-2.5" /> 人工註記
+                                      </span>
+                                      <span className="whitespace-pre-wrap">{annotation.note}</span>
+                                    </div>
+                                  )}
+                                </div>
                               </div>
-                            </div>
-                          ) : (
-                            <div className="px-4 py-1 bg-slate-100/50 rounded-lg text-[10px] text-slate-400 font-medium italic">
-                              {msg.content}
-                            </div>
-                          )}
+                            ) : (
+                              <SystemMessageRow
+                                message={msg}
+                                kind={kind}
+                                speakerName={msg.sender ? speaker?.name ?? msg.sender : undefined}
+                                patterns={highlightPatterns}
+                              />
+                            )}
+                          </div>
                         </div>
+                      );
+                    }}
+                  />
+                </React.Fragment>
+              )}
+            </div>
+
+            {/* Selection Actions */}
+            {selectedMessageIds.size > 0 && (
+              <div className="bg-slate-900 text-white px-8 py-3 flex items-center gap-3 shrink-0">
+                <span className="text-xs font-black">已選取 {selectedMessageIds.size} 則訊息</span>
+                <div className="flex-1" />
+                <button
+                  onClick={createEventFromSelection}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 rounded-lg text-xs font-bold transition-all"
+                >
+                  <Plus className="w-3.5 h-3.5" /> 建立人工事件
+                </button>
+                {!!activeSession.analysis?.events.length && (
+                  <div className="flex items-center gap-1.5 bg-white/10 rounded-lg pl-2">
+                    <ListPlus className="w-3.5 h-3.5" />
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && linkSelectionToEvent(e.target.value)}
+                      className="bg-transparent text-xs font-bold py-1.5 pr-2 outline-none cursor-pointer"
+                    >
+                      <option value="" className="text-slate-900">加入至事件…</option>
+                      {activeSession.analysis.events.map(ev => (
+                        <option key={ev.id} value={ev.id} className="text-slate-900">{ev.title}</option>
                       ))}
-                    </div>
+                    </select>
                   </div>
-                );
-              })}
-            </div>
+                )}
+                <button
+                  onClick={() => togglePin(Array.from(selectedMessageIds), true)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-xs font-bold transition-all"
+                >
+                  <Pin className="w-3.5 h-3.5" /> 釘選為證據
+                </button>
+                <button
+                  onClick={() => setSelectedMessageIds(new Set())}
+                  className="p-1.5 hover:bg-white/10 rounded-lg transition-all"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
           </div>
         ) : (
           <div 
@@ -622,7 +1901,7 @@ const App = () => {
               <h2 className="text-4xl font-black text-slate-900 mb-4 tracking-tight">長照對話 Intel</h2>
               <p className="text-slate-500 mb-10 leading-relaxed font-bold text-sm">
                 拖放 LINE 匯出的 <span className="text-emerald-600 underline">.txt</span> 檔案<br/>
-                或開啟先前分析過的 <span className="text-emerald-600 underline">.json</span> 證據封存
+                或開啟先前分析過的 <span className="text-emerald-600 underline">.json</span> 證據封存，可一次拖放多個檔案
               </p>
               
               <div className="grid grid-cols-2 gap-4">
@@ -662,12 +1941,22 @@ const App = () => {
                 <span>時間跳轉</span>
               </div>
             </button>
+            <button 
+              onClick={() => setRightPanel('qa')}
+              className={`flex-1 py-4 text-xs font-black uppercase tracking-[0.2em] transition-all border-b-2 ${rightPanel === 'qa' ? 'border-emerald-600 text-slate-900 bg-slate-50/50' : 'border-transparent text-slate-400 hover:text-slate-600'}`}
+            >
+              <div className="flex items-center justify-center gap-2">
+                <MessageCircleQuestion className="w-4 h-4" />
+                <span>問答</span>
+              </div>
+            </button>
           </div>
 
           <div className="flex-1 overflow-y-auto p-8 custom-scrollbar">
             {rightPanel === 'analysis' ? (
               activeSession.analysis ? (
                 <div className="space-y-8 animate-in fade-in duration-500">
+                  {activeSession.analysis.summary && (
                   <section>
                     <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">綜合評述</h3>
                     <div className="p-6 bg-slate-900 rounded-[32px] text-white shadow-xl relative overflow-hidden group">
@@ -682,24 +1971,137 @@ const App = () => {
                       </div>
                     </div>
                   </section>
+                  )}
+
+                  {!!activeSession.analysis.commitments?.length && (
+                    <CommitmentList
+                      commitments={activeSession.analysis.commitments}
+                      messagesById={messagesById}
+                      onJump={jumpToMessage}
+                      onSetStatus={changeCommitmentStatus}
+                    />
+                  )}
 
                   <section className="space-y-6">
                     <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">證據保全事件清單</h3>
                     {activeSession.analysis.events.map((event, i) => (
-                      <div key={i} className="group bg-white border border-slate-100 rounded-[32px] p-6 shadow-sm hover:shadow-md transition-all">
+                      <div key={event.id || i} className={`group bg-white border rounded-[32px] p-6 shadow-sm hover:shadow-md transition-all ${isHumanEvent(event) ? 'border-amber-200' : 'border-slate-100'}`}>
                         <div className="flex items-start justify-between mb-3">
                           <h4 className="text-base font-black text-slate-900 leading-tight pr-4">
                             {event.title}
                           </h4>
-                          <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black border uppercase tracking-widest ${getRiskColor(event.riskLevel)}`}>
-                            風險 {event.riskLevel}
-                          </span>
+                          <div className="flex flex-col items-end gap-1 shrink-0">
+                            <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black border uppercase tracking-widest ${getRiskColor(event.riskLevel)}`}>
+                              風險 {event.riskLevel}
+                            </span>
+                            {countUnverified(event.verification) > 0 && (
+                              <span className="flex items-center gap-1 px-2 py-0.5 rounded-lg text-[9px] font-black border bg-red-50 text-red-600 border-red-100 whitespace-nowrap">
+                                <ShieldAlert className="w-3 h-3" /> {countUnverified(event.verification)} 項未驗證
+                              </span>
+                            )}
+                          </div>
                         </div>
-                        
-                        <div className="flex items-center gap-2 text-[10px] text-slate-400 font-bold mb-4 uppercase">
-                          <Calendar className="w-3 h-3" /> {event.dateRange}
+
+                        <div className="flex items-center justify-between gap-2 mb-4">
+                          <div className="flex items-center gap-2 text-[10px] text-slate-400 font-bold uppercase">
+                            <Calendar className="w-3 h-3" /> {event.dateRange}
+                          </div>
+                          <div className="flex items-center gap-1.5">
+                            {isHumanEvent(event) ? (
+                              <span className="flex items-center gap-1 px-2 py-0.5 rounded-lg text-[9px] font-black border bg-amber-50 text-amber-700 border-amber-200 whitespace-nowrap">
+                                <UserPen className="w-3 h-3" /> 人工建立
+                              </span>
+                            ) : (
+                              <>
+                                <span className="flex items-center gap-1 px-2 py-0.5 rounded-lg text-[9px] font-black border bg-slate-50 text-slate-500 border-slate-200 whitespace-nowrap">
+                                  <Bot className="w-3 h-3" /> AI 產生
+                                </span>
+                                {!!event.humanEdits?.length && (
+                                  <span
+                                    title={Array.from(new Set(event.humanEdits.map(e => EDITABLE_FIELD_LABELS[e.field]))).join('、')}
+                                    className="flex items-center gap-1 px-2 py-0.5 rounded-lg text-[9px] font-black border bg-amber-50 text-amber-700 border-amber-200 whitespace-nowrap"
+                                  >
+                                    <UserPen className="w-3 h-3" /> 已人工修改
+                                  </span>
+                                )}
+                              </>
+                            )}
+                            <button
+                              onClick={() => startEditingEvent(event.id)}
+                              title="編輯事件"
+                              className="p-1 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-all"
+                            >
+                              <Pencil className="w-3.5 h-3.5" />
+                            </button>
+                            {isHumanEvent(event) && (
+                              <button
+                                onClick={() => removeEvent(event.id)}
+                                title="刪除事件"
+                                className="p-1 rounded-lg text-slate-400 hover:text-red-600 hover:bg-red-50 transition-all"
+                              >
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                          </div>
                         </div>
 
+                        {editingEventId === event.id && (
+                          <div className="mb-4 p-4 bg-slate-50 rounded-2xl border border-slate-200 space-y-3">
+                            <label className="block">
+                              <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">標題</span>
+                              <input
+                                value={eventDraft.title ?? ''}
+                                onChange={(e) => setEventDraft(d => ({ ...d, title: e.target.value }))}
+                                className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:ring-2 focus:ring-emerald-500/20"
+                              />
+                            </label>
+                            <div className="grid grid-cols-2 gap-3">
+                              <label className="block">
+                                <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">風險等級</span>
+                                <select
+                                  value={eventDraft.riskLevel}
+                                  onChange={(e) => setEventDraft(d => ({ ...d, riskLevel: e.target.value as CaseEvent['riskLevel'] }))}
+                                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none"
+                                >
+                                  <option value="低">低</option>
+                                  <option value="中">中</option>
+                                  <option value="高">高</option>
+                                </select>
+                              </label>
+                              <label className="block">
+                                <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">日期範圍</span>
+                                <input
+                                  value={eventDraft.dateRange ?? ''}
+                                  onChange={(e) => setEventDraft(d => ({ ...d, dateRange: e.target.value }))}
+                                  className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-2 focus:ring-emerald-500/20"
+                                />
+                              </label>
+                            </div>
+                            <label className="block">
+                              <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">事件摘要</span>
+                              <textarea
+                                value={eventDraft.summary ?? ''}
+                                onChange={(e) => setEventDraft(d => ({ ...d, summary: e.target.value }))}
+                                rows={3}
+                                className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-emerald-500/20"
+                              />
+                            </label>
+                            <label className="block">
+                              <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">專業備註</span>
+                              <textarea
+                                value={eventDraft.remarks ?? ''}
+                                onChange={(e) => setEventDraft(d => ({ ...d, remarks: e.target.value }))}
+                                rows={3}
+                                className="w-full bg-white border border-slate-200 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-emerald-500/20"
+                              />
+                            </label>
+                            <div className="flex justify-end gap-2">
+                              <button onClick={() => setEditingEventId(null)} className="px-4 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-white">取消</button>
+                              <button onClick={saveEventDraft} className="px-4 py-1.5 rounded-lg text-xs font-bold bg-emerald-600 text-white hover:bg-emerald-700">儲存</button>
+                            </div>
+                          </div>
+                        )}
+
                         <div className="space-y-4">
                           <div>
                             <span className="text-[10px] font-black text-slate-400 uppercase block mb-1">事件摘要</span>
@@ -713,29 +2115,21 @@ const App = () => {
                             </span>
                             
                             <div className="space-y-2">
-                              {event.familyExcerpts?.length > 0 && (
+                              {excerptGroups.get(event.id)?.family.length > 0 && (
                                 <div className="p-3 bg-blue-50 rounded-2xl border border-blue-100">
                                   <span className="flex items-center gap-1.5 text-[9px] font-black text-blue-700 uppercase mb-1">
                                     <User className="w-2.5 h-2.5" /> 家屬/案主口述
                                   </span>
-                                  <ul className="list-disc list-inside space-y-1">
-                                    {event.familyExcerpts.map((txt, idx) => (
-                                      <li key={idx} className="text-[11px] text-blue-900 font-medium italic">「{txt}」</li>
-                                    ))}
-                                  </ul>
+                                  {renderExcerpts(excerptGroups.get(event.id)!.family, 'text-blue-900')}
                                 </div>
                               )}
                               
-                              {event.staffExcerpts?.length > 0 && (
+                              {excerptGroups.get(event.id)?.staff.length > 0 && (
                                 <div className="p-3 bg-emerald-50 rounded-2xl border border-emerald-100">
                                   <span className="flex items-center gap-1.5 text-[9px] font-black text-emerald-700 uppercase mb-1">
                                     <Building2 className="w-2.5 h-2.5" /> 單位/機構回應
                                   </span>
-                                  <ul className="list-disc list-inside space-y-1">
-                                    {event.staffExcerpts.map((txt, idx) => (
-                                      <li key={idx} className="text-[11px] text-emerald-900 font-medium italic">「{txt}」</li>
-                                    ))}
-                                  </ul>
+                                  {renderExcerpts(excerptGroups.get(event.id)!.staff, 'text-emerald-900')}
                                 </div>
                               )}
                             </div>
@@ -759,22 +2153,36 @@ const App = () => {
                             <div className="pt-2">
                               <span className="text-[10px] font-black text-slate-400 uppercase block mb-2">相關證據定位</span>
                               <div className="flex flex-wrap gap-2">
-                                {event.relatedMessageIds.slice(0, 6).map(mid => (
-                                  <button 
-                                    key={mid}
-                                    onClick={() => {
-                                      const el = document.getElementById(mid);
-                                      el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-                                      el?.classList.add('ring-2', 'ring-emerald-400', 'ring-offset-4');
-                                      setTimeout(() => el?.classList.remove('ring-2', 'ring-emerald-400', 'ring-offset-4'), 2000);
-                                    }}
-                                    className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg text-[10px] font-bold text-slate-600 transition-all"
-                                  >
-                                    <ExternalLink className="w-3 h-3" />
-                                    定位
-                                  </button>
+                                {event.relatedMessageIds
+                                  .filter(mid => !event.verification?.invalidMessageIds.includes(mid))
+                                  .slice(0, editingEventId === event.id ? undefined : 6)
+                                  .map(mid => (
+                                  <div key={mid} className="flex items-center bg-slate-100 rounded-lg">
+                                    <button 
+                                      onClick={() => jumpToMessage(mid)}
+                                      className="flex items-center gap-1.5 px-3 py-1.5 hover:bg-slate-200 rounded-lg text-[10px] font-bold text-slate-600 transition-all"
+                                    >
+                                      <ExternalLink className="w-3 h-3" />
+                                      定位
+                                    </button>
+                                    {editingEventId === event.id && (
+                                      <button
+                                        onClick={() => removeLinkedMessage(event.id, mid)}
+                                        title={`移除 ${mid}`}
+                                        className="p-1.5 text-slate-400 hover:text-red-600 rounded-lg transition-all"
+                                      >
+                                        <X className="w-3 h-3" />
+                                      </button>
+                                    )}
+                                  </div>
                                 ))}
                               </div>
+                              {!!event.verification?.invalidMessageIds.length && (
+                                <div className="mt-2 flex items-start gap-1.5 text-[10px] font-bold text-red-600">
+                                  <ShieldAlert className="w-3 h-3 shrink-0 mt-px" />
+                                  <span>對話中不存在的引用 ID：{event.verification.invalidMessageIds.join('、')}</span>
+                                </div>
+                              )}
                             </div>
                           )}
                         </div>
@@ -782,6 +2190,26 @@ const App = () => {
                     ))}
                   </section>
                 </div>
+              ) : activeSession.analysisJob ? (
+                <div className="space-y-6 animate-in fade-in duration-500">
+                  <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">分段分析進度</h3>
+                  <div className="space-y-2">
+                    {activeSession.analysisJob.chunks.map(chunk => (
+                      <div key={chunk.index} className="flex items-center justify-between p-4 bg-white border border-slate-100 rounded-2xl">
+                        <div className="min-w-0">
+                          <div className="text-xs font-black text-slate-700">第 {chunk.index + 1} 段</div>
+                          <div className="text-[10px] font-bold text-slate-400">
+                            {chunk.startDate === chunk.endDate ? chunk.startDate : `${chunk.startDate} – ${chunk.endDate}`} · {chunk.messageCount} 則
+                          </div>
+                          {chunk.error && <div className="text-[10px] font-bold text-red-500 truncate">{chunk.error}</div>}
+                        </div>
+                        <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black border whitespace-nowrap ${CHUNK_STATUS_CONFIG[chunk.status].color}`}>
+                          {CHUNK_STATUS_CONFIG[chunk.status].label}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
               ) : (
                 <div className="h-full flex flex-col items-center justify-center text-center p-8 opacity-40">
                   <BrainCircuit className="w-10 h-10 mb-4" />
@@ -790,21 +2218,28 @@ const App = () => {
                   </p>
                 </div>
               )
+            ) : rightPanel === 'qa' ? (
+              <QaPanel
+                turns={activeSession.qaHistory || []}
+                messagesById={messagesById}
+                isAsking={isAsking}
+                disabledReason={!isAiReady ? `AI 服務尚未設定：${aiProblem}` : !isActiveLoaded ? '訊息載入中…' : null}
+                onAsk={askQuestion}
+                onJump={jumpToMessage}
+                onClear={() => {
+                  if (confirm('確定要清除此對話的問答紀錄嗎？')) updateSession(activeSession.id, s => ({ ...s, qaHistory: undefined }));
+                }}
+              />
             ) : (
               <div className="space-y-6 animate-in fade-in duration-500">
-                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">快速跳转日期</h3>
-                <div className="grid grid-cols-1 gap-2">
-                  {Object.keys(messagesByDate).map(date => (
-                    <button 
-                      key={date}
-                      onClick={() => jumpToDate(date)}
-                      className="group flex items-center justify-between p-4 bg-white border border-slate-100 rounded-2xl hover:border-emerald-300 hover:bg-emerald-50 transition-all text-left"
-                    >
-                      <div className="text-xs font-black text-slate-700">{date}</div>
-                      <ChevronRight className="w-4 h-4 text-slate-300 group-hover:text-emerald-500 transition-all group-hover:translate-x-1" />
-                    </button>
-                  ))}
-                </div>
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">事件時間軸</h3>
+                <EventTimeline
+                  messages={activeSession.messages}
+                  events={activeSession.analysis?.events || []}
+                  tagRules={tagRules}
+                  onJumpMessage={jumpToMessage}
+                  onJumpDate={jumpToDate}
+                />
               </div>
             )}
           </div>
@@ -822,6 +2257,169 @@ const App = () => {
           </div>
         </aside>
       )}
+
+      {/* Archive Verification Report */}
+      {archiveReport && (
+        <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-8" onClick={() => setArchiveReport(null)}>
+          <div className="w-full max-w-2xl max-h-full bg-white rounded-[32px] shadow-2xl flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+            <div className="px-8 py-6 border-b border-slate-100 flex items-center justify-between">
+              <div className="min-w-0">
+                <h3 className="text-lg font-black text-slate-900 truncate">封存完整性驗證</h3>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">
+                  {archiveReport.title} · {archiveReport.report.checkedMessages} 則訊息 · {new Date(archiveReport.report.checkedAt).toLocaleString()}
+                </p>
+              </div>
+              <button onClick={() => setArchiveReport(null)} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl transition-all">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-8 space-y-6 custom-scrollbar">
+              {archiveReport.report.ok ? (
+                <div className="flex items-center gap-3 p-4 bg-emerald-50 rounded-2xl border border-emerald-100 text-emerald-700">
+                  <ShieldCheck className="w-5 h-5 shrink-0" />
+                  <span className="text-sm font-bold">所有雜湊與保管紀錄皆相符，封存未遭變更。</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-3 p-4 bg-red-50 rounded-2xl border border-red-100 text-red-700">
+                  <ShieldAlert className="w-5 h-5 shrink-0" />
+                  <span className="text-sm font-bold">封存內容與記錄不符，以下項目已遭變更。</span>
+                </div>
+              )}
+
+              {archiveReport.report.issues.length > 0 && (
+                <ul className="space-y-2">
+                  {archiveReport.report.issues.map((issue, idx) => (
+                    <li
+                      key={idx}
+                      className={`flex items-start gap-2 p-3 rounded-xl border text-xs font-medium ${
+                        issue.severity === 'error' ? 'bg-red-50/50 border-red-100 text-red-800' : 'bg-amber-50/50 border-amber-100 text-amber-800'
+                      }`}
+                    >
+                      {issue.severity === 'error' ? <ShieldAlert className="w-3.5 h-3.5 shrink-0 mt-px" /> : <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px" />}
+                      <span>{issue.detail}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {activeSession?.fileName === archiveReport.title && !!activeSession.custodyLog?.length && (
+                <section>
+                  <h4 className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">
+                    <Link2 className="w-3 h-3" /> 保管紀錄
+                  </h4>
+                  <ol className="space-y-2">
+                    {activeSession.custodyLog.map(entry => (
+                      <li key={entry.seq} className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+                        <div className="flex items-center gap-2 text-[10px] font-black text-slate-500">
+                          <span className="px-1.5 py-0.5 bg-slate-900 text-white rounded">{CUSTODY_ACTION_LABELS[entry.action]}</span>
+                          <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                        </div>
+                        <p className="mt-1 text-xs text-slate-700 font-medium">{entry.detail}</p>
+                        <p className="mt-1 text-[9px] font-mono text-slate-400 break-all">{entry.hash}</p>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showParticipants && activeSession && (
+        <ParticipantsPanel
+          profiles={participantProfiles}
+          messages={activeSession.messages}
+          onSave={saveParticipantProfiles}
+          onClose={() => setShowParticipants(false)}
+        />
+      )}
+
+      {redactionTarget && (redactionTarget === 'case' || activeSession) && (
+        <RedactionPreview
+          messages={redactionTarget === 'case' ? caseMessages : activeSession!.messages}
+          profiles={redactionTarget === 'case' ? caseProfiles : participantProfiles}
+          isRemote={isRemoteProvider(aiSettings)}
+          onConfirm={confirmRedaction}
+          onClose={() => setRedactionTarget(null)}
+        />
+      )}
+
+      {showAiSettings && (
+        <AiSettingsPanel
+          settings={aiSettings}
+          onSave={(settings) => {
+            setAiSettings(settings);
+            saveAiSettings(settings);
+            setShowAiSettings(false);
+          }}
+          onClose={() => setShowAiSettings(false)}
+        />
+      )}
+
+      {showMetrics && activeSession && isActiveLoaded && (
+        <MetricsDashboard
+          title={activeSession.fileName.replace('.txt', '')}
+          messages={activeSession.messages}
+          profiles={participantProfiles}
+          tagRules={tagRules}
+          onJump={jumpToMessage}
+          onClose={() => setShowMetrics(false)}
+        />
+      )}
+
+      {showLedger && activeSession && isActiveLoaded && (
+        <LedgerView
+          title={activeSession.fileName.replace('.txt', '')}
+          messages={activeSession.messages}
+          profiles={participantProfiles}
+          onJump={jumpToMessage}
+          onExportCsv={exportLedgerCsv}
+          onClose={() => setShowLedger(false)}
+        />
+      )}
+
+      {showSchedule && activeSession && isActiveLoaded && (
+        <ScheduleView
+          title={activeSession.fileName.replace('.txt', '')}
+          messages={activeSession.messages}
+          profiles={participantProfiles}
+          onJump={jumpToMessage}
+          onExportIcs={exportScheduleIcs}
+          onClose={() => setShowSchedule(false)}
+        />
+      )}
+
+      {showTagEditor && (
+        <TagRulesEditor
+          rules={tagRules}
+          messages={isActiveLoaded && activeSession ? activeSession.messages : []}
+          onSave={saveTagRuleSet}
+          onClose={() => setShowTagEditor(false)}
+        />
+      )}
+
+      {importProgress && (
+        <div className="fixed bottom-6 right-6 z-50 w-80 bg-white border border-slate-200 rounded-2xl shadow-xl p-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 border-2 border-slate-200 border-t-emerald-500 rounded-full animate-spin" />
+            <span className="text-xs font-black text-slate-700 truncate">匯入「{importProgress.fileName}」</span>
+          </div>
+          <div className="flex items-center justify-between text-[10px] font-bold text-slate-400">
+            <span>{IMPORT_STAGE_LABELS[importProgress.progress.stage]}</span>
+            {importProgress.progress.total > 0 && (
+              <span>{importProgress.progress.done.toLocaleString()} / {importProgress.progress.total.toLocaleString()} 則</span>
+            )}
+          </div>
+          <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full bg-emerald-500 transition-all ${importProgress.progress.total > 0 ? '' : 'animate-pulse'}`}
+              style={{ width: `${importProgress.progress.total > 0 ? (importProgress.progress.done / importProgress.progress.total) * 100 : 100}%` }}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
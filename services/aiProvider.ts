@@ -0,0 +1,195 @@
+import { GoogleGenAI } from '@google/genai';
+import { AiProviderKind, AiSettings } from '../types';
+import { JsonSchema, assertSchema } from './schema';
+
+// --- AI providers ---
+//
+// 分析流程只透過 AiProvider 取得結構化 JSON，不直接依賴特定服務。
+// 雲端 Gemini 與本機 OpenAI 相容伺服器（Ollama、llama.cpp 等）共用同一份 schema，
+// 回傳內容一律經 assertSchema 驗證後才交給後續流程。
+
+const STORAGE_KEY = 'line_intel_pro_ai_settings';
+// 金鑰與其他設定分開存放；未選擇記住時存於 sessionStorage，關閉分頁即清除
+const API_KEY_STORAGE_KEY = 'line_intel_pro_ai_api_key';
+
+export const AI_PROVIDER_LABELS: Record<AiProviderKind, string> = {
+  gemini: 'Google Gemini（雲端）',
+  openai: 'OpenAI 相容端點（Ollama / llama.cpp）',
+};
+
+export const DEFAULT_MODELS: Record<AiProviderKind, string> = {
+  gemini: 'gemini-3-pro-preview',
+  openai: 'qwen2.5:14b',
+};
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: DEFAULT_MODELS.gemini,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: '',
+  rememberApiKey: false,
+};
+
+export interface StructuredRequest {
+  prompt: string;
+  schemaName: string;
+  schema: JsonSchema;
+  signal: AbortSignal;
+}
+
+export interface AiProvider {
+  label: string; // 記入保管紀錄，例如「Gemini · gemini-3-pro-preview」
+  isRemote: boolean; // 資料是否會離開本機
+  generate: <T>(request: StructuredRequest) => Promise<T>;
+}
+
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return { ...DEFAULT_AI_SETTINGS, apiKey: sessionStorage.getItem(API_KEY_STORAGE_KEY) || '' };
+    const { apiKey: legacyKey, ...rest } = JSON.parse(saved);
+    const settings: AiSettings = { ...DEFAULT_AI_SETTINGS, ...rest };
+    const store = settings.rememberApiKey ? localStorage : sessionStorage;
+    settings.apiKey = store.getItem(API_KEY_STORAGE_KEY) || '';
+    // 舊版與其他設定一起明文存放的金鑰，移到本次分頁內
+    if (typeof legacyKey === 'string') {
+      if (!settings.apiKey) settings.apiKey = legacyKey;
+      saveAiSettings(settings);
+    }
+    return settings;
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  const { apiKey, ...rest } = settings;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rest));
+  const [keep, clear] = settings.rememberApiKey ? [localStorage, sessionStorage] : [sessionStorage, localStorage];
+  clear.removeItem(API_KEY_STORAGE_KEY);
+  if (apiKey) keep.setItem(API_KEY_STORAGE_KEY, apiKey);
+  else keep.removeItem(API_KEY_STORAGE_KEY);
+};
+
+// 未另行輸入金鑰時沿用建置時注入的 GEMINI_API_KEY
+const geminiKey = (settings: AiSettings) => settings.apiKey || process.env.API_KEY || '';
+
+const isLocalEndpoint = (endpoint: string) => {
+  try {
+    const { hostname } = new URL(endpoint);
+    return ['localhost', '127.0.0.1', '::1', '[::1]'].includes(hostname);
+  } catch {
+    return false;
+  }
+};
+
+export const isRemoteProvider = (settings: AiSettings) =>
+  settings.provider === 'gemini' || !isLocalEndpoint(settings.endpoint);
+
+/**
+ * 設定不完整時回傳原因，可用時回傳 null。
+ */
+export const describeSettingsProblem = (settings: AiSettings): string | null => {
+  if (!settings.model.trim()) return '尚未指定模型名稱';
+  if (settings.provider === 'gemini') return geminiKey(settings) ? null : '尚未設定 Gemini API 金鑰';
+  try {
+    new URL(settings.endpoint);
+    return null;
+  } catch {
+    return '端點網址格式不正確';
+  }
+};
+
+// 部分本機模型會把 JSON 包在 Markdown 程式碼區塊中
+const parseJson = (text: string): unknown => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    throw new Error(`AI 回傳的內容不是有效的 JSON：${trimmed.slice(0, 80)}`);
+  }
+};
+
+const createGeminiProvider = (settings: AiSettings): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey: geminiKey(settings) });
+  return {
+    label: `Gemini · ${settings.model}`,
+    isRemote: true,
+    generate: async <T>({ prompt, schema, signal }: StructuredRequest) => {
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: schema,
+          abortSignal: signal,
+        }
+      });
+      return assertSchema<T>(parseJson(response.text || '{}'), schema);
+    },
+  };
+};
+
+const endpointUrl = (settings: AiSettings, path: string) => `${settings.endpoint.replace(/\/+$/, '')}${path}`;
+
+const authHeaders = (settings: AiSettings): Record<string, string> =>
+  settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+const createOpenAiProvider = (settings: AiSettings): AiProvider => ({
+  label: `${new URL(settings.endpoint).host} · ${settings.model}`,
+  isRemote: isRemoteProvider(settings),
+  generate: async <T>({ prompt, schemaName, schema, signal }: StructuredRequest) => {
+    const response = await fetch(endpointUrl(settings, '/chat/completions'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders(settings) },
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: 0.2,
+        messages: [
+          // 不支援 json_schema 的伺服器仍可依提示輸出相同結構
+          { role: 'system', content: `只輸出符合下列 JSON Schema 的 JSON，不要加入其他文字：\n${JSON.stringify(schema)}` },
+          { role: 'user', content: prompt },
+        ],
+        response_format: { type: 'json_schema', json_schema: { name: schemaName, schema } },
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`AI 端點回應 ${response.status}：${detail.slice(0, 200)}`);
+    }
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('AI 端點回傳格式不符合 OpenAI chat completions。');
+    return assertSchema<T>(parseJson(content), schema);
+  },
+});
+
+export const createAiProvider = (settings: AiSettings): AiProvider =>
+  settings.provider === 'gemini' ? createGeminiProvider(settings) : createOpenAiProvider(settings);
+
+/**
+ * 取得 OpenAI 相容端點上可用的模型（GET /models），用於設定畫面與連線測試。
+ */
+export const listModels = async (settings: AiSettings): Promise<string[]> => {
+  const response = await fetch(endpointUrl(settings, '/models'), { headers: authHeaders(settings) });
+  if (!response.ok) throw new Error(`AI 端點回應 ${response.status}`);
+  const data = await response.json();
+  return Array.isArray(data?.data) ? data.data.map((m: { id: string }) => m.id).filter(Boolean) : [];
+};
+
+const PING_SCHEMA: JsonSchema = { type: 'object', properties: { ok: { type: 'boolean' } }, required: ['ok'] };
+
+/**
+ * 以極短的結構化請求確認設定可用，失敗時丟出錯誤。
+ */
+export const testConnection = async (settings: AiSettings, signal: AbortSignal) => {
+  const problem = describeSettingsProblem(settings);
+  if (problem) throw new Error(problem);
+  await createAiProvider(settings).generate({
+    prompt: '請回傳 {"ok": true}',
+    schemaName: 'ping',
+    schema: PING_SCHEMA,
+    signal,
+  });
+};
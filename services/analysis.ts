@@ -0,0 +1,391 @@
+import { AnalysisChunk, AnalysisJob, AnalysisResult, CaseEvent, ChatMessage, Commitment, ParticipantProfile, RedactionEntry } from '../types';
+import { buildParticipantIndex, describeRoster, describeSpeaker } from './participants';
+import { AiProvider } from './aiProvider';
+import { JsonSchema } from './schema';
+import { createRedactor, redactMessages, redactProfiles, restoreAnalysis } from './redaction';
+import { normalizePromisedDate } from './commitments';
+import { ANALYSIS_SCHEMA_VERSION } from './migrations';
+import { bigrams, normalize } from './verification';
+
+// --- Chunked map-reduce analysis ---
+//
+// 對話依日期切成多段分別分析 (map)，再合併去重為單一 AnalysisResult (reduce)。
+// 每段結果都寫回 AnalysisJob，中斷或失敗後可從未完成的段落接續。
+// job 帶有遮蔽對照表時，送出的內容一律先遮蔽個資，彙整完成後才還原。
+
+const MAX_CHUNK_CHARS = 60000;
+
+const RISK_ORDER: Record<CaseEvent['riskLevel'], number> = { '低': 0, '中': 1, '高': 2 };
+
+const formatMessage = (m: ChatMessage, speaker = m.sender) => `[ID: ${m.id}][${m.datetime}] ${speaker}: ${m.content}`;
+
+const EVENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    summary: { type: 'string' },
+    riskLevel: { type: 'string', enum: ['低', '中', '高'] },
+    riskAssessment: { type: 'string' },
+    remarks: { type: 'string' },
+    dateRange: { type: 'string' },
+    relatedMessageIds: { type: 'array', items: { type: 'string' } },
+    familyExcerpts: { type: 'array', items: { type: 'string' } },
+    staffExcerpts: { type: 'array', items: { type: 'string' } }
+  },
+  required: ["title", "summary", "riskLevel", "riskAssessment", "remarks", "dateRange", "relatedMessageIds", "familyExcerpts", "staffExcerpts"]
+};
+
+const COMMITMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    owner: { type: 'string' },
+    promisedDate: { type: 'string' },
+    sourceMessageId: { type: 'string' }
+  },
+  required: ["description", "owner", "promisedDate", "sourceMessageId"]
+};
+
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    sentiment: { type: 'string' },
+    topics: { type: 'array', items: { type: 'string' } },
+    relationshipDynamic: { type: 'string' },
+    events: { type: 'array', items: EVENT_SCHEMA },
+    commitments: { type: 'array', items: COMMITMENT_SCHEMA },
+    statistics: {
+      type: 'object',
+      properties: {
+        paymentCount: { type: 'number' },
+        serviceCount: { type: 'number' },
+        scheduleCount: { type: 'number' },
+        issueCount: { type: 'number' }
+      }
+    }
+  },
+  required: ["summary", "sentiment", "events", "statistics"]
+};
+
+const OVERVIEW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    sentiment: { type: 'string' },
+    topics: { type: 'array', items: { type: 'string' } },
+    relationshipDynamic: { type: 'string' }
+  },
+  required: ["summary", "sentiment", "topics", "relationshipDynamic"]
+};
+
+// --- Chunking ---
+
+/**
+ * 以日期為邊界切段；單日訊息超過上限時才在日內再切。
+ */
+export const buildChunks = (messages: ChatMessage[], maxChars = MAX_CHUNK_CHARS): ChatMessage[][] => {
+  const chunks: ChatMessage[][] = [];
+  let current: ChatMessage[] = [];
+  let currentSize = 0;
+
+  const days: ChatMessage[][] = [];
+  messages.forEach(m => {
+    const lastDay = days[days.length - 1];
+    if (lastDay && lastDay[0].date === m.date) lastDay.push(m);
+    else days.push([m]);
+  });
+
+  const flush = () => {
+    if (current.length > 0) chunks.push(current);
+    current = [];
+    currentSize = 0;
+  };
+
+  days.forEach(day => {
+    const daySize = day.reduce((sum, m) => sum + formatMessage(m).length + 1, 0);
+    if (currentSize + daySize > maxChars) flush();
+    if (daySize <= maxChars) {
+      current.push(...day);
+      currentSize += daySize;
+      return;
+    }
+    day.forEach(m => {
+      const size = formatMessage(m).length + 1;
+      if (currentSize + size > maxChars) flush();
+      current.push(m);
+      currentSize += size;
+    });
+  });
+  flush();
+  return chunks;
+};
+
+export const createAnalysisJob = (messages: ChatMessage[], redaction?: RedactionEntry[]): AnalysisJob => ({
+  startedAt: Date.now(),
+  chunks: buildChunks(messages).map((msgs, index) => ({
+    index,
+    startDate: msgs[0].date,
+    endDate: msgs[msgs.length - 1].date,
+    firstMessageId: msgs[0].id,
+    lastMessageId: msgs[msgs.length - 1].id,
+    messageCount: msgs.length,
+    status: 'pending',
+  })),
+  redaction,
+});
+
+/**
+ * 既有的 job 只有在切段結果與目前訊息完全一致時才可接續。
+ */
+export const canResumeJob = (job: AnalysisJob, messages: ChatMessage[]) => {
+  const fresh = createAnalysisJob(messages);
+  return fresh.chunks.length === job.chunks.length && fresh.chunks.every((c, i) =>
+    c.firstMessageId === job.chunks[i].firstMessageId &&
+    c.lastMessageId === job.chunks[i].lastMessageId &&
+    c.messageCount === job.chunks[i].messageCount
+  );
+};
+
+const chunkMessages = (chunk: AnalysisChunk, messages: ChatMessage[]) => {
+  const start = messages.findIndex(m => m.id === chunk.firstMessageId);
+  return messages.slice(start, start + chunk.messageCount);
+};
+
+// --- Map ---
+
+const buildChunkPrompt = (
+  chunk: AnalysisChunk,
+  total: number,
+  messages: ChatMessage[],
+  participants: ParticipantProfile[],
+  redacted: boolean
+) => {
+  const index = buildParticipantIndex(participants);
+  const chatContext = messages.map(m => formatMessage(m, describeSpeaker(index, m.sender))).join('\n');
+  const roster = participants.length > 0
+    ? `\n    參與者角色（家屬說過的話與單位說過的話請依此分組）：\n${describeRoster(participants)}\n`
+    : '';
+  const redactionNote = redacted
+    ? `\n    對話中的 [家屬1]、[電話1] 等方括號代稱為隱私遮蔽，引用或摘錄時請保留代稱原樣，不要猜測原文。\n`
+    : '';
+
+  return `你是一位資深的居家長照證據保全分析專家。請分析以下 LINE 對話紀錄。
+    這是完整對話的第 ${chunk.index + 1}/${total} 段（${chunk.startDate} 至 ${chunk.endDate}），請只根據本段內容分析。
+    你的任務是將對話整理成「獨立事件 (Events/Cases)」，一個事件可能跨越數天。
+${roster}${redactionNote}
+    對每個事件，請提供：
+    1. 事件標題 (Title)
+    2. 事件摘要 (Summary)
+    3. 風險評估 (Risk Level: 低/中/高)
+    4. 風險具體說明 (Risk Assessment)
+    5. 備註 (Remarks) - 長照留證據所需的專業註解
+    6. 日期範圍 (Date Range) - 以 YYYY/MM/DD ~ YYYY/MM/DD 表示，單日事件只寫一個日期
+    7. 相關對話段 ID (Related Message IDs) - 必須是 context 中標註的 ID
+    8. 家屬說過的話 (Family Excerpts) - 摘錄家屬或案主具備關鍵性、代表性的原文摘要。
+    9. 單位說過的話 (Staff Excerpts) - 摘錄機構同仁、督導或主任的回應或承諾原文摘要。
+
+    另請列出本段中單位人員做出的具體承諾 (Commitments)，例如「下週會安排替代居服員」、「明天回電」：
+    - description：承諾內容
+    - owner：做出承諾的人（發送者名稱）
+    - promisedDate：承諾完成的日期，依該訊息日期換算為 YYYY/MM/DD（「明天」「下週」等相對說法亦請換算）；未約定期限則為空字串
+    - sourceMessageId：做出承諾的訊息 ID
+
+    對話紀錄：
+    ${chatContext}`;
+};
+
+const analyzeChunk = (provider: AiProvider, prompt: string, signal: AbortSignal) =>
+  provider.generate<AnalysisResult>({ prompt, schemaName: 'chunk_analysis', schema: ANALYSIS_SCHEMA, signal });
+
+// job 帶有遮蔽對照表時，送出的訊息與參與者一律先遮蔽
+const prepareInput = (messages: ChatMessage[], job: AnalysisJob, participants: ParticipantProfile[]) => {
+  if (!job.redaction) return { messages, participants };
+  const redactor = createRedactor(job.redaction);
+  return { messages: redactMessages(messages, redactor), participants: redactProfiles(participants, redactor) };
+};
+
+/**
+ * 產生各段實際送出的提示內容，供送出前預覽。
+ */
+export const buildAnalysisPrompts = (messages: ChatMessage[], job: AnalysisJob, participants: ParticipantProfile[] = []) => {
+  const input = prepareInput(messages, job, participants);
+  return job.chunks.map(chunk =>
+    buildChunkPrompt(chunk, job.chunks.length, chunkMessages(chunk, input.messages), input.participants, !!job.redaction)
+  );
+};
+
+// --- Reduce ---
+
+const titleSimilarity = (a: string, b: string) => {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (na === nb) return 1;
+  const ba = bigrams(na);
+  const bb = bigrams(nb);
+  if (ba.size === 0 || bb.size === 0) return 0;
+  let shared = 0;
+  ba.forEach(g => { if (bb.has(g)) shared++; });
+  return shared / (ba.size + bb.size - shared);
+};
+
+const isSameEvent = (a: CaseEvent, b: CaseEvent) => {
+  const similarity = titleSimilarity(a.title, b.title);
+  const sharesMessages = a.relatedMessageIds?.some(id => b.relatedMessageIds?.includes(id));
+  return similarity >= 0.6 || (!!sharesMessages && similarity >= 0.3);
+};
+
+const unique = (items: string[] = []) => Array.from(new Set(items));
+
+const mergeEvents = (a: CaseEvent, b: CaseEvent): CaseEvent => ({
+  ...a,
+  summary: a.summary === b.summary ? a.summary : `${a.summary}\n${b.summary}`,
+  riskLevel: RISK_ORDER[b.riskLevel] > RISK_ORDER[a.riskLevel] ? b.riskLevel : a.riskLevel,
+  riskAssessment: a.riskAssessment === b.riskAssessment ? a.riskAssessment : `${a.riskAssessment}\n${b.riskAssessment}`,
+  remarks: a.remarks === b.remarks ? a.remarks : `${a.remarks}\n${b.remarks}`,
+  dateRange: a.dateRange === b.dateRange ? a.dateRange : `${a.dateRange}；${b.dateRange}`,
+  relatedMessageIds: unique([...(a.relatedMessageIds || []), ...(b.relatedMessageIds || [])]),
+  familyExcerpts: unique([...(a.familyExcerpts || []), ...(b.familyExcerpts || [])]),
+  staffExcerpts: unique([...(a.staffExcerpts || []), ...(b.staffExcerpts || [])]),
+});
+
+/**
+ * 合併各段事件：標題高度相似（或訊息重疊且標題相近）者視為跨段的同一事件。
+ * 同一段內的事件由模型自行區分，不互相合併。
+ */
+export const mergeChunkEvents = (results: AnalysisResult[]): CaseEvent[] => {
+  const merged: CaseEvent[] = [];
+  results.forEach(r => {
+    const previousCount = merged.length;
+    (r.events || []).forEach(event => {
+      const existing = merged.slice(0, previousCount).findIndex(e => isSameEvent(e, event));
+      if (existing >= 0) merged[existing] = mergeEvents(merged[existing], event);
+      else merged.push(event);
+    });
+  });
+  return merged.map((e, i) => ({ ...e, id: `evt-${i + 1}` }));
+};
+
+type ChunkCommitment = Pick<Commitment, 'description' | 'owner' | 'promisedDate' | 'sourceMessageId'>;
+
+/**
+ * 合併各段的承諾，同一則訊息中同一人的承諾只保留一筆；履行狀況之後由 trackCommitments 判定。
+ */
+export const mergeChunkCommitments = (results: AnalysisResult[]): Commitment[] => {
+  const seen = new Set<string>();
+  const merged: ChunkCommitment[] = [];
+  results.forEach(r => {
+    ((r.commitments || []) as ChunkCommitment[]).forEach(c => {
+      const key = `${c.sourceMessageId}\u0000${c.owner}\u0000${normalize(c.description)}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      merged.push(c);
+    });
+  });
+  return merged.map((c, i) => ({
+    id: `cmt-${i + 1}`,
+    description: c.description,
+    owner: c.owner,
+    promisedDate: normalizePromisedDate(c.promisedDate),
+    sourceMessageId: c.sourceMessageId,
+    status: 'unknown',
+    statusNote: '',
+    evidenceMessageIds: [],
+  }));
+};
+
+const summarizeChunks = (
+  provider: AiProvider,
+  results: AnalysisResult[],
+  events: CaseEvent[],
+  signal: AbortSignal
+): Promise<Pick<AnalysisResult, 'summary' | 'sentiment' | 'topics' | 'relationshipDynamic'>> => {
+  const chunkSummaries = results.map((r, i) => `第 ${i + 1} 段：${r.summary}（情緒：${r.sentiment}）`).join('\n');
+  const eventList = events.map(e => `- [${e.riskLevel}] ${e.title}（${e.dateRange}）`).join('\n');
+
+  return provider.generate({
+    prompt: `你是一位資深的居家長照證據保全分析專家。以下是同一段 LINE 對話依時間分段分析後的摘要與事件清單。
+    請綜合整段對話，提供整體摘要、情緒基調、主要議題與雙方互動關係。
+
+    分段摘要：
+    ${chunkSummaries}
+
+    事件清單：
+    ${eventList}`,
+    schemaName: 'overview',
+    schema: OVERVIEW_SCHEMA,
+    signal,
+  });
+};
+
+const sumStatistics = (results: AnalysisResult[]): AnalysisResult['statistics'] =>
+  results.reduce((acc, r) => ({
+    paymentCount: acc.paymentCount + (r.statistics?.paymentCount || 0),
+    serviceCount: acc.serviceCount + (r.statistics?.serviceCount || 0),
+    scheduleCount: acc.scheduleCount + (r.statistics?.scheduleCount || 0),
+    issueCount: acc.issueCount + (r.statistics?.issueCount || 0),
+  }), { paymentCount: 0, serviceCount: 0, scheduleCount: 0, issueCount: 0 });
+
+// --- Runner ---
+
+interface RunOptions {
+  signal: AbortSignal;
+  onProgress: (job: AnalysisJob) => void;
+  participants?: ParticipantProfile[];
+}
+
+/**
+ * 依序分析尚未完成的段落，每段完成或失敗都會回報進度。
+ * 任一段失敗時丟出錯誤，已完成的段落保留在 job 中供接續。
+ */
+export const runAnalysisJob = async (
+  provider: AiProvider,
+  messages: ChatMessage[],
+  initialJob: AnalysisJob,
+  { signal, onProgress, participants = [] }: RunOptions
+): Promise<AnalysisResult> => {
+  let job: AnalysisJob = {
+    ...initialJob,
+    chunks: initialJob.chunks.map(c => c.status === 'done' ? c : { ...c, status: 'pending', error: undefined }),
+  };
+  const setChunk = (index: number, patch: Partial<AnalysisChunk>) => {
+    job = { ...job, chunks: job.chunks.map(c => c.index === index ? { ...c, ...patch } : c) };
+    onProgress(job);
+  };
+  const prompts = buildAnalysisPrompts(messages, job, participants);
+
+  for (const chunk of job.chunks) {
+    if (chunk.status === 'done') continue;
+    signal.throwIfAborted();
+    setChunk(chunk.index, { status: 'running' });
+    try {
+      const result = await analyzeChunk(provider, prompts[chunk.index], signal);
+      setChunk(chunk.index, { status: 'done', result });
+    } catch (error) {
+      setChunk(chunk.index, signal.aborted
+        ? { status: 'pending' }
+        : { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  const results = job.chunks.map(c => c.result!);
+  const events = mergeChunkEvents(results);
+  const overview = results.length === 1
+    ? results[0]
+    : await summarizeChunks(provider, results, events, signal);
+
+  const analysis: AnalysisResult = {
+    schemaVersion: ANALYSIS_SCHEMA_VERSION,
+    summary: overview.summary,
+    sentiment: overview.sentiment,
+    topics: overview.topics || [],
+    relationshipDynamic: overview.relationshipDynamic || '',
+    events,
+    statistics: sumStatistics(results),
+    commitments: mergeChunkCommitments(results),
+  };
+  // 各段結果保持遮蔽狀態存於 job，彙整後才換回原文
+  return job.redaction ? restoreAnalysis(analysis, createRedactor(job.redaction)) : analysis;
+};
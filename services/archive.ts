@@ -0,0 +1,473 @@
+import { ChatSession } from '../types';
+import { JsonSchema, validateSchema } from './schema';
+import { SESSION_SCHEMA_VERSION } from './migrations';
+import { MESSAGE_KINDS } from './messageKinds';
+import { PARTICIPANT_ROLES } from './participants';
+import { isValidTimeZone } from './datetime';
+import { parseClockTime } from './lineParser';
+
+// --- JSON archive validation ---
+//
+// 匯入的封存可能來自舊版程式、較新版程式或經人工編輯。先補齊舊版格式缺少的欄位，
+// 再以結構定義逐欄檢查並列出可讀的錯誤位置，通過後才交給完整性驗證與資料遷移，
+// 避免格式不符的檔案在畫面上造成錯誤。
+
+const MAX_REPORTED_ERRORS = 8;
+
+const STRING_ARRAY: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const MESSAGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'date', 'time', 'datetime', 'sender', 'content', 'isSystem', 'isImportant', 'tags'],
+  properties: {
+    id: { type: 'string' },
+    date: { type: 'string' },
+    time: { type: 'string' },
+    datetime: { type: 'string' },
+    timestamp: { type: 'string' },
+    sender: { type: 'string' },
+    content: { type: 'string' },
+    isSystem: { type: 'boolean' },
+    kind: { type: 'string', enum: MESSAGE_KINDS },
+    isImportant: { type: 'boolean' },
+    tags: STRING_ARRAY,
+    hash: { type: 'string' },
+    source: { type: 'integer' },
+  },
+};
+
+const EXCERPT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['text', 'match', 'score'],
+  properties: {
+    text: { type: 'string' },
+    match: { type: 'string', enum: ['exact', 'fuzzy', 'unverified'] },
+    messageId: { type: 'string' },
+    score: { type: 'number' },
+  },
+};
+
+const EVENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'title', 'summary', 'riskLevel', 'riskAssessment', 'remarks', 'dateRange', 'relatedMessageIds', 'familyExcerpts', 'staffExcerpts'],
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    summary: { type: 'string' },
+    riskLevel: { type: 'string', enum: ['低', '中', '高'] },
+    riskAssessment: { type: 'string' },
+    remarks: { type: 'string' },
+    dateRange: { type: 'string' },
+    startDate: { type: 'string' },
+    endDate: { type: 'string' },
+    relatedMessageIds: STRING_ARRAY,
+    familyExcerpts: STRING_ARRAY,
+    staffExcerpts: STRING_ARRAY,
+    verification: {
+      type: 'object',
+      required: ['invalidMessageIds', 'familyExcerpts', 'staffExcerpts'],
+      properties: {
+        invalidMessageIds: STRING_ARRAY,
+        familyExcerpts: { type: 'array', items: EXCERPT_SCHEMA },
+        staffExcerpts: { type: 'array', items: EXCERPT_SCHEMA },
+      },
+    },
+    origin: { type: 'string', enum: ['ai', 'human'] },
+  },
+};
+
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['summary', 'sentiment', 'topics', 'relationshipDynamic', 'events', 'statistics'],
+  properties: {
+    schemaVersion: { type: 'integer' },
+    summary: { type: 'string' },
+    sentiment: { type: 'string' },
+    topics: STRING_ARRAY,
+    relationshipDynamic: { type: 'string' },
+    events: { type: 'array', items: EVENT_SCHEMA },
+    statistics: {
+      type: 'object',
+      required: ['paymentCount', 'serviceCount', 'scheduleCount', 'issueCount'],
+      properties: {
+        paymentCount: { type: 'number' },
+        serviceCount: { type: 'number' },
+        scheduleCount: { type: 'number' },
+        issueCount: { type: 'number' },
+      },
+    },
+    commitments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'description', 'owner', 'promisedDate', 'sourceMessageId', 'status', 'statusNote', 'evidenceMessageIds'],
+        properties: {
+          id: { type: 'string' },
+          description: { type: 'string' },
+          owner: { type: 'string' },
+          promisedDate: { type: 'string' },
+          sourceMessageId: { type: 'string' },
+          status: { type: 'string', enum: ['kept', 'overdue', 'unknown'] },
+          statusNote: { type: 'string' },
+          evidenceMessageIds: STRING_ARRAY,
+          statusOrigin: { type: 'string', enum: ['ai', 'human'] },
+        },
+      },
+    },
+  },
+};
+
+const JOB_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['startedAt', 'chunks'],
+  properties: {
+    startedAt: { type: 'number' },
+    chunks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['index', 'startDate', 'endDate', 'firstMessageId', 'lastMessageId', 'messageCount', 'status'],
+        properties: {
+          index: { type: 'integer' },
+          startDate: { type: 'string' },
+          endDate: { type: 'string' },
+          firstMessageId: { type: 'string' },
+          lastMessageId: { type: 'string' },
+          messageCount: { type: 'integer' },
+          status: { type: 'string', enum: ['pending', 'running', 'done', 'failed'] },
+          result: ANALYSIS_SCHEMA,
+          error: { type: 'string' },
+        },
+      },
+    },
+    redaction: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['kind', 'original', 'token'],
+        properties: {
+          kind: { type: 'string', enum: ['name', 'phone', 'nationalId', 'email', 'address', 'custom'] },
+          original: { type: 'string' },
+          token: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+const QA_TURN_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'question', 'answer', 'citedMessageIds', 'invalidMessageIds', 'retrievedCount', 'provider', 'redacted', 'askedAt'],
+  properties: {
+    id: { type: 'string' },
+    question: { type: 'string' },
+    answer: { type: 'string' },
+    citedMessageIds: STRING_ARRAY,
+    invalidMessageIds: STRING_ARRAY,
+    retrievedCount: { type: 'integer' },
+    provider: { type: 'string' },
+    redacted: { type: 'boolean' },
+    askedAt: { type: 'number' },
+  },
+};
+
+// analysisHash 在沒有分析時為 null，結構定義無法表達，另於 checkSemantics 檢查
+const INTEGRITY_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['algorithm', 'generatedAt', 'messageCount', 'messagesHash', 'analysisHash', 'manifestHash'],
+  properties: {
+    algorithm: { type: 'string', enum: ['SHA-256'] },
+    generatedAt: { type: 'number' },
+    messageCount: { type: 'integer' },
+    messagesHash: { type: 'string' },
+    annotationsHash: { type: 'string' },
+    manifestHash: { type: 'string' },
+  },
+};
+
+// 人工註記以訊息 ID 為鍵，結構定義無法表達任意鍵，逐一以此檢查值
+const ANNOTATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['pinned', 'note', 'updatedAt'],
+  properties: {
+    pinned: { type: 'boolean' },
+    note: { type: 'string' },
+    updatedAt: { type: 'number' },
+  },
+};
+
+const BINARY_FIELDS: Record<string, JsonSchema> = {
+  fileName: { type: 'string' },
+  size: { type: 'integer' },
+  sha256: { type: 'string' },
+  encoding: { type: 'string', enum: ['base64'] },
+  data: { type: 'string' },
+};
+
+export const ARCHIVE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'fileName', 'timestamp', 'fileHash', 'fileSize', 'messages', 'participants'],
+  properties: {
+    id: { type: 'string' },
+    schemaVersion: { type: 'integer' },
+    fileName: { type: 'string' },
+    timestamp: { type: 'number' },
+    fileHash: { type: 'string' },
+    fileSize: { type: 'number' },
+    messages: { type: 'array', items: MESSAGE_SCHEMA },
+    participants: STRING_ARRAY,
+    participantProfiles: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'role', 'aliases'],
+        properties: { name: { type: 'string' }, role: { type: 'string', enum: PARTICIPANT_ROLES }, aliases: STRING_ARRAY },
+      },
+    },
+    dialect: { type: 'string', enum: ['zh-TW', 'en', 'ja', 'unknown'] },
+    timeZone: { type: 'string' },
+    unparsedLines: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['line', 'text', 'reason'],
+        properties: { line: { type: 'integer' }, text: { type: 'string' }, reason: { type: 'string' } },
+      },
+    },
+    analysis: ANALYSIS_SCHEMA,
+    analysisJob: JOB_SCHEMA,
+    annotations: { type: 'object' },
+    qaHistory: { type: 'array', items: QA_TURN_SCHEMA },
+    redactionSettings: {
+      type: 'object',
+      required: ['enabled', 'customTerms'],
+      properties: { enabled: { type: 'boolean' }, customTerms: STRING_ARRAY },
+    },
+    sources: {
+      type: 'array',
+      items: { type: 'object', required: Object.keys(BINARY_FIELDS), properties: BINARY_FIELDS },
+    },
+    attachments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'mimeType', 'kind', ...Object.keys(BINARY_FIELDS)],
+        properties: {
+          ...BINARY_FIELDS,
+          id: { type: 'string' },
+          mimeType: { type: 'string' },
+          kind: { type: 'string', enum: ['photo', 'video', 'voice', 'file'] },
+          messageId: { type: 'string' },
+        },
+      },
+    },
+    exportDiffs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['messageId', 'kind', 'sourceFileName', 'detectedAt'],
+        properties: {
+          messageId: { type: 'string' },
+          kind: { type: 'string', enum: ['unsent', 'changed', 'missing'] },
+          sourceFileName: { type: 'string' },
+          laterContent: { type: 'string' },
+          detectedAt: { type: 'number' },
+        },
+      },
+    },
+    custodyLog: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['seq', 'action', 'timestamp', 'detail', 'manifestHash', 'prevHash', 'hash'],
+        properties: {
+          seq: { type: 'integer' },
+          action: { type: 'string', enum: ['import', 'analysis', 'edit', 'export'] },
+          timestamp: { type: 'number' },
+          detail: { type: 'string' },
+          manifestHash: { type: 'string' },
+          prevHash: { type: 'string' },
+          hash: { type: 'string' },
+        },
+      },
+    },
+    integrity: INTEGRITY_SCHEMA,
+  },
+};
+
+export interface ArchiveEntry {
+  label: string; // 檔名，檔案內含多個封存時加上序號
+  session?: ChatSession; // 通過檢查者才有
+  errors: string[];
+}
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// 回傳補上預設值的副本，不修改傳入的物件；預設值為 undefined 者不補
+const withDefaults = (record: JsonRecord, defaults: JsonRecord): JsonRecord => {
+  const next = { ...record };
+  Object.keys(defaults).forEach(key => {
+    if (next[key] === undefined && defaults[key] !== undefined) next[key] = defaults[key];
+  });
+  return next;
+};
+
+// 陣列中的物件逐一補上預設值，非物件的項目原樣保留交由結構檢查
+const mapRecords = (value: unknown, fill: (record: JsonRecord) => JsonRecord) =>
+  Array.isArray(value) ? value.map(item => isRecord(item) ? fill(item) : item) : value;
+
+const normalizeAnalysis = (analysis: unknown): unknown => {
+  if (!isRecord(analysis)) return analysis;
+  const filled = withDefaults(analysis, {
+    topics: [],
+    relationshipDynamic: '',
+    events: [],
+    statistics: { paymentCount: 0, serviceCount: 0, scheduleCount: 0, issueCount: 0 },
+  });
+  return {
+    ...filled,
+    commitments: mapRecords(filled.commitments, c => withDefaults(c, { statusNote: '' })),
+    events: mapRecords(filled.events, e => withDefaults(e, {
+      riskAssessment: '',
+      remarks: '',
+      relatedMessageIds: [],
+      familyExcerpts: [],
+      staffExcerpts: [],
+    })),
+  };
+};
+
+/**
+ * 補齊 v2.6 以前的封存格式缺少、但可由其他欄位推得的欄位；其餘欄位維持原狀交由結構檢查。
+ * 回傳正規化後的副本，解析出的原始資料不變。
+ */
+const normalizeLegacyShape = (raw: JsonRecord): JsonRecord => {
+  const messages = mapRecords(raw.messages, m => withDefaults(m, {
+    datetime: typeof m.date === 'string' && typeof m.time === 'string' ? `${m.date} ${m.time}` : undefined,
+    isSystem: typeof m.sender === 'string' ? !m.sender : undefined,
+    isImportant: false,
+    tags: [],
+  }));
+  const senders = Array.isArray(messages) ? messages.filter(isRecord).map(m => m.sender) : [];
+  const normalized = withDefaults({ ...raw, messages }, {
+    participants: Array.from(new Set(senders.filter(s => typeof s === 'string' && s))),
+    fileSize: 0,
+    fileHash: '',
+  });
+  if (raw.analysis !== undefined) normalized.analysis = normalizeAnalysis(raw.analysis);
+  const job = raw.analysisJob;
+  if (isRecord(job)) {
+    normalized.analysisJob = { ...job, chunks: mapRecords(job.chunks, c => ({ ...c, result: normalizeAnalysis(c.result) })) };
+  }
+  return normalized;
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  messages: '訊息',
+  events: '事件',
+  commitments: '承諾',
+  sources: '原始檔',
+  attachments: '附件',
+  custodyLog: '保管紀錄',
+  participantProfiles: '參與者設定',
+  analysis: '分析',
+  analysisJob: '分段分析',
+  chunks: '分段',
+  qaHistory: '提問紀錄',
+  redactionSettings: '遮蔽設定',
+  exportDiffs: '匯出差異',
+  unparsedLines: '未解析行',
+  annotations: '人工註記',
+  dialect: '匯出介面語言',
+  integrity: '完整性資訊',
+};
+
+// 「$.messages[12].content」→「訊息第 13 筆 › content」
+const describePath = (path: string) =>
+  path
+    .replace(/^\$\.?/, '')
+    .split('.')
+    .filter(Boolean)
+    .map(part => {
+      const m = part.match(/^(\w+)\[(\d+)\]$/);
+      if (m) return `${FIELD_LABELS[m[1]] ?? m[1]}第 ${Number(m[2]) + 1} 筆`;
+      return FIELD_LABELS[part] ?? part;
+    })
+    .join(' › ') || '封存根層級';
+
+// prefix 為 issue 所在位置的上層說明，例如「人工註記「m1」」
+const humanize = (issue: string, prefix = '') => {
+  const space = issue.indexOf(' ');
+  const path = issue.slice(0, space);
+  const where = prefix && path === '$' ? prefix : [prefix, describePath(path)].filter(Boolean).join(' › ');
+  return `${where}：${issue.slice(space + 1)}`;
+};
+
+// 結構定義無法表達的檢查
+const checkSemantics = (session: ChatSession): string[] => {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const [i, m] of session.messages.entries()) {
+    if (seen.has(m.id)) errors.push(`訊息第 ${i + 1} 筆：ID「${m.id}」重複`);
+    seen.add(m.id);
+    if (!/^\d{4}\/\d{2}\/\d{2}$/.test(m.date)) errors.push(`訊息第 ${i + 1} 筆：日期「${m.date}」不是 YYYY/MM/DD 格式`);
+    if (!parseClockTime(m.time)) errors.push(`訊息第 ${i + 1} 筆：時間「${m.time}」無法辨識`);
+    if (errors.length > MAX_REPORTED_ERRORS) break;
+  }
+  if (session.timeZone && !isValidTimeZone(session.timeZone)) errors.push(`時區「${session.timeZone}」無法辨識`);
+  const analysisHash: unknown = session.integrity?.analysisHash;
+  if (session.integrity && analysisHash !== null && typeof analysisHash !== 'string') {
+    errors.push('完整性資訊 › analysisHash：應為字串或 null');
+  }
+  const annotations: Record<string, unknown> = session.annotations || {};
+  Object.keys(annotations).forEach(id => {
+    validateSchema(annotations[id], ANNOTATION_SCHEMA)
+      .forEach(issue => errors.push(humanize(issue, `人工註記「${id}」`)));
+  });
+  // 保管紀錄須由 0 起連號，雜湊鏈驗證與後續附加都依此順序
+  const outOfOrder = (session.custodyLog || []).findIndex((entry, i) => entry.seq !== i);
+  if (outOfOrder !== -1) errors.push(`保管紀錄第 ${outOfOrder + 1} 筆：序號應為 ${outOfOrder}，實際為 ${session.custodyLog![outOfOrder].seq}`);
+  return errors;
+};
+
+const checkEntry = (raw: unknown, label: string): ArchiveEntry => {
+  if (!isRecord(raw)) return { label, errors: ['內容不是封存物件'] };
+
+  const version = raw.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { label, errors: [`結構版本「${String(version)}」無法辨識`] };
+  }
+  if (version > SESSION_SCHEMA_VERSION) {
+    return { label, errors: [`封存由較新版本的程式產生（結構第 ${version} 版，目前支援至第 ${SESSION_SCHEMA_VERSION} 版），請更新後再匯入`] };
+  }
+
+  const normalized = normalizeLegacyShape(raw);
+  const issues = validateSchema(normalized, ARCHIVE_SCHEMA).map(issue => humanize(issue));
+  const errors = issues.length > 0 ? issues : checkSemantics(normalized as unknown as ChatSession);
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const rest = errors.length - MAX_REPORTED_ERRORS;
+    return { label, errors: [...errors.slice(0, MAX_REPORTED_ERRORS), `另有 ${rest} 處不符`] };
+  }
+  return errors.length > 0 ? { label, errors } : { label, session: normalized as unknown as ChatSession, errors: [] };
+};
+
+/**
+ * 解析 JSON 封存檔。檔案可為單一封存，或多個封存組成的陣列（例如舊版瀏覽器資料的備份），
+ * 各封存分別檢查，互不影響。
+ */
+export const parseArchiveFile = (fileName: string, text: string): ArchiveEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return [{ label: fileName, errors: [`不是有效的 JSON：${err instanceof Error ? err.message : String(err)}`] }];
+  }
+  if (Array.isArray(data)) {
+    if (data.length === 0) return [{ label: fileName, errors: ['檔案中沒有任何封存'] }];
+    return data.map((raw, i) => checkEntry(raw, `${fileName} 第 ${i + 1} 筆`));
+  }
+  return [checkEntry(data, fileName)];
+};
@@ -0,0 +1,202 @@
+import { Attachment, AttachmentKind, ChatMessage } from '../types';
+import { calculateSHA256, decodeBase64, encodeBase64 } from './custody';
+import { formatWallClock, messageEpoch, toIsoTimestamp } from './datetime';
+import { ATTACHABLE_KINDS, messageKindOf, placeholderFileName } from './messageKinds';
+
+// --- Media attachments ---
+//
+// LINE 匯出檔只留下「[照片]」等佔位文字，實際的照片、語音與文件需另外保存後匯入。
+// 附件與原始匯出檔一樣保留原始位元組與雜湊；對應訊息時先比對檔名，再以拍攝或儲存時間
+// 找最接近的同類佔位訊息，無法判斷者留待人工連結。
+
+export interface AttachmentInput {
+  fileName: string;
+  buffer: ArrayBuffer;
+  lastModified?: number;
+  localModifiedAt?: string; // ZIP 記錄的修改時間為不含時區的當地時間，YYYY/MM/DD HH:mm
+}
+
+// 以時間對應時可接受的誤差（分鐘）；LINE 下載的檔名時間與訊息時間通常相差數秒至數分鐘
+const TIME_TOLERANCE_MINUTES = 10;
+
+const EXTENSION_TYPES: Record<string, [AttachmentKind, string]> = {
+  jpg: ['photo', 'image/jpeg'], jpeg: ['photo', 'image/jpeg'], png: ['photo', 'image/png'],
+  gif: ['photo', 'image/gif'], webp: ['photo', 'image/webp'], heic: ['photo', 'image/heic'],
+  mp4: ['video', 'video/mp4'], mov: ['video', 'video/quicktime'], m4v: ['video', 'video/x-m4v'], '3gp': ['video', 'video/3gpp'],
+  m4a: ['voice', 'audio/mp4'], aac: ['voice', 'audio/aac'], mp3: ['voice', 'audio/mpeg'],
+  amr: ['voice', 'audio/amr'], ogg: ['voice', 'audio/ogg'], wav: ['voice', 'audio/wav'],
+  pdf: ['file', 'application/pdf'],
+};
+
+const baseName = (path: string) => path.split(/[\\/]/).pop() || path;
+
+const typeOf = (fileName: string): [AttachmentKind, string] =>
+  EXTENSION_TYPES[fileName.split('.').pop()?.toLowerCase() || ''] || ['file', 'application/octet-stream'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * 由檔名推得時間，例如 LINE_P20240305_151230.jpg、IMG_20240305_151230.jpg、2024-03-05 15.12.30.m4a。
+ */
+export const timestampFromFileName = (fileName: string): string | null => {
+  const m = baseName(fileName).match(/(20\d{2})[-_.]?(\d{2})[-_.]?(\d{2})[ _T-]?(\d{2})[-_.:]?(\d{2})(?:[-_.:]?\d{2})?/);
+  if (!m) return null;
+  const [, y, mo, d, h, mi] = m.map(Number);
+  if (mo < 1 || mo > 12 || d < 1 || d > 31 || h > 23 || mi > 59) return null;
+  return `${y}/${pad(mo)}/${pad(d)} ${pad(h)}:${pad(mi)}`;
+};
+
+// --- ZIP ---
+
+const ZIP_EOCD = 0x06054b50;
+const ZIP_CENTRAL = 0x02014b50;
+const ZIP_LOCAL = 0x04034b50;
+
+const inflateRaw = async (data: Uint8Array): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).arrayBuffer();
+};
+
+const dosDateTime = (date: number, time: number) =>
+  `${1980 + (date >> 9)}/${pad((date >> 5) & 0xf)}/${pad(date & 0x1f)} ${pad(time >> 11)}:${pad((time >> 5) & 0x3f)}`;
+
+/**
+ * 讀出 ZIP 內的檔案（僅支援未壓縮與 deflate，不支援 ZIP64 與加密），略過資料夾與系統隱藏檔。
+ */
+export const readZipEntries = async (buffer: ArrayBuffer): Promise<AttachmentInput[]> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === ZIP_EOCD) { eocd = i; break; }
+  }
+  if (eocd === -1) throw new Error('不是有效的 ZIP 檔。');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) throw new Error('不支援 ZIP64 格式，請改為選擇資料夾匯入。');
+
+  const decoder = new TextDecoder('utf-8');
+  const entries: AttachmentInput[] = [];
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL) throw new Error('ZIP 目錄已損毀。');
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const file = baseName(name);
+    if (name.endsWith('/') || !file || file.startsWith('.') || name.startsWith('__MACOSX/')) continue;
+    if (flags & 1) throw new Error(`「${file}」已加密，無法讀取。`);
+    if (view.getUint32(localOffset, true) !== ZIP_LOCAL) throw new Error(`「${file}」的檔頭已損毀。`);
+
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(start, start + compressedSize);
+    if (method !== 0 && method !== 8) throw new Error(`「${file}」使用不支援的壓縮方式。`);
+    entries.push({
+      fileName: file,
+      buffer: method === 0 ? data.slice().buffer : await inflateRaw(data),
+      localModifiedAt: dosDateTime(date, time),
+    });
+  }
+  return entries;
+};
+
+// --- Attachments ---
+
+/**
+ * 檔名與 ZIP 內的時間視為來源時區的當地時間；檔案的修改時刻則換算為來源時區，與訊息時間一致。
+ */
+export const createAttachment = async (
+  { fileName, buffer, lastModified, localModifiedAt }: AttachmentInput,
+  timeZone: string
+): Promise<Attachment> => {
+  const [kind, mimeType] = typeOf(fileName);
+  const sha256 = await calculateSHA256(buffer);
+  const capturedAt = timestampFromFileName(fileName)
+    ?? localModifiedAt
+    ?? (lastModified ? formatWallClock(lastModified, timeZone) : undefined);
+  return {
+    id: `att-${sha256.slice(0, 16)}`,
+    fileName: baseName(fileName),
+    mimeType,
+    kind,
+    size: buffer.byteLength,
+    sha256,
+    ...(capturedAt ? { capturedAt } : {}),
+    encoding: 'base64',
+    data: encodeBase64(buffer),
+  };
+};
+
+export const attachmentUrl = (attachment: Attachment) =>
+  URL.createObjectURL(new Blob([decodeBase64(attachment.data)], { type: attachment.mimeType }));
+
+/**
+ * 為尚未對應的附件尋找佔位訊息：檔案訊息先比對檔名，其餘以時間最接近的同類訊息為準。
+ * 附件時間依來源時區換算後與訊息時間戳比較。已連結附件的訊息不再重複對應。
+ */
+export const matchAttachments = (attachments: Attachment[], messages: ChatMessage[], timeZone: string): Attachment[] => {
+  const linked = new Set(attachments.map(a => a.messageId).filter(Boolean));
+  const placeholders = messages.filter(m => ATTACHABLE_KINDS[messageKindOf(m)] && !linked.has(m.id));
+
+  const link = (attachment: Attachment, messageId: string, matchedBy: 'name' | 'time'): Attachment => {
+    linked.add(messageId);
+    return { ...attachment, messageId, matchedBy };
+  };
+
+  const byName = attachments.map(a => {
+    if (a.messageId) return a;
+    const message = placeholders.find(m =>
+      !linked.has(m.id) && placeholderFileName(m.content)?.toLowerCase() === a.fileName.toLowerCase()
+    );
+    return message ? link(a, message.id, 'name') : a;
+  });
+
+  // 依時間先後處理，避免較晚的附件搶走較早附件的最佳對象
+  const order = byName
+    .map((a, i) => ({ a, i }))
+    .filter(({ a }) => !a.messageId && a.capturedAt)
+    .sort((x, y) => x.a.capturedAt!.localeCompare(y.a.capturedAt!));
+  const result = [...byName];
+  order.forEach(({ a, i }) => {
+    const [date, time] = a.capturedAt!.split(' ');
+    const target = Date.parse(toIsoTimestamp(date, time, timeZone)) / 60000;
+    let best: ChatMessage | null = null;
+    let bestDiff = Infinity;
+    for (const m of placeholders) {
+      if (linked.has(m.id) || ATTACHABLE_KINDS[messageKindOf(m)] !== a.kind) continue;
+      const diff = Math.abs(messageEpoch(m) / 60000 - target);
+      if (diff <= TIME_TOLERANCE_MINUTES && diff < bestDiff) {
+        best = m;
+        bestDiff = diff;
+      }
+    }
+    if (best) result[i] = link(a, best.id, 'time');
+  });
+  return result;
+};
+
+export const linkAttachment = (attachments: Attachment[], attachmentId: string, messageId: string | null): Attachment[] =>
+  attachments.map(a => {
+    if (a.id === attachmentId) {
+      if (!messageId) {
+        const { messageId: _id, matchedBy: _by, ...rest } = a;
+        return rest;
+      }
+      return { ...a, messageId, matchedBy: 'manual' };
+    }
+    // 一則訊息只對應一個附件
+    if (messageId && a.messageId === messageId) {
+      const { messageId: _id, matchedBy: _by, ...rest } = a;
+      return rest;
+    }
+    return a;
+  });
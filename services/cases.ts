@@ -0,0 +1,65 @@
+import { CaseFolder, ChatMessage, ChatSession, ParticipantProfile } from '../types';
+import { messageEpoch } from './datetime';
+import { resolveProfiles } from './participants';
+
+// --- Case folders ---
+//
+// 一位案主通常同時有家屬群組、與督導的一對一對話及居服員對話。
+// 案件把多個 session 歸為一組，依時間合併檢視並以案件為單位分析、產生報告；
+// 訊息仍保存在各自的 session 中，合併時以 <sessionId>:<messageId> 區分來源。
+
+export const createCaseFolder = (name: string): CaseFolder => ({
+  id: `case-${Math.random().toString(36).substring(7)}`,
+  name,
+  sessionIds: [],
+  createdAt: Date.now(),
+});
+
+export const chatLabel = (session: ChatSession) => session.fileName.replace('.txt', '');
+
+export const caseMessageId = (sessionId: string, messageId: string) => `${sessionId}:${messageId}`;
+
+export const splitCaseMessageId = (id: string) => {
+  const sep = id.indexOf(':');
+  return { sessionId: id.slice(0, sep), messageId: id.slice(sep + 1) };
+};
+
+/**
+ * 將成員對話依時間戳合併為單一時間軸，來源時區不同的對話也能正確排序；同一時間點維持各對話原有順序。
+ */
+export const buildCaseTimeline = (members: ChatSession[]): ChatMessage[] =>
+  members
+    .flatMap(session => session.messages.map(m => ({
+      message: { ...m, id: caseMessageId(session.id, m.id), chat: chatLabel(session) },
+      epoch: messageEpoch(m),
+    })))
+    .sort((a, b) => a.epoch - b.epoch)
+    .map(entry => entry.message);
+
+/**
+ * 合併各成員對話的參與者設定；名稱或別名與先加入案件的對話重疊者（任一方向）以先加入者為準。
+ */
+export const resolveCaseProfiles = (members: ChatSession[]): ParticipantProfile[] => {
+  const profiles: ParticipantProfile[] = [];
+  const claimed = new Set<string>(); // 已採用設定的名稱與別名
+  members.forEach(session => {
+    resolveProfiles(session.participants, session.participantProfiles).forEach(p => {
+      const names = [p.name, ...p.aliases];
+      if (names.some(name => claimed.has(name))) return;
+      names.forEach(name => claimed.add(name));
+      profiles.push(p);
+    });
+  });
+  return profiles;
+};
+
+export const findCaseOf = (cases: CaseFolder[], sessionId: string) =>
+  cases.find(c => c.sessionIds.includes(sessionId));
+
+/**
+ * 自案件中移除已刪除的 session；未受影響的案件維持原物件。
+ */
+export const pruneCaseMembers = (cases: CaseFolder[], existingIds: Set<string>): CaseFolder[] =>
+  cases.map(c => c.sessionIds.every(id => existingIds.has(id))
+    ? c
+    : { ...c, sessionIds: c.sessionIds.filter(id => existingIds.has(id)) });
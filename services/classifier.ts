@@ -0,0 +1,200 @@
+import { ChatMessage, TagColor, TagIcon, TagRule } from '../types';
+import { JsonSchema, validateSchema } from './schema';
+
+// --- Tag taxonomy & classification rules ---
+
+const STORAGE_KEY = 'line_intel_pro_tag_rules';
+
+const rule = (r: Partial<TagRule> & Pick<TagRule, 'id' | 'label' | 'icon' | 'color'>): TagRule => ({
+  enabled: true,
+  keywords: [],
+  patterns: [],
+  excludeKeywords: [],
+  senderMode: 'any',
+  senders: [],
+  important: false,
+  ...r,
+});
+
+export const DEFAULT_TAG_RULES: TagRule[] = [
+  // 單獨的「$」、「元」、「時間」誤判太多（「一元復始」、「有時間再聊」），改以金額與改時間的寫法比對
+  rule({ id: 'payment', label: '費用', icon: 'banknote', color: 'orange', important: true,
+    keywords: ['繳費', '自付額', '費用', '薪資', '匯款'],
+    patterns: [
+      '(?:NT\\$|NTD|\\$)\\s*\\d',
+      '\\d[\\d,]*(?:\\.\\d+)?\\s*[萬千百]?\\d*[千百]?\\s*(?:元|塊)',
+      '[一二兩三四五六七八九][十百千萬][零一二兩三四五六七八九十百千萬]*\\s*(?:元|塊)',
+    ] }),
+  rule({ id: 'service', label: '服務', icon: 'stethoscope', color: 'blue',
+    keywords: ['服務', '照護', '居服', '協助', '喘息', '就醫', '家訪', '評估'] }),
+  rule({ id: 'schedule', label: '排程', icon: 'calendar', color: 'purple',
+    keywords: ['星期', '禮拜', '調動', '排程', '日期', '幾點', '暫停', '更換'],
+    patterns: ['時間(?:改|調|換|變更)', '改(?:個)?時間'] }),
+  rule({ id: 'issue', label: '問題', icon: 'alert', color: 'red', important: true,
+    keywords: ['問題', '抱歉', '不好意思', '協商', '抱怨', '受傷', '跌倒', '緊急', '衝突'] }),
+  rule({ id: 'medication', label: '用藥', icon: 'pill', color: 'pink',
+    keywords: ['用藥', '吃藥', '藥物', '藥袋', '處方', '劑量', '服藥'] }),
+  rule({ id: 'medical', label: '醫療', icon: 'heart', color: 'sky',
+    keywords: ['醫院', '門診', '回診', '住院', '急診', '醫師', '醫生', '血壓', '血糖'] }),
+  rule({ id: 'leave', label: '請假', icon: 'calendar-off', color: 'amber',
+    keywords: ['請假', '休假', '病假', '事假', '補班', '代班'] }),
+  rule({ id: 'transport', label: '交通', icon: 'car', color: 'emerald',
+    keywords: ['交通', '接送', '復康巴士', '計程車', '長照車'] }),
+];
+
+export const createTagRule = (): TagRule =>
+  rule({ id: `tag-${Date.now().toString(36)}`, label: '新標籤', icon: 'tag', color: 'slate' });
+
+const TAG_ICON_NAMES: TagIcon[] = ['banknote', 'stethoscope', 'calendar', 'alert', 'pill', 'heart', 'calendar-off', 'car', 'phone', 'house', 'tag'];
+const TAG_COLOR_NAMES: TagColor[] = ['orange', 'blue', 'purple', 'red', 'emerald', 'pink', 'sky', 'amber', 'slate'];
+
+const STRING_ARRAY: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+// 未列出的欄位以 createTagRule 的預設值補齊
+const TAG_RULE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'label', 'keywords', 'patterns'],
+  properties: {
+    id: { type: 'string' },
+    label: { type: 'string' },
+    icon: { type: 'string', enum: TAG_ICON_NAMES },
+    color: { type: 'string', enum: TAG_COLOR_NAMES },
+    enabled: { type: 'boolean' },
+    keywords: STRING_ARRAY,
+    patterns: STRING_ARRAY,
+    excludeKeywords: STRING_ARRAY,
+    senderMode: { type: 'string', enum: ['any', 'include', 'exclude'] },
+    senders: STRING_ARRAY,
+    important: { type: 'boolean' },
+  },
+};
+
+/**
+ * 檢查匯入或儲存的規則清單，回傳所有不符之處；空陣列代表可使用。
+ */
+export const validateTagRules = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return ['內容應為規則陣列'];
+  const issues = validateSchema(value, { type: 'array', items: TAG_RULE_SCHEMA });
+  if (issues.length > 0) return issues;
+  const seen = new Set<string>();
+  for (const r of value as TagRule[]) {
+    if (seen.has(r.id)) issues.push(`規則 ID「${r.id}」重複`);
+    seen.add(r.id);
+  }
+  return issues;
+};
+
+export const withRuleDefaults = (rules: TagRule[]): TagRule[] => rules.map(r => ({ ...createTagRule(), ...r }));
+
+// 第 1 版直接儲存規則陣列；第 2 版包上版本號，並移除預設規則中過於寬鬆的關鍵字
+const TAG_RULES_VERSION = 2;
+
+const BROAD_DEFAULT_KEYWORDS: Record<string, string[]> = { payment: ['$', '元'], schedule: ['時間'] };
+
+// 仍保留第 1 版寬鬆關鍵字的預設規則改用目前的比對寫法，其餘自訂內容不動
+const migrateTagRules = (rules: TagRule[]): TagRule[] => rules.map(r => {
+  const broad = BROAD_DEFAULT_KEYWORDS[r.id] || [];
+  const current = DEFAULT_TAG_RULES.find(d => d.id === r.id);
+  if (!current || !r.keywords.some(k => broad.includes(k))) return r;
+  return {
+    ...r,
+    keywords: r.keywords.filter(k => !broad.includes(k)),
+    patterns: Array.from(new Set<string>([...r.patterns, ...current.patterns])),
+  };
+});
+
+export const saveTagRules = (rules: TagRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: TAG_RULES_VERSION, rules }));
+};
+
+// 儲存的規則損毀或不符格式時改用預設規則，不讓整個分類失效
+export const loadTagRules = (): TagRule[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_TAG_RULES;
+    const parsed: unknown = JSON.parse(saved);
+    const { version, rules } = Array.isArray(parsed)
+      ? { version: 1, rules: parsed }
+      : (parsed || {}) as { version?: unknown; rules?: unknown };
+    const issues = validateTagRules(rules);
+    if (issues.length > 0) {
+      console.warn('Stored tag rules are invalid, using defaults', issues);
+      return DEFAULT_TAG_RULES;
+    }
+    const loaded = withRuleDefaults(rules as TagRule[]);
+    if (typeof version === 'number' && version >= TAG_RULES_VERSION) return loaded;
+    const migrated = migrateTagRules(loaded);
+    saveTagRules(migrated);
+    return migrated;
+  } catch {
+    return DEFAULT_TAG_RULES;
+  }
+};
+
+export const validatePattern = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+interface CompiledRule {
+  rule: TagRule;
+  keywords: string[];
+  excludeKeywords: string[];
+  patterns: RegExp[];
+  senders: string[];
+}
+
+// 無效的正規表示式直接略過，編輯器會另行提示
+const compileRules = (rules: TagRule[]): CompiledRule[] =>
+  rules.filter(r => r.enabled).map(r => ({
+    rule: r,
+    keywords: r.keywords.filter(Boolean).map(k => k.toLowerCase()),
+    excludeKeywords: r.excludeKeywords.filter(Boolean).map(k => k.toLowerCase()),
+    patterns: r.patterns.filter(p => p && !validatePattern(p)).map(p => new RegExp(p, 'i')),
+    senders: r.senders.filter(Boolean).map(s => s.toLowerCase()),
+  }));
+
+const matchesRule = (c: CompiledRule, content: string, sender: string) => {
+  const text = content.toLowerCase();
+  const who = sender.toLowerCase();
+  if (c.rule.senderMode === 'include' && !c.senders.some(s => who.includes(s))) return false;
+  if (c.rule.senderMode === 'exclude' && c.senders.some(s => who.includes(s))) return false;
+  if (c.excludeKeywords.some(k => text.includes(k))) return false;
+  return c.keywords.some(k => text.includes(k)) || c.patterns.some(p => p.test(content));
+};
+
+export const createClassifier = (rules: TagRule[]) => {
+  const compiled = compileRules(rules);
+  return (content: string, sender: string): { tags: string[]; isImportant: boolean } => {
+    const tags: string[] = [];
+    let isImportant = false;
+    compiled.forEach(c => {
+      if (matchesRule(c, content, sender)) {
+        tags.push(c.rule.id);
+        if (c.rule.important) isImportant = true;
+      }
+    });
+    return { tags, isImportant };
+  };
+};
+
+export const reclassifyMessages = (messages: ChatMessage[], rules: TagRule[]): ChatMessage[] => {
+  const classify = createClassifier(rules);
+  return messages.map(m => ({ ...m, ...classify(m.content, m.sender) }));
+};
+
+/**
+ * 每條規則（不論是否啟用）在訊息中的命中數，供編輯器預覽。
+ */
+export const countRuleHits = (messages: ChatMessage[], rules: TagRule[]): Record<string, number> => {
+  const compiled = compileRules(rules.map(r => ({ ...r, enabled: true })));
+  const counts: Record<string, number> = {};
+  compiled.forEach(c => {
+    counts[c.rule.id] = messages.filter(m => matchesRule(c, m.content, m.sender)).length;
+  });
+  return counts;
+};
@@ -0,0 +1,118 @@
+import { AnalysisResult, ChatMessage, Commitment, CommitmentStatus } from '../types';
+import { addDays } from './datetime';
+import { bigrams, normalize } from './verification';
+
+// --- Commitment tracking ---
+//
+// 模型只負責找出單位人員的承諾（內容、承諾者、期限、原始訊息），
+// 是否履行由本機比對承諾之後的訊息判定，並附上作為依據的訊息 ID。
+// 判定以對話最後一天為基準，而非今天，讓同一份封存每次得到相同結果。
+
+export const COMMITMENT_STATUS_LABELS: Record<CommitmentStatus, string> = {
+  kept: '已履行',
+  overdue: '逾期未見履行',
+  unknown: '無法判定',
+};
+
+// 未約定期限時，在承諾後多少天內尋找履行紀錄
+const OPEN_WINDOW_DAYS = 14;
+// 期限後仍接受的延遲天數
+const GRACE_DAYS = 2;
+const MIN_SHARED_GRAMS = 2;
+const MAX_EVIDENCE = 3;
+
+const FULFILMENT_PATTERN = /已(?:經)?(?:安排|完成|處理|回電|聯絡|聯繫|送達|補上|更換|派|排好|確認)|(?:辦|做|處理|安排|排)好了|完成了|搞定/;
+
+const sharedCount = (a: Set<string>, b: Set<string>) => {
+  let shared = 0;
+  a.forEach(g => { if (b.has(g)) shared++; });
+  return shared;
+};
+
+/**
+ * 將模型回傳的日期正規化為 YYYY/MM/DD，無法辨識時回傳空字串。
+ */
+export const normalizePromisedDate = (value: string | undefined) => {
+  const m = (value || '').match(/(\d{4})[/.\-年](\d{1,2})[/.\-月](\d{1,2})/);
+  return m ? `${m[1]}/${m[2].padStart(2, '0')}/${m[3].padStart(2, '0')}` : '';
+};
+
+const evaluate = (commitment: Commitment, messages: ChatMessage[]): Pick<Commitment, 'status' | 'statusNote' | 'evidenceMessageIds'> => {
+  const start = messages.findIndex(m => m.id === commitment.sourceMessageId);
+  if (start === -1) {
+    return { status: 'unknown', statusNote: '找不到承諾的原始訊息，無法追蹤。', evidenceMessageIds: [] };
+  }
+
+  const source = messages[start];
+  const due = commitment.promisedDate;
+  const windowEnd = due ? addDays(due, GRACE_DAYS) : addDays(source.date, OPEN_WINDOW_DAYS);
+  const grams = bigrams(normalize(`${commitment.description} ${source.content}`));
+  const later = messages.slice(start + 1).filter(m => m.content);
+
+  const fulfilment = later.find(m =>
+    m.date <= windowEnd &&
+    FULFILMENT_PATTERN.test(m.content) &&
+    sharedCount(grams, bigrams(normalize(m.content))) >= MIN_SHARED_GRAMS
+  );
+  if (fulfilment) {
+    return {
+      status: 'kept',
+      statusNote: `${fulfilment.datetime} ${fulfilment.sender || '系統'}：「${fulfilment.content.slice(0, 40)}」`,
+      evidenceMessageIds: [fulfilment.id],
+    };
+  }
+
+  const asOf = messages[messages.length - 1].date;
+  if (due && due < asOf) {
+    // 期限後仍提到同一件事的訊息，多半是追問或抱怨
+    const followUps = later
+      .filter(m => m.date > due && sharedCount(grams, bigrams(normalize(m.content))) >= MIN_SHARED_GRAMS)
+      .slice(0, MAX_EVIDENCE);
+    return {
+      status: 'overdue',
+      statusNote: followUps.length > 0
+        ? `期限 ${due} 已過，其後仍有 ${followUps.length} 則訊息提及此事且未見履行紀錄。`
+        : `期限 ${due} 已過，對話中未見履行紀錄。`,
+      evidenceMessageIds: followUps.map(m => m.id),
+    };
+  }
+
+  return {
+    status: 'unknown',
+    statusNote: due ? `對話結束（${asOf}）時尚未到期。` : '未約定期限，對話中未見履行紀錄。',
+    evidenceMessageIds: [],
+  };
+};
+
+/**
+ * 重新判定所有承諾的履行狀況；人工判定的項目維持不變。
+ */
+export const trackCommitments = (commitments: Commitment[], messages: ChatMessage[]): Commitment[] =>
+  messages.length === 0
+    ? commitments
+    : commitments.map(c => c.statusOrigin === 'human' ? c : { ...c, ...evaluate(c, messages), statusOrigin: 'ai' });
+
+/**
+ * 人工判定狀態並記錄理由。
+ */
+export const setCommitmentStatus = (
+  analysis: AnalysisResult,
+  commitmentId: string,
+  status: CommitmentStatus,
+  note: string
+): AnalysisResult => ({
+  ...analysis,
+  commitments: (analysis.commitments || []).map(c =>
+    c.id === commitmentId ? { ...c, status, statusNote: note, statusOrigin: 'human' } : c
+  ),
+});
+
+/**
+ * 逾期者排在最前，其餘依承諾期限排列。
+ */
+export const sortCommitments = (commitments: Commitment[]) => {
+  const order: Record<CommitmentStatus, number> = { overdue: 0, unknown: 1, kept: 2 };
+  return [...commitments].sort((a, b) =>
+    order[a.status] - order[b.status] || (a.promisedDate || '9999').localeCompare(b.promisedDate || '9999')
+  );
+};
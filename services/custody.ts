@@ -0,0 +1,371 @@
+import {
+  ArchiveIntegrity,
+  ArchiveIssue,
+  ArchiveVerificationReport,
+  ChatMessage,
+  ChatSession,
+  CustodyAction,
+  CustodyEntry,
+  SourceFile,
+} from '../types';
+import { ParsedLineMessage, parseLineExport, timeToMinutes } from './lineParser';
+
+// --- Chain of custody ---
+//
+// 封存保留原始匯出位元組、逐則訊息雜湊、涵蓋訊息與分析的清單雜湊，
+// 以及以雜湊鏈串接、只可附加的保管紀錄。任何修改都能被 verifyArchive 指出。
+
+const GENESIS_HASH = '0'.repeat(64);
+
+export const CUSTODY_ACTION_LABELS: Record<CustodyAction, string> = {
+  import: '匯入',
+  analysis: '分析',
+  edit: '編輯',
+  export: '匯出',
+};
+
+export const calculateSHA256 = async (data: string | ArrayBuffer): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const hashBuffer = await crypto.subtle.digest('SHA-256', bytes);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// 鍵值排序後序列化，確保相同內容得到相同雜湊
+export const canonicalJSON = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJSON(v)}`).join(',')}}`;
+};
+
+export const encodeBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const decodeBase64 = (data: string): ArrayBuffer => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+export const createSourceFile = async (fileName: string, buffer: ArrayBuffer): Promise<SourceFile> => ({
+  fileName,
+  size: buffer.byteLength,
+  sha256: await calculateSHA256(buffer),
+  encoding: 'base64',
+  data: encodeBase64(buffer),
+});
+
+export const decodeSourceText = (source: SourceFile) =>
+  new TextDecoder('utf-8').decode(decodeBase64(source.data));
+
+// 自此版本起訊息 ID 由內容產生，見 assignMessageIds
+export const STABLE_ID_SCHEMA_VERSION = 2;
+
+// 舊版（schema 1）以 0 起算的行號為 ID：第一個匯出檔為 msg-<行號>，後續合併的匯出檔加上檔案序號。
+// line 為解析器回報的 1 起算行號
+export const legacyMessageId = (sourceIndex: number, line: number) =>
+  sourceIndex === 0 ? `msg-${line - 1}` : `msg-${sourceIndex}-${line - 1}`;
+
+// 同步的 64 位元雜湊（兩組 FNV-1a），只用於產生 ID，不作為完整性依據
+const digest64 = (text: string) => {
+  let a = 0x811c9dc5;
+  let b = 0x01000193 ^ text.length;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    a = Math.imul(a ^ c, 0x01000193);
+    b = Math.imul(b ^ c, 0x5bd1e995);
+    b ^= b >>> 15;
+  }
+  return (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0');
+};
+
+type MessageIdentity = Pick<ParsedLineMessage, 'date' | 'time' | 'sender' | 'content'>;
+
+/**
+ * 依日期、24 小時制時間、發送者與內容產生訊息 ID，與行號及匯入順序無關，
+ * 同一則訊息在不同次匯出中得到相同 ID。同一匯出檔內完全相同的訊息依出現順序加上 -2、-3…。
+ */
+export const assignMessageIds = (messages: MessageIdentity[]): string[] => {
+  const seen = new Map<string, number>();
+  return messages.map(m => {
+    const minutes = timeToMinutes(m.time);
+    const clock = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+    const base = `msg-${digest64(`${m.date} ${clock}\u0000${m.sender}\u0000${m.content}`).slice(0, 12)}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  });
+};
+
+// msg-<12 碼>-2 → msg-<12 碼>
+const baseMessageId = (id: string) => id.match(/^msg-[0-9a-f]{12}/)?.[0] ?? id;
+
+/**
+ * 合併多個匯出檔後，不同檔案中完全相同的訊息可能得到同一個 ID，後出現者改用同一組的下一個序號。
+ * 資料遷移與原始檔比對都依此規則，使兩邊得到相同的 ID。
+ */
+export const uniqueMessageId = (id: string, used: Set<string>) => {
+  if (!used.has(id)) return id;
+  const base = baseMessageId(id);
+  let n = 2;
+  while (used.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+};
+
+export const hashMessage = (m: ChatMessage) =>
+  calculateSHA256(canonicalJSON([m.id, m.date, m.time, m.sender, m.content]));
+
+export const hashMessages = (messages: ChatMessage[]): Promise<ChatMessage[]> =>
+  Promise.all(messages.map(async m => ({ ...m, hash: await hashMessage(m) })));
+
+export const computeIntegrity = async (session: ChatSession): Promise<ArchiveIntegrity> => {
+  const messageHashes = await Promise.all(session.messages.map(hashMessage));
+  const messagesHash = await calculateSHA256(messageHashes.join('\n'));
+  const analysisHash = session.analysis ? await calculateSHA256(canonicalJSON(session.analysis)) : null;
+  const annotationsHash = session.annotations ? await calculateSHA256(canonicalJSON(session.annotations)) : undefined;
+  const manifestHash = await calculateSHA256(canonicalJSON({
+    fileHash: session.fileHash,
+    sources: (session.sources || []).map(s => s.sha256),
+    // 沒有附件的封存不寫入此欄，維持既有清單雜湊不變
+    attachments: session.attachments?.map(a => [a.sha256, a.messageId ?? null]),
+    messagesHash,
+    analysisHash,
+    annotationsHash,
+  }));
+  return {
+    algorithm: 'SHA-256',
+    generatedAt: Date.now(),
+    messageCount: session.messages.length,
+    messagesHash,
+    analysisHash,
+    annotationsHash,
+    manifestHash,
+  };
+};
+
+const hashCustodyEntry = (entry: Omit<CustodyEntry, 'hash'>) => calculateSHA256(canonicalJSON(entry));
+
+/**
+ * 附加一筆保管紀錄；紀錄只能附加，每筆都記錄當下的清單雜湊並串接前一筆的 hash。
+ */
+export const appendCustodyEntry = async (
+  session: ChatSession,
+  action: CustodyAction,
+  detail: string
+): Promise<ChatSession> => {
+  const log = session.custodyLog || [];
+  const { manifestHash } = await computeIntegrity(session);
+  const base = {
+    seq: log.length,
+    action,
+    timestamp: Date.now(),
+    detail,
+    manifestHash,
+    prevHash: log.length > 0 ? log[log.length - 1].hash : GENESIS_HASH,
+  };
+  const entry: CustodyEntry = { ...base, hash: await hashCustodyEntry(base) };
+  // integrity 只代表匯出當下的狀態，內容異動後即失效
+  return { ...session, custodyLog: [...log, entry], integrity: undefined };
+};
+
+/**
+ * 封存匯出前計算完整性資訊並記錄匯出事件。
+ */
+export const sealArchive = async (session: ChatSession, detail: string): Promise<ChatSession> => {
+  const logged = await appendCustodyEntry(session, 'export', detail);
+  return { ...logged, integrity: await computeIntegrity(logged) };
+};
+
+// --- Verification ---
+
+const verifySources = async (session: ChatSession, issues: ArchiveIssue[]) => {
+  const sources = session.sources || [];
+  if (sources.length === 0) {
+    issues.push({ severity: 'warning', kind: 'source', detail: '封存未保留原始匯出檔，無法比對原文。' });
+    return;
+  }
+
+  for (const source of sources) {
+    let buffer: ArrayBuffer;
+    try {
+      buffer = decodeBase64(source.data);
+    } catch {
+      issues.push({ severity: 'error', kind: 'source', detail: `原始檔「${source.fileName}」內容已損毀，無法解碼。` });
+      continue;
+    }
+    const actual = await calculateSHA256(buffer);
+    if (actual !== source.sha256) {
+      issues.push({ severity: 'error', kind: 'source', detail: `原始檔「${source.fileName}」的雜湊與記錄不符（記錄 ${source.sha256.slice(0, 12)}…，實際 ${actual.slice(0, 12)}…）。` });
+    }
+  }
+
+  if (sources[0].sha256 !== session.fileHash) {
+    issues.push({ severity: 'error', kind: 'source', detail: '封存的 fileHash 與原始檔雜湊不一致。' });
+  }
+};
+
+const verifyAttachments = async (session: ChatSession, issues: ArchiveIssue[]) => {
+  const messageIds = new Set(session.messages.map(m => m.id));
+  for (const attachment of session.attachments || []) {
+    let actual: string;
+    try {
+      actual = await calculateSHA256(decodeBase64(attachment.data));
+    } catch {
+      issues.push({ severity: 'error', kind: 'attachment', detail: `附件「${attachment.fileName}」內容已損毀，無法解碼。` });
+      continue;
+    }
+    if (actual !== attachment.sha256) {
+      issues.push({ severity: 'error', kind: 'attachment', detail: `附件「${attachment.fileName}」的雜湊與記錄不符（記錄 ${attachment.sha256.slice(0, 12)}…，實際 ${actual.slice(0, 12)}…）。` });
+    }
+    if (attachment.messageId && !messageIds.has(attachment.messageId)) {
+      issues.push({ severity: 'warning', kind: 'attachment', messageId: attachment.messageId, detail: `附件「${attachment.fileName}」對應的訊息 ${attachment.messageId} 不存在。` });
+    }
+  }
+};
+
+// 以原始檔重新解析，逐則比對目前封存中的訊息；合併的匯出檔只比對由該檔新增的訊息
+const compareWithSource = (session: ChatSession, issues: ArchiveIssue[]) => {
+  const sources = session.sources || [];
+  if (sources.length === 0) return;
+
+  // 遷移前的封存仍以行號為 ID
+  const legacyIds = (session.schemaVersion ?? 1) < STABLE_ID_SCHEMA_VERSION;
+  const original = new Map<string, ParsedLineMessage>();
+  const used = new Set<string>();
+  const firstSourceIds: string[] = [];
+  for (const [index, source] of sources.entries()) {
+    let text: string;
+    try {
+      text = decodeSourceText(source);
+    } catch {
+      return; // 已由 verifySources 回報
+    }
+    const parsed = parseLineExport(text).messages;
+    const ids = legacyIds ? parsed.map(m => legacyMessageId(index, m.line)) : assignMessageIds(parsed);
+    parsed.forEach((m, i) => {
+      if (index === 0) firstSourceIds.push(ids[i]);
+      if (!used.has(ids[i])) {
+        used.add(ids[i]);
+        original.set(ids[i], m);
+        return;
+      }
+      // 後續匯出檔中與先前檔案相同的訊息，遷移後以同一組的下一個序號保存
+      if (!legacyIds && index > 0) {
+        const id = uniqueMessageId(ids[i], used);
+        used.add(id);
+        original.set(id, m);
+      }
+    });
+  }
+  const current = new Set(session.messages.map(m => m.id));
+
+  session.messages.forEach(m => {
+    const source = original.get(m.id);
+    if (!source) {
+      issues.push({ severity: 'error', kind: 'message', messageId: m.id, detail: `訊息 ${m.id} 不存在於原始匯出檔中（疑似新增）。` });
+      return;
+    }
+    const changed = (['date', 'time', 'sender', 'content'] as const).filter(k => source[k] !== m[k]);
+    if (changed.length > 0) {
+      issues.push({ severity: 'error', kind: 'message', messageId: m.id, detail: `訊息 ${m.id} 與原始匯出檔不符（${changed.join('、')}）：「${m.content.slice(0, 40)}」` });
+    }
+  });
+
+  // 後續匯出中與既有訊息重複的部分不會收錄，只檢查第一個匯出檔
+  firstSourceIds.forEach(id => {
+    if (!current.has(id)) {
+      issues.push({ severity: 'error', kind: 'message', messageId: id, detail: `原始匯出檔中的訊息 ${id} 已從封存中移除。` });
+    }
+  });
+};
+
+const verifyCustodyLog = async (session: ChatSession, issues: ArchiveIssue[], strict: boolean) => {
+  const log = session.custodyLog || [];
+  if (log.length === 0) {
+    issues.push(strict
+      ? { severity: 'error', kind: 'custody', detail: '封存沒有保管紀錄，紀錄可能遭移除。' }
+      : { severity: 'warning', kind: 'custody', detail: '封存沒有保管紀錄（可能為舊版封存）。' });
+    return;
+  }
+  let prevHash = GENESIS_HASH;
+  for (const [i, entry] of log.entries()) {
+    const { hash, ...base } = entry;
+    if (entry.seq !== i || entry.prevHash !== prevHash) {
+      issues.push({ severity: 'error', kind: 'custody', detail: `保管紀錄第 ${i + 1} 筆的鏈結中斷，紀錄可能遭刪除或重排。` });
+    } else if (await hashCustodyEntry(base) !== hash) {
+      issues.push({ severity: 'error', kind: 'custody', detail: `保管紀錄第 ${i + 1} 筆（${CUSTODY_ACTION_LABELS[entry.action]}）內容遭修改。` });
+    }
+    prevHash = hash;
+  }
+};
+
+/**
+ * 重新計算所有雜湊並回報與記錄不符之處。sealed 表示檢查的是匯出的封存檔，須帶有匯出時的 integrity。
+ * 第 2 版起的封存一律帶有訊息雜湊與保管紀錄，缺少即視為遭移除，不再當作舊版封存放行。
+ */
+export const verifyArchive = async (
+  session: ChatSession,
+  { sealed = false }: { sealed?: boolean } = {}
+): Promise<ArchiveVerificationReport> => {
+  const issues: ArchiveIssue[] = [];
+  const strict = (session.schemaVersion ?? 1) >= STABLE_ID_SCHEMA_VERSION;
+
+  await verifySources(session, issues);
+  await verifyAttachments(session, issues);
+  compareWithSource(session, issues);
+
+  for (const m of session.messages) {
+    if (!m.hash) {
+      if (strict) issues.push({ severity: 'error', kind: 'message', messageId: m.id, detail: `訊息 ${m.id} 缺少雜湊，無法確認內容未遭修改。` });
+    } else if (m.hash !== await hashMessage(m)) {
+      issues.push({ severity: 'error', kind: 'message', messageId: m.id, detail: `訊息 ${m.id} 的內容與其雜湊不符：「${m.content.slice(0, 40)}」` });
+    }
+  }
+
+  const actual = await computeIntegrity(session);
+  const recorded = session.integrity;
+  if (!recorded && sealed && strict) {
+    issues.push({ severity: 'error', kind: 'manifest', detail: '封存缺少匯出時的完整性資訊，無法確認匯出後未遭修改。' });
+  }
+  if (recorded) {
+    if (recorded.messageCount !== actual.messageCount) {
+      issues.push({ severity: 'error', kind: 'manifest', detail: `訊息數量由 ${recorded.messageCount} 則變為 ${actual.messageCount} 則。` });
+    }
+    if (recorded.messagesHash !== actual.messagesHash) {
+      issues.push({ severity: 'error', kind: 'manifest', detail: '訊息內容的整體雜湊與匯出時不符。' });
+    }
+    if (recorded.analysisHash !== actual.analysisHash) {
+      issues.push({ severity: 'error', kind: 'analysis', detail: '分析報告內容在匯出後遭修改。' });
+    }
+    if (recorded.annotationsHash !== actual.annotationsHash) {
+      issues.push({ severity: 'error', kind: 'annotation', detail: '人工註記在匯出後遭修改。' });
+    }
+    if (recorded.manifestHash !== actual.manifestHash) {
+      issues.push({ severity: 'error', kind: 'manifest', detail: '封存清單雜湊不符。' });
+    }
+  }
+
+  await verifyCustodyLog(session, issues, strict);
+  const log = session.custodyLog || [];
+  const last = log[log.length - 1];
+  if (last && last.manifestHash !== actual.manifestHash) {
+    issues.push({ severity: 'error', kind: 'custody', detail: `封存內容在最後一筆保管紀錄（${CUSTODY_ACTION_LABELS[last.action]}，${new Date(last.timestamp).toLocaleString()}）之後遭變更。` });
+  }
+
+  return {
+    ok: !issues.some(i => i.severity === 'error'),
+    checkedAt: Date.now(),
+    checkedMessages: session.messages.length,
+    issues,
+  };
+};
@@ -0,0 +1,139 @@
+import { ChatMessage } from '../types';
+import { parseClockTime } from './lineParser';
+
+// --- Timestamps and time zones ---
+//
+// LINE 匯出檔只記錄匯出裝置當地的日期與時間，沒有時區資訊。每個 session 記錄來源時區，
+// 據以將日期與時間換算為含時差的 ISO 8601 時間戳，供排序、比較與計算間隔；
+// 畫面與報告仍顯示原始的日期與時間字串。
+
+// 舊資料與未指定時的預設值：使用者瀏覽器所在時區
+export const DEFAULT_TIME_ZONE = (() => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Taipei';
+  } catch {
+    return 'Asia/Taipei';
+  }
+})();
+
+export const TIME_ZONE_OPTIONS: [string, string][] = [
+  ['Asia/Taipei', '台灣（UTC+8）'],
+  ['Asia/Hong_Kong', '香港（UTC+8）'],
+  ['Asia/Shanghai', '中國（UTC+8）'],
+  ['Asia/Singapore', '新加坡（UTC+8）'],
+  ['Asia/Manila', '菲律賓（UTC+8）'],
+  ['Asia/Tokyo', '日本（UTC+9）'],
+  ['Asia/Bangkok', '泰國（UTC+7）'],
+  ['Asia/Ho_Chi_Minh', '越南（UTC+7）'],
+  ['Asia/Jakarta', '印尼西部（UTC+7）'],
+  ['Europe/London', '英國'],
+  ['America/Los_Angeles', '美國太平洋'],
+  ['America/New_York', '美國東部'],
+  ['Australia/Sydney', '澳洲東部'],
+  ['UTC', 'UTC'],
+];
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// 指定時區在該 UTC 時刻與 UTC 的差距（分鐘，東區為正）
+const offsetMinutesAt = (timeZone: string, utcMs: number) => {
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone).formatToParts(new Date(utcMs)).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  });
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(utcMs / 1000) * 1000) / 60000);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * 某一時刻在指定時區的當地日期時間，格式同訊息的 YYYY/MM/DD HH:mm。
+ */
+export const formatWallClock = (epochMs: number, timeZone: string): string => {
+  const parts: Record<string, string> = {};
+  formatterFor(timeZone).formatToParts(new Date(epochMs)).forEach(p => {
+    if (p.type !== 'literal') parts[p.type] = p.value;
+  });
+  return `${parts.year}/${parts.month}/${parts.day} ${parts.hour}:${parts.minute}`;
+};
+
+const formatOffset = (minutes: number) => {
+  if (minutes === 0) return 'Z';
+  const abs = Math.abs(minutes);
+  return `${minutes > 0 ? '+' : '-'}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+};
+
+/**
+ * 將當地日期（YYYY/MM/DD）與匯出檔的時間字串換算為 ISO 8601 時間戳，例如 2024-03-05T15:12:00+08:00。
+ * 日光節約時間切換當下不存在或重複的當地時間，換算結果可能相差一小時。無法辨識的時間視為 00:00。
+ */
+export const toIsoTimestamp = (date: string, time: string, timeZone: string): string => {
+  const [y, m, d] = date.split('/').map(Number);
+  const clock = parseClockTime(time) ?? { hour: 0, minute: 0 };
+  const wall = Date.UTC(y, m - 1, d, clock.hour, clock.minute);
+  // 先以當地時間推估，再以推得時刻的時差修正一次
+  const guess = offsetMinutesAt(timeZone, wall);
+  const offset = offsetMinutesAt(timeZone, wall - guess * 60000);
+  return `${y}-${pad(m)}-${pad(d)}T${pad(clock.hour)}:${pad(clock.minute)}:00${formatOffset(offset)}`;
+};
+
+/**
+ * 訊息的 epoch 毫秒數；尚未遷移的訊息以 UTC 計算當地時間，只適合同一 session 內相減。
+ */
+export const messageEpoch = (m: ChatMessage): number => {
+  if (m.timestamp) return Date.parse(m.timestamp);
+  const [y, mo, d] = m.date.split('/').map(Number);
+  const clock = parseClockTime(m.time) ?? { hour: 0, minute: 0 };
+  return Date.UTC(y, mo - 1, d, clock.hour, clock.minute);
+};
+
+/**
+ * 以新的來源時區重新換算所有訊息的時間戳。
+ */
+export const withTimeZone = (messages: ChatMessage[], timeZone: string): ChatMessage[] =>
+  messages.map(m => ({ ...m, timestamp: toIsoTimestamp(m.date, m.time, timeZone) }));
+
+// --- Calendar dates ---
+//
+// 訊息與事件的日期為 YYYY/MM/DD 字串；以 UTC 午夜計算，結果不受執行環境時區影響。
+
+export const toUtcDate = (date: string) => {
+  const [y, m, d] = date.split('/').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+export const formatDate = (date: Date) =>
+  `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}`;
+
+export const addDays = (date: string, days: number) => {
+  const d = toUtcDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+};
+
+export const daysBetween = (start: string, end: string) =>
+  Math.round((toUtcDate(end).getTime() - toUtcDate(start).getTime()) / 86400000);
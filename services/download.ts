@@ -0,0 +1,12 @@
+// --- File downloads ---
+//
+// 匯出檔一律在本機產生後以瀏覽器下載，不經過任何伺服器。
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,123 @@
+import { AnalysisResult, CaseEvent, ChatMessage, EditableEventField, MessageAnnotation } from '../types';
+import { ANALYSIS_SCHEMA_VERSION } from './migrations';
+
+// --- Analyst editing ---
+//
+// 人工修改一律保留修改前的值並標示為人工，讓封存能區分 AI 產生與人工撰寫的內容。
+
+export type EventPatch = Partial<Pick<CaseEvent, EditableEventField>>;
+
+export const EDITABLE_FIELD_LABELS: Record<EditableEventField, string> = {
+  title: '標題',
+  summary: '摘要',
+  riskLevel: '風險等級',
+  remarks: '備註',
+  dateRange: '日期範圍',
+  relatedMessageIds: '相關訊息',
+};
+
+export const emptyAnalysis = (): AnalysisResult => ({
+  schemaVersion: ANALYSIS_SCHEMA_VERSION,
+  summary: '',
+  sentiment: '',
+  topics: [],
+  relationshipDynamic: '',
+  events: [],
+  statistics: { paymentCount: 0, serviceCount: 0, scheduleCount: 0, issueCount: 0 },
+});
+
+export const isHumanEvent = (event: CaseEvent) => event.origin === 'human';
+
+export const isAiAnalysis = (analysis?: AnalysisResult) =>
+  !!analysis && (!!analysis.summary || analysis.events.some(e => !isHumanEvent(e)));
+
+const serialize = (value: CaseEvent[EditableEventField]) =>
+  Array.isArray(value) ? value.join(',') : String(value ?? '');
+
+/**
+ * 套用修改並記錄每個實際變動欄位的原值；回傳變動的欄位。
+ */
+export const updateEvent = (
+  analysis: AnalysisResult,
+  eventId: string,
+  patch: EventPatch
+): { analysis: AnalysisResult; changed: EditableEventField[] } => {
+  const changed: EditableEventField[] = [];
+  const events = analysis.events.map(event => {
+    if (event.id !== eventId) return event;
+    const timestamp = Date.now();
+    const edits = (Object.keys(patch) as EditableEventField[])
+      .filter(field => serialize(patch[field]) !== serialize(event[field]))
+      .map(field => ({ field, previous: serialize(event[field]), timestamp }));
+    changed.push(...edits.map(e => e.field));
+    if (edits.length === 0) return event;
+    return {
+      ...event,
+      ...patch,
+      humanEdits: isHumanEvent(event) ? event.humanEdits : [...(event.humanEdits || []), ...edits],
+    };
+  });
+  return { analysis: { ...analysis, events }, changed };
+};
+
+export const linkMessages = (analysis: AnalysisResult, eventId: string, messageIds: string[]) => {
+  const event = analysis.events.find(e => e.id === eventId);
+  if (!event) return { analysis, changed: [] as EditableEventField[] };
+  const ids = Array.from(new Set([...(event.relatedMessageIds || []), ...messageIds]));
+  return updateEvent(analysis, eventId, { relatedMessageIds: ids });
+};
+
+export const unlinkMessage = (analysis: AnalysisResult, eventId: string, messageId: string) => {
+  const event = analysis.events.find(e => e.id === eventId);
+  if (!event) return { analysis, changed: [] as EditableEventField[] };
+  return updateEvent(analysis, eventId, { relatedMessageIds: event.relatedMessageIds.filter(id => id !== messageId) });
+};
+
+/**
+ * 以選取的訊息建立人工事件，日期範圍取自訊息本身。
+ */
+export const createManualEvent = (
+  analysis: AnalysisResult | undefined,
+  messages: ChatMessage[],
+  title: string
+): AnalysisResult => {
+  const base = analysis || emptyAnalysis();
+  const dates = messages.map(m => m.date).sort();
+  const dateRange = dates.length === 0
+    ? ''
+    : dates[0] === dates[dates.length - 1] ? dates[0] : `${dates[0]} ~ ${dates[dates.length - 1]}`;
+  const event: CaseEvent = {
+    id: `manual-${Date.now().toString(36)}`,
+    title,
+    summary: '',
+    riskLevel: '低',
+    riskAssessment: '',
+    remarks: '',
+    dateRange,
+    relatedMessageIds: messages.map(m => m.id),
+    familyExcerpts: [],
+    staffExcerpts: [],
+    origin: 'human',
+  };
+  return { ...base, events: [...base.events, event] };
+};
+
+export const deleteEvent = (analysis: AnalysisResult, eventId: string): AnalysisResult => ({
+  ...analysis,
+  events: analysis.events.filter(e => e.id !== eventId),
+});
+
+/**
+ * 更新訊息註記；未釘選且無文字的註記會被移除。
+ */
+export const setAnnotation = (
+  annotations: Record<string, MessageAnnotation> | undefined,
+  messageId: string,
+  patch: Partial<Pick<MessageAnnotation, 'pinned' | 'note'>>
+): Record<string, MessageAnnotation> | undefined => {
+  const current = annotations?.[messageId] || { pinned: false, note: '', updatedAt: 0 };
+  const next = { ...current, ...patch, updatedAt: Date.now() };
+  const { [messageId]: _, ...rest } = annotations || {};
+  const updated = next.pinned || next.note.trim() ? { ...rest, [messageId]: next } : rest;
+  return Object.keys(updated).length > 0 ? updated : undefined;
+};
@@ -0,0 +1,138 @@
+import { ChatMessage, LineDialect, SourceFile, TagRule, UnparsedLine } from '../types';
+import { ParsedLineMessage, parseLineExport } from './lineParser';
+import { createClassifier } from './classifier';
+import { assignMessageIds, createSourceFile, hashMessage } from './custody';
+import { detectMessageKind, isSystemKind } from './messageKinds';
+import { toIsoTimestamp } from './datetime';
+
+// --- Export import pipeline ---
+//
+// 原始檔雜湊與 base64、逐行解析、標籤分類與逐則訊息雜湊在十萬行的群組匯出上
+// 會卡住畫面數秒，因此交給 Web Worker 執行並回報進度；不支援 Worker 的環境退回主執行緒。
+
+export type ImportStage = 'source' | 'parse' | 'classify' | 'hash';
+
+export const IMPORT_STAGE_LABELS: Record<ImportStage, string> = {
+  source: '計算原始檔雜湊',
+  parse: '解析對話',
+  classify: '分類標籤',
+  hash: '計算訊息雜湊',
+};
+
+export interface ImportProgress {
+  stage: ImportStage;
+  done: number;
+  total: number; // 0 表示無法預估
+}
+
+export interface ProcessedExport {
+  source: SourceFile;
+  dialect: LineDialect;
+  unparsedLines: UnparsedLine[];
+  messages: ChatMessage[]; // 已分類並附上 hash
+}
+
+export interface ImportRequest {
+  fileName: string;
+  buffer: ArrayBuffer;
+  sourceIndex: number; // 第幾個併入的匯出檔
+  rules: TagRule[];
+  timeZone: string; // 來源時區，用於換算 timestamp
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'done'; result: ProcessedExport }
+  | { type: 'error'; message: string };
+
+const PROGRESS_BATCH = 5000;
+
+export const buildMessages = (
+  parsed: ParsedLineMessage[],
+  sourceIndex: number,
+  rules: TagRule[],
+  timeZone: string,
+  onProgress?: (done: number) => void
+): ChatMessage[] => {
+  const classify = createClassifier(rules);
+  const ids = assignMessageIds(parsed);
+  return parsed.map((m, i) => {
+    if (onProgress && i % PROGRESS_BATCH === 0) onProgress(i);
+    const { tags, isImportant } = classify(m.content, m.sender);
+    const kind = detectMessageKind(m.content, m.sender);
+    return {
+      id: ids[i],
+      date: m.date,
+      time: m.time,
+      datetime: `${m.date} ${m.time}`,
+      timestamp: toIsoTimestamp(m.date, m.time, timeZone),
+      sender: m.sender,
+      content: m.content,
+      isSystem: !m.sender || isSystemKind(kind),
+      ...(kind !== 'text' ? { kind } : {}),
+      isImportant,
+      tags,
+      ...(sourceIndex > 0 ? { source: sourceIndex } : {})
+    };
+  });
+};
+
+export const processExport = async (
+  { fileName, buffer, sourceIndex, rules, timeZone }: ImportRequest,
+  onProgress: (progress: ImportProgress) => void = () => {}
+): Promise<ProcessedExport> => {
+  onProgress({ stage: 'source', done: 0, total: 0 });
+  const source = await createSourceFile(fileName, buffer);
+
+  onProgress({ stage: 'parse', done: 0, total: 0 });
+  const parsed = parseLineExport(new TextDecoder('utf-8').decode(buffer));
+  const total = parsed.messages.length;
+
+  const built = buildMessages(parsed.messages, sourceIndex, rules, timeZone, done => onProgress({ stage: 'classify', done, total }));
+
+  // 分批計算，讓進度能逐步回報
+  const messages: ChatMessage[] = [];
+  for (let i = 0; i < built.length; i += PROGRESS_BATCH) {
+    onProgress({ stage: 'hash', done: i, total });
+    const batch = built.slice(i, i + PROGRESS_BATCH);
+    messages.push(...await Promise.all(batch.map(async m => ({ ...m, hash: await hashMessage(m) }))));
+  }
+
+  return { source, dialect: parsed.dialect, unparsedLines: parsed.unparsedLines, messages };
+};
+
+/**
+ * 在 Web Worker 中執行 processExport。buffer 會轉移給 Worker，呼叫後不可再使用。
+ */
+export const processExportInWorker = (
+  request: ImportRequest,
+  onProgress: (progress: ImportProgress) => void
+): Promise<ProcessedExport> => {
+  if (typeof Worker === 'undefined') return processExport(request, onProgress);
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.warn('Import worker unavailable, parsing on main thread', err);
+    return processExport(request, onProgress);
+  }
+
+  return new Promise<ProcessedExport>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<ImportWorkerMessage>) => {
+      const data = e.data;
+      if (data.type === 'progress') {
+        onProgress(data.progress);
+        return;
+      }
+      worker.terminate();
+      if (data.type === 'done') resolve(data.result);
+      else reject(new Error(data.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || '匯入背景程序發生錯誤'));
+    };
+    worker.postMessage(request, [request.buffer]);
+  });
+};
@@ -0,0 +1,16 @@
+import { ImportRequest, ImportWorkerMessage, processExport } from './importPipeline';
+
+// --- Import worker ---
+//
+// 由 processExportInWorker 建立，每個 Worker 只處理一個匯出檔。
+
+const post = (message: ImportWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (e: MessageEvent<ImportRequest>) => {
+  try {
+    const result = await processExport(e.data, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,169 @@
+import { ChatMessage, ParticipantProfile, ParticipantRole } from '../types';
+import { buildParticipantIndex } from './participants';
+
+// --- Payment ledger ---
+//
+// 從標為「費用」的訊息中以規則擷取金額、類型與用途，每筆都連回原始訊息。
+// 同一則訊息中以標點分句，一句一筆，讓「自付額 1,200 元，交通 300 元」拆成兩筆。
+
+export const PAYMENT_TAG = 'payment';
+
+export type LedgerEntryKind = 'charge' | 'payment' | 'refund' | 'dispute' | 'mention';
+
+export const LEDGER_KIND_LABELS: Record<LedgerEntryKind, string> = {
+  charge: '應收',
+  payment: '已付款',
+  refund: '退費',
+  dispute: '爭議',
+  mention: '提及',
+};
+
+export interface LedgerEntry {
+  id: string;
+  messageId: string;
+  date: string;
+  datetime: string;
+  sender: string;
+  role: ParticipantRole;
+  kind: LedgerEntryKind;
+  amount: number | null; // 新台幣元；確認匯款等未提金額的訊息為 null
+  purpose: string;
+  excerpt: string; // 擷取出這筆的原文句子
+}
+
+export interface MonthlyTotal {
+  month: string; // YYYY/MM
+  charged: number;
+  paid: number;
+  refunded: number;
+  disputes: number;
+}
+
+// 依序判斷，先符合者為準：爭議優先於其他類型，避免「多收了 300 元」被當成應收
+const KIND_PATTERNS: [LedgerEntryKind, RegExp][] = [
+  ['dispute', /多收|收錯|算錯|有誤|不對|不合理|重複(?:收|扣)|爭議|怎麼(?:會)?(?:這麼|那麼)?多|為什麼.*(?:費|錢|收)|沒(?:有)?收到/],
+  ['refund', /退費|退款|退還|退回|退錢/],
+  ['payment', /已(?:經)?(?:匯|轉|繳|付)|匯(?:款|過去|了)|轉帳|繳(?:了|清|費完成)|付(?:了|清)|收到(?:款|錢|費|匯款)|已收/],
+  ['charge', /自付額|應繳|請繳|需繳|要繳|收費|費用|帳單|金額|合計|總共|共計|月費|押金/],
+];
+
+const PURPOSES = ['自付額', '交通', '餐費', '耗材', '輔具', '喘息', '居服', '日照', '押金', '薪資', '月費', '藥費', '醫療'];
+
+const CHINESE_DIGITS: Record<string, number> = { 零: 0, 〇: 0, 一: 1, 二: 2, 兩: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+const CHINESE_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000, 萬: 10000 };
+
+// 「三千五百」、「一萬二千」，以及夾雜阿拉伯數字的「1萬2千」、「1.5萬」。
+// 省略尾數單位的口語「一萬二」、「三千五」依前一個單位補上（12000、3500）
+const parseChineseNumber = (text: string) => {
+  let total = 0;
+  let section = 0;
+  let digit = 0;
+  let digitIsSingle = false;
+  let lastUnit = 0;
+  let afterZero = false;
+  for (const token of text.replace(/,/g, '').match(/\d+(?:\.\d+)?|./g) || []) {
+    if (/^\d/.test(token) || token in CHINESE_DIGITS) {
+      digit = /^\d/.test(token) ? Number(token) : CHINESE_DIGITS[token];
+      digitIsSingle = token.length === 1;
+      if (digit === 0) afterZero = true;
+    } else if (token === '萬') {
+      total += (section + digit) * 10000;
+      section = 0;
+      digit = 0;
+      lastUnit = 10000;
+    } else {
+      section += (digit || 1) * CHINESE_UNITS[token];
+      digit = 0;
+      lastUnit = CHINESE_UNITS[token];
+    }
+  }
+  if (digit && digitIsSingle && !afterZero && lastUnit >= 100) digit *= lastUnit / 10;
+  return total + section + digit;
+};
+
+const NUMBER = String.raw`(?:\d[\d,]*(?:\.\d+)?|[零〇一二兩三四五六七八九十百千萬])+`;
+const AMOUNT = new RegExp(String.raw`(?:NT\$|NTD|\$)\s*(${NUMBER})|(${NUMBER})\s*(?:元|塊|圓)`, 'gi');
+// 未寫單位但緊接在費用字眼之後的數字，例如「自付額1200」
+const LABELLED_AMOUNT = /(?:自付額|費用|金額|合計|總共|共計|月費)\s*(?:為|是|[:：])?\s*(\d[\d,]{2,})(?![\d,]*\s*(?:元|塊|圓|萬))/g;
+
+/**
+ * 取出文字中所有新台幣金額（元）。
+ */
+export const parseAmounts = (text: string): number[] => {
+  const amounts: number[] = [];
+  for (const m of text.matchAll(AMOUNT)) amounts.push(Math.round(parseChineseNumber(m[1] || m[2])));
+  for (const m of text.matchAll(LABELLED_AMOUNT)) amounts.push(Number(m[1].replace(/,/g, '')));
+  return amounts.filter(a => a > 0);
+};
+
+const detectKind = (text: string): LedgerEntryKind =>
+  KIND_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] || 'mention';
+
+const detectPurpose = (text: string) => PURPOSES.find(p => text.includes(p)) || '';
+
+const splitClauses = (content: string) =>
+  content.split(/[，。；;！!？?\n]+/).map(s => s.trim()).filter(Boolean);
+
+/**
+ * 由費用訊息建立帳目。句子有金額即成一筆；沒有金額的句子只在
+ * 表示付款、退費或爭議時列入，以保留「已匯款」之類的確認紀錄。
+ */
+export const buildLedger = (messages: ChatMessage[], profiles: ParticipantProfile[]): LedgerEntry[] => {
+  const index = buildParticipantIndex(profiles);
+  const entries: LedgerEntry[] = [];
+
+  messages.filter(m => !m.isSystem && m.tags.includes(PAYMENT_TAG)).forEach(m => {
+    const messageKind = detectKind(m.content);
+    const messagePurpose = detectPurpose(m.content);
+    const profile = index.get(m.sender);
+    const base = { messageId: m.id, date: m.date, datetime: m.datetime, sender: profile?.name || m.sender, role: profile?.role || 'other' as ParticipantRole };
+    const before = entries.length;
+
+    splitClauses(m.content).forEach(clause => {
+      const clauseKind = detectKind(clause);
+      const kind = clauseKind === 'mention' ? messageKind : clauseKind;
+      const purpose = detectPurpose(clause) || messagePurpose;
+      parseAmounts(clause).forEach(amount => {
+        entries.push({ ...base, id: `${m.id}#${entries.length - before}`, kind, amount, purpose, excerpt: clause });
+      });
+    });
+
+    if (entries.length === before && messageKind !== 'mention' && messageKind !== 'charge') {
+      entries.push({ ...base, id: `${m.id}#0`, kind: messageKind, amount: null, purpose: messagePurpose, excerpt: m.content });
+    }
+  });
+
+  return entries;
+};
+
+export const summarizeByMonth = (entries: LedgerEntry[]): MonthlyTotal[] => {
+  const months = new Map<string, MonthlyTotal>();
+  entries.forEach(e => {
+    const month = e.date.slice(0, 7);
+    const total = months.get(month) || { month, charged: 0, paid: 0, refunded: 0, disputes: 0 };
+    if (e.kind === 'charge') total.charged += e.amount || 0;
+    if (e.kind === 'payment') total.paid += e.amount || 0;
+    if (e.kind === 'refund') total.refunded += e.amount || 0;
+    if (e.kind === 'dispute') total.disputes++;
+    months.set(month, total);
+  });
+  return Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month));
+};
+
+// 聊天內容可能以 = + - @ 開頭，加上 ' 避免試算表當成公式執行
+const csvCell = (value: string | number | null) => {
+  const raw = value === null ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 匯出 CSV；開頭加上 BOM 讓 Excel 正確辨識 UTF-8 中文。
+ */
+export const ledgerToCsv = (entries: LedgerEntry[], roleLabels: Record<ParticipantRole, string>) => {
+  const header = ['日期時間', '訊息 ID', '發送者', '角色', '類型', '用途', '金額', '原文'];
+  const rows = entries.map(e => [
+    e.datetime, e.messageId, e.sender, roleLabels[e.role], LEDGER_KIND_LABELS[e.kind], e.purpose, e.amount, e.excerpt,
+  ]);
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+};
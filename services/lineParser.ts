@@ -0,0 +1,283 @@
+import { LineDialect, UnparsedLine } from '../types';
+import { isSystemNotice, noticeSubject } from './messageKinds';
+
+// --- LINE export parser ---
+//
+// 支援 iOS / Android / 桌面版匯出的 .txt 聊天記錄，涵蓋繁中、英文與日文介面。
+// 無法歸屬的行不會被丟棄，而是回報於 unparsedLines 以利人工檢視。
+
+export interface ParsedLineMessage {
+  line: number;     // 訊息起始行（1 起算，與 UnparsedLine 相同）
+  date: string;     // 正規化為 YYYY/MM/DD
+  time: string;     // 匯出檔中的原始時間字串
+  sender: string;   // 系統訊息為空字串
+  content: string;
+}
+
+export interface ParsedLineExport {
+  dialect: LineDialect;
+  title: string | null;
+  savedAt: string | null;
+  messages: ParsedLineMessage[];
+  unparsedLines: UnparsedLine[];
+}
+
+const TITLE_PATTERN = /^\[LINE\]\s*(.*)$/;
+const SAVED_AT_PATTERN = /^(?:儲存日期|保存日時|Saved on)\s*[:：]\s*(.*)$/i;
+
+const DIALECT_HINTS: [LineDialect, RegExp][] = [
+  ['ja', /トーク履歴|保存日時|午[前後]\s?\d|[（(][月火水木金土][)）]/],
+  ['zh-TW', /聊天記錄|儲存日期|[上下]午\s?\d|(?:星期|週)[一二三四五六日天]|[（(](?:週|周|星期)?[一二三四五六日天][)）]/],
+  ['en', /Chat history|Saved on|\d\s?[AP]M\b|^(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun)[a-z]*,/i],
+];
+
+const TIME = String.raw`(?:[上下]午|午[前後])\s?\d{1,2}:\d{2}|\d{1,2}:\d{2}(?:\s?[AaPp]\.?[Mm]\.?)?|[AaPp][Mm]\s?\d{1,2}:\d{2}`;
+const TAB_MESSAGE_PATTERN = new RegExp(`^(${TIME})\\t([^\\t]*)(?:\\t(.*))?$`);
+// 舊版桌面匯出以空白分隔，僅在全檔皆無 Tab 時採用；含空白的名稱由 resolveSpaceSenders 判斷
+const SPACE_MESSAGE_PATTERN = new RegExp(`^(${TIME})\\s+(\\S.*)$`);
+// 名稱最多由幾段以空白分隔的文字組成
+const MAX_SENDER_WORDS = 3;
+
+const ISO_DATE_PATTERN = /^(\d{4})[/.\-](\d{1,2})[/.\-](\d{1,2})\s*(?:[（(][^）)]{1,4}[)）]|(?:星期|週|周)[一二三四五六日天]|[A-Za-z]+)?$/;
+const CJK_DATE_PATTERN = /^(\d{4})年(\d{1,2})月(\d{1,2})日\s*(?:[（(][^）)]{1,4}[)）]|(?:星期|週|周)[一二三四五六日天])?$/;
+const EN_DATE_PATTERN = /^(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun)[a-z]*\.?,?\s+(\d{1,2})\/(\d{1,2})\/(\d{4})$/i;
+
+const pad = (n: string) => n.padStart(2, '0');
+
+const PM_PATTERN = /下午|午後|[Pp]\.?[Mm]/;
+const AM_PATTERN = /上午|午前|[Aa]\.?[Mm]/;
+
+/**
+ * 解析各介面語言的時間字串為 24 小時制。12 小時制的 12 點屬於下一個半日：
+ * 上午12:05 / 午前0:05 / 12:05 AM 為 00:05，下午12:05 / 12:05 PM 為 12:05。
+ * 標示下午卻已是 13 點以上者視為 24 小時制。無法辨識或超出範圍時回傳 null。
+ */
+export const parseClockTime = (time: string): { hour: number; minute: number } | null => {
+  const m = time.match(/(\d{1,2}):(\d{2})/);
+  if (!m) return null;
+  const hour = Number(m[1]);
+  const minute = Number(m[2]);
+  if (minute > 59) return null;
+  if (PM_PATTERN.test(time) || AM_PATTERN.test(time)) {
+    if (hour > 12) return hour < 24 && PM_PATTERN.test(time) ? { hour, minute } : null;
+    return { hour: hour % 12 + (PM_PATTERN.test(time) ? 12 : 0), minute };
+  }
+  return hour < 24 ? { hour, minute } : null;
+};
+
+/**
+ * 將時間字串換算為當日的分鐘數，用於跨匯出檔排序；無法辨識時回傳 0。
+ */
+export const timeToMinutes = (time: string): number => {
+  const clock = parseClockTime(time);
+  return clock ? clock.hour * 60 + clock.minute : 0;
+};
+
+export const detectDialect = (lines: string[]): LineDialect => {
+  const scores = new Map<LineDialect, number>();
+  lines.slice(0, 500).forEach(line => {
+    for (const [dialect, pattern] of DIALECT_HINTS) {
+      if (pattern.test(line)) {
+        scores.set(dialect, (scores.get(dialect) || 0) + 1);
+        break;
+      }
+    }
+  });
+  let best: LineDialect = 'unknown';
+  let bestScore = 0;
+  scores.forEach((score, dialect) => {
+    if (score > bestScore) {
+      best = dialect;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const parseDateHeader = (line: string): string | null => {
+  let m = line.match(ISO_DATE_PATTERN) || line.match(CJK_DATE_PATTERN);
+  if (m) return `${m[1]}/${pad(m[2])}/${pad(m[3])}`;
+
+  m = line.match(EN_DATE_PATTERN);
+  if (m) {
+    // 英文介面為 MM/DD/YYYY；第一欄大於 12 時視為 DD/MM/YYYY
+    const [month, day] = Number(m[1]) > 12 ? [m[2], m[1]] : [m[1], m[2]];
+    return `${m[3]}/${pad(month)}/${pad(day)}`;
+  }
+  return null;
+};
+
+// 內容以 " 開頭代表多行訊息；結尾的 " 數量為奇數才是真正的收尾（"" 為跳脫）
+const closesQuote = (text: string) => {
+  const m = text.match(/"+$/);
+  return !!m && m[0].length % 2 === 1;
+};
+
+// 以空白分隔的訊息無法確定發送者名稱
+const AMBIGUOUS_SENDER = 'ambiguous-sender' as const;
+
+// 多行引號訊息的最大行數，避免未收尾的引號吞掉遠處的訊息
+const MAX_QUOTED_LINES = 200;
+
+const unescapeQuoted = (text: string) => text.replace(/""/g, '"');
+
+const words = (text: string) => text.split(/\s+/);
+
+// 拉丁字母的名稱片段，例如 John、O'Brien；這類名稱常含空白，只出現一次時無法判斷
+const LATIN_NAME_WORD = /^[A-Za-z][A-Za-z.'-]*$/;
+
+/**
+ * 以空白分隔的匯出無法直接區分「王 小明 你好」的名稱與內容，依序以下列方式判斷名稱字數：
+ * 1. 同一檔系統通知中出現過的成員名稱（如「John Smith joined the group」），取最長者；
+ * 2. 統計全檔訊息開頭的字詞組合，某發送者開頭的每一則訊息都接著同一個字詞（且至少兩則）時，
+ *    視為名稱的一部分，取最長者；
+ * 3. 只出現一次的發送者，前兩個字詞都像拉丁字母名稱時無法判斷，回傳 null，其餘取第一個字詞。
+ * 只依檔案本身判斷，重新解析原始檔時得到相同結果。
+ */
+const resolveSpaceSenders = (bodies: string[]) => {
+  const known = new Set<string>();
+  const counts = new Map<string, number>();
+  bodies.forEach(body => {
+    const subject = noticeSubject(body);
+    if (subject) known.add(words(subject).join(' '));
+    const parts = words(body);
+    for (let n = 1; n <= Math.min(MAX_SENDER_WORDS, parts.length - 1); n++) {
+      const prefix = parts.slice(0, n).join(' ');
+      counts.set(prefix, (counts.get(prefix) || 0) + 1);
+    }
+  });
+  return (body: string): number | null => {
+    const parts = words(body);
+    const max = Math.min(MAX_SENDER_WORDS, parts.length - 1);
+    for (let n = max; n > 1; n--) {
+      if (known.has(parts.slice(0, n).join(' '))) return n;
+    }
+    let n = 1;
+    while (n < max) {
+      const count = counts.get(parts.slice(0, n).join(' ')) || 0;
+      if (count < 2 || counts.get(parts.slice(0, n + 1).join(' ')) !== count) break;
+      n++;
+    }
+    if ((counts.get(parts.slice(0, n).join(' ')) || 0) >= 2 || known.has(parts[0])) return n;
+    return LATIN_NAME_WORD.test(parts[0]) && LATIN_NAME_WORD.test(parts[1]) ? null : 1;
+  };
+};
+
+export const parseLineExport = (raw: string): ParsedLineExport => {
+  const lines = raw.replace(/^﻿/, '').split(/\r?\n/);
+  const dialect = detectDialect(lines);
+  const useTabs = lines.some(l => TAB_MESSAGE_PATTERN.test(l.replace(/^\s+/, '')));
+  const senderWords = useTabs ? (): number | null => 1 : resolveSpaceSenders(
+    lines.flatMap(l => l.trim().match(SPACE_MESSAGE_PATTERN)?.[2] ?? [])
+  );
+
+  const messages: ParsedLineMessage[] = [];
+  const unparsedLines: UnparsedLine[] = [];
+  let title: string | null = null;
+  let savedAt: string | null = null;
+  let currentDate = '';
+  let current: ParsedLineMessage | null = null;
+  let quoteEnd = -1; // 目前多行引號的收尾行
+
+  const matchMessage = (line: string): { time: string; sender: string; content: string } | typeof AMBIGUOUS_SENDER | null => {
+    const tab = line.match(TAB_MESSAGE_PATTERN);
+    if (tab) {
+      // 只有兩欄時（時間\t內容）為系統訊息
+      return tab[3] === undefined
+        ? { time: tab[1], sender: '', content: tab[2] }
+        : { time: tab[1], sender: tab[2].trim(), content: tab[3] };
+    }
+    if (!useTabs) {
+      const space = line.match(SPACE_MESSAGE_PATTERN);
+      if (space) {
+        // 沒有發送者欄位的系統訊息：整行不含空白，或為收回、成員異動通知
+        if (!/\s/.test(space[2]) || isSystemNotice(space[2])) return { time: space[1], sender: '', content: space[2] };
+        const count = senderWords(space[2]);
+        if (count === null) return AMBIGUOUS_SENDER;
+        // 名稱之後須還有內容；名稱保留原本的空白
+        const head = space[2].match(new RegExp(`^(\\S+(?:\\s+\\S+){${count - 1}})\\s+([\\s\\S]*)$`));
+        if (head) return { time: space[1], sender: head[1], content: head[2] };
+      }
+    }
+    return null;
+  };
+
+  // 由 from 起找收尾引號所在行：不跨越日期標題、最多 MAX_QUOTED_LINES 行，找不到回傳 -1
+  const findClosingLine = (from: number) => {
+    const end = Math.min(lines.length, from + MAX_QUOTED_LINES);
+    for (let i = from; i < end; i++) {
+      const body = lines[i].replace(/[ \u3000]+$/, '');
+      if (closesQuote(body)) return i;
+      if (parseDateHeader(body.replace(/^\s+/, ''))) return -1;
+    }
+    return -1;
+  };
+
+  lines.forEach((rawLine, idx) => {
+    // 引號內的每一行都是內文，即使看起來像日期標題或訊息
+    if (current && idx <= quoteEnd) {
+      const body = rawLine.replace(/[ \u3000]+$/, '');
+      current.content = idx === quoteEnd
+        ? unescapeQuoted(`${current.content.slice(1)}\n${body.slice(0, -1)}`)
+        : `${current.content}\n${body}`;
+      return;
+    }
+
+    const line = rawLine.replace(/^\s+/, '').replace(/[ \u3000]+$/, '');
+    const matched = line ? matchMessage(line) : null;
+    if (matched === AMBIGUOUS_SENDER) {
+      unparsedLines.push({ line: idx + 1, text: rawLine, reason: '無法判斷發送者名稱（名稱可能含空白），請人工確認' });
+      current = null;
+      return;
+    }
+    const msgMatch = matched;
+    const dateMatch = line && !msgMatch ? parseDateHeader(line) : null;
+
+    if (!line) return;
+
+    if (idx < 5 && !title && TITLE_PATTERN.test(line)) {
+      title = line.match(TITLE_PATTERN)![1];
+      return;
+    }
+    const savedMatch = line.match(SAVED_AT_PATTERN);
+    if (savedMatch && !currentDate) {
+      savedAt = savedMatch[1];
+      return;
+    }
+
+    if (dateMatch) {
+      currentDate = dateMatch;
+      current = null;
+      return;
+    }
+
+    if (msgMatch) {
+      if (!currentDate) {
+        unparsedLines.push({ line: idx + 1, text: rawLine, reason: '訊息出現在任何日期標題之前' });
+        current = null;
+        return;
+      }
+      current = { line: idx + 1, date: currentDate, ...msgMatch };
+      messages.push(current);
+      if (current.content.startsWith('"') && !closesQuote(current.content.slice(1))) {
+        // 範圍內找不到收尾引號時保留原樣，其後各行照常逐行解析
+        quoteEnd = findClosingLine(idx + 1);
+      }
+      return;
+    }
+
+    if (current) {
+      // 未加引號的換行內容，併入上一則訊息
+      current.content += `\n${line}`;
+      return;
+    }
+
+    unparsedLines.push({
+      line: idx + 1,
+      text: rawLine,
+      reason: currentDate ? '無法對應到任何訊息' : '位於日期標題之前',
+    });
+  });
+
+  return { dialect, title, savedAt, messages, unparsedLines };
+};
@@ -0,0 +1,164 @@
+import { ChatMessage, ExportDiff, ExportDiffKind } from '../types';
+import { messageKindOf } from './messageKinds';
+
+// --- Export merging ---
+//
+// 同一群組每月重新匯出時，新檔案會與已封存的訊息大量重疊。
+// 依日期、時間、發送者與內容對齊兩份清單，只附加新訊息，
+// 並標出舊訊息在新匯出中被收回、內容不同或消失之處；已封存的訊息一律不修改。
+
+export const EXPORT_DIFF_LABELS: Record<ExportDiffKind, string> = {
+  unsent: '較新匯出中已收回',
+  changed: '較新匯出中內容不同',
+  missing: '較新匯出中不存在',
+};
+
+export interface MergeResult {
+  messages: ChatMessage[]; // 合併後依時間排列的完整清單
+  added: ChatMessage[];
+  duplicates: number;
+  diffs: ExportDiff[];
+}
+
+// 對齊時向前搜尋的訊息數，超過即視為兩份匯出在此處分歧
+const LOOKAHEAD = 30;
+
+const keyOf = (m: ChatMessage) => `${m.date}\u0000${m.time}\u0000${m.sender}\u0000${m.content}`;
+
+const slotOf = (m: ChatMessage) => `${m.date}\u0000${m.time}`;
+
+export const isUnsendNotice = (m: ChatMessage) => messageKindOf(m) === 'unsent';
+
+const findKey = (list: ChatMessage[], from: number, key: string) => {
+  const end = Math.min(list.length, from + LOOKAHEAD);
+  for (let i = from; i < end; i++) if (keyOf(list[i]) === key) return i;
+  return -1;
+};
+
+/**
+ * 將新匯出的訊息併入既有清單。兩份匯出沒有任何重疊時，
+ * 新匯出須完整位於既有訊息之前或之後，否則丟出錯誤。
+ */
+export const mergeExport = (
+  existing: ChatMessage[],
+  incoming: ChatMessage[],
+  sourceFileName: string
+): MergeResult => {
+  const detectedAt = Date.now();
+  const diffs: ExportDiff[] = [];
+  const diff = (m: ChatMessage, kind: ExportDiff['kind'], laterContent?: string) =>
+    diffs.push({ messageId: m.id, kind, sourceFileName, laterContent, detectedAt });
+
+  if (existing.length === 0 || incoming.length === 0) {
+    return { messages: [...existing, ...incoming], added: incoming, duplicates: 0, diffs };
+  }
+
+  const known = new Set(existing.map(keyOf));
+  const anchor = incoming.findIndex(m => known.has(keyOf(m)));
+  if (anchor === -1) {
+    const firstDate = incoming[0].date;
+    const lastDate = incoming[incoming.length - 1].date;
+    if (firstDate >= existing[existing.length - 1].date) {
+      return { messages: [...existing, ...incoming], added: incoming, duplicates: 0, diffs };
+    }
+    if (lastDate <= existing[0].date) {
+      return { messages: [...incoming, ...existing], added: incoming, duplicates: 0, diffs };
+    }
+    throw new Error('新匯出與既有訊息的期間重疊，但找不到任何相同的訊息，可能不是同一個聊天室。');
+  }
+
+  // 新匯出起點之前的既有訊息原樣保留；首則即相同時由該則開始對齊
+  const startDate = incoming[0].date;
+  const endDate = incoming[incoming.length - 1].date;
+  let i = anchor === 0
+    ? existing.findIndex(m => keyOf(m) === keyOf(incoming[0]))
+    : existing.findIndex(m => m.date >= startDate);
+  if (i === -1) i = existing.length;
+  const messages = existing.slice(0, i);
+  const added: ChatMessage[] = [];
+  let duplicates = 0;
+  let j = 0;
+
+  // ID 由內容產生，對齊未配對但 ID 相同者即為同一則訊息
+  const existingIds = new Set(existing.map(m => m.id));
+  const take = (m: ChatMessage) => {
+    if (existingIds.has(m.id)) {
+      duplicates++;
+      return;
+    }
+    messages.push(m);
+    added.push(m);
+  };
+
+  while (i < existing.length && j < incoming.length) {
+    const old = existing[i];
+    const next = incoming[j];
+    if (keyOf(old) === keyOf(next)) {
+      messages.push(old);
+      duplicates++;
+      i++;
+      j++;
+      continue;
+    }
+
+    const insertedUntil = findKey(incoming, j, keyOf(old));
+    const droppedUntil = findKey(existing, i, keyOf(next));
+    const insertGap = insertedUntil === -1 ? Infinity : insertedUntil - j;
+    const dropGap = droppedUntil === -1 ? Infinity : droppedUntil - i;
+
+    if (insertGap === Infinity && dropGap === Infinity) {
+      // 同一時間點被換成另一則：收回通知或內容不同
+      if (slotOf(old) === slotOf(next)) {
+        if (isUnsendNotice(next)) diff(old, 'unsent', next.content);
+        else if (old.sender === next.sender) diff(old, 'changed', next.content);
+        else diff(old, 'missing');
+        messages.push(old);
+        take(next);
+        i++;
+        j++;
+      } else if (next.date < old.date) {
+        take(next);
+        j++;
+      } else {
+        diff(old, 'missing');
+        messages.push(old);
+        i++;
+      }
+    } else if (insertGap <= dropGap) {
+      for (; j < insertedUntil; j++) take(incoming[j]);
+    } else {
+      for (; i < droppedUntil; i++) {
+        diff(existing[i], 'missing');
+        messages.push(existing[i]);
+      }
+    }
+  }
+
+  // 新匯出結束後的既有訊息：仍在新匯出期間內者視為消失
+  for (; i < existing.length; i++) {
+    if (existing[i].date <= endDate) diff(existing[i], 'missing');
+    messages.push(existing[i]);
+  }
+  for (; j < incoming.length; j++) take(incoming[j]);
+
+  // 收回通知可能不在原訊息的同一位置，以同日、同名的通知補判
+  const notices = added.filter(isUnsendNotice);
+  const byId = new Map(existing.map(m => [m.id, m]));
+  diffs.forEach(d => {
+    if (d.kind !== 'missing') return;
+    const old = byId.get(d.messageId);
+    const notice = old && old.sender && notices.find(n => n.date === old.date && n.content.includes(old.sender));
+    if (notice) {
+      d.kind = 'unsent';
+      d.laterContent = notice.content;
+    }
+  });
+
+  return { messages, added, duplicates, diffs };
+};
+
+/**
+ * 以訊息 ID 索引差異，同一則訊息只保留最新一筆。
+ */
+export const indexExportDiffs = (diffs: ExportDiff[] = []) =>
+  new Map(diffs.map(d => [d.messageId, d]));
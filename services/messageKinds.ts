@@ -0,0 +1,157 @@
+import { AttachmentKind, ChatMessage, MessageKind } from '../types';
+
+// --- Message kinds ---
+//
+// LINE 匯出檔以佔位文字代表照片、貼圖、檔案等非文字訊息，以系統訊息記錄收回、通話與成員異動，
+// 三種語系寫法不同。依這些寫法判斷類型，讓附件能對應回原訊息，通話與收回紀錄能另行篩選與引用。
+
+const PLACEHOLDERS: Partial<Record<MessageKind, string[]>> = {
+  photo: ['[照片]', '[Photo]', '[写真]'],
+  sticker: ['[貼圖]', '[Sticker]', '[スタンプ]'],
+  video: ['[影片]', '[Video]', '[動画]'],
+  file: ['[檔案]', '[File]', '[ファイル]'],
+  voice: ['[語音訊息]', '[Voice message]', '[ボイスメッセージ]'],
+  album: ['[相簿]', '[Album]', '[アルバム]'],
+  note: ['[記事本]', '[Note]', '[ノート]'],
+  poll: ['[投票]', '[Poll]'],
+  announcement: ['[公告]', '[Announcement]', '[アナウンス]'],
+};
+
+// 沒有發送者的系統訊息，依序比對
+const SYSTEM_PATTERNS: [MessageKind, RegExp][] = [
+  ['unsent', /已收回訊息|unsent a message|送信を取り?消しました/i],
+  ['invite', /邀請.+加入|已新增.+至群組|已將.+新增至群組|invited .+ to|added .+ to the group|を招待しました|をグループに追加しました/i],
+  ['leave', /退出群組|離開群組|移出群組|left the group|removed .+ from the group|を退会しました|グループから削除しました/i],
+  ['join', /加入群組|加入聊天|joined the group|に参加しました/i],
+  ['announcement', /公告|announcement|アナウンス/i],
+  ['album', /相簿|album|アルバム/i],
+  ['note', /記事本|a note|ノート/i],
+  ['poll', /投票|poll/i],
+];
+
+// 收回與成員異動的通知只有系統會產生，可用於判斷沒有發送者欄位的行
+const NOTICE_KINDS: MessageKind[] = ['unsent', 'invite', 'leave', 'join'];
+
+/**
+ * 內容是否為收回或成員異動的系統通知，例如「王小明已收回訊息」。
+ */
+export const isSystemNotice = (content: string) =>
+  SYSTEM_PATTERNS.some(([kind, pattern]) => NOTICE_KINDS.includes(kind) && pattern.test(content));
+
+// 通知開頭的成員名稱，例如「王 小明已收回訊息」、「John Smith joined the group」
+const NOTICE_SUBJECT_PATTERN = /^(.+?)\s*(?:已收回訊息|unsent a message|が送信を取り?消しました|加入群組|加入聊天|joined the group|に参加しました|退出群組|離開群組|left the group|を退会しました)/i;
+
+/**
+ * 系統通知中提到的成員名稱，沒有時回傳 null。
+ */
+export const noticeSubject = (content: string): string | null =>
+  content.match(NOTICE_SUBJECT_PATTERN)?.[1] ?? null;
+
+const CALL_PATTERN = /^☎|^(視訊)?通話時間|^(Video )?Call time|^(未接來電|Missed call|不在着信)/i;
+const CALL_DURATION_PATTERN = /(?:(\d+):)?(\d{1,2}):(\d{2})\s*$/;
+const MISSED_PATTERN = /未接來電|Missed call|不在着信/i;
+const CANCELED_PATTERN = /取消通話|已取消|Canceled call|Cancelled call|キャンセル/i;
+const NO_ANSWER_PATTERN = /無人接聽|無回應|No answer|応答なし/i;
+const VIDEO_PATTERN = /視訊|video|ビデオ/i;
+
+export const MESSAGE_KIND_LABELS: Record<MessageKind, string> = {
+  text: '文字',
+  photo: '照片',
+  sticker: '貼圖',
+  video: '影片',
+  file: '檔案',
+  voice: '語音訊息',
+  call: '通話',
+  missedCall: '未接通話',
+  unsent: '收回訊息',
+  join: '加入群組',
+  leave: '離開群組',
+  invite: '邀請成員',
+  album: '相簿',
+  note: '記事本',
+  announcement: '公告',
+  poll: '投票',
+  system: '系統訊息',
+};
+
+export const MESSAGE_KINDS = Object.keys(MESSAGE_KIND_LABELS) as MessageKind[];
+
+// 不屬於對話內容的紀錄；通話沿用過去的處理方式，不計入文字往來
+const SYSTEM_KINDS = new Set<MessageKind>(['call', 'missedCall', 'unsent', 'join', 'leave', 'invite', 'system']);
+
+export const isSystemKind = (kind: MessageKind) => SYSTEM_KINDS.has(kind);
+
+// 可由另行匯入的附件補上內容的訊息類型
+export const ATTACHABLE_KINDS: Partial<Record<MessageKind, AttachmentKind>> = {
+  photo: 'photo',
+  video: 'video',
+  voice: 'voice',
+  file: 'file',
+};
+
+const matchPlaceholder = (content: string) => {
+  const text = content.trim();
+  for (const kind of Object.keys(PLACEHOLDERS) as MessageKind[]) {
+    const placeholder = PLACEHOLDERS[kind]!.find(p => text.startsWith(p));
+    if (placeholder) return { kind, rest: text.slice(placeholder.length).trim() };
+  }
+  return null;
+};
+
+export interface CallRecord {
+  media: 'voice' | 'video';
+  outcome: 'answered' | 'missed' | 'canceled' | 'noAnswer';
+  durationSeconds?: number;
+}
+
+/**
+ * 解析通話紀錄，例如「☎ 通話時間 1:23」、「☎ 未接來電」、「☎ Video call time 1:02:03」。
+ */
+export const parseCallRecord = (content: string): CallRecord | null => {
+  const text = content.trim();
+  if (!CALL_PATTERN.test(text)) return null;
+  const media = VIDEO_PATTERN.test(text) ? 'video' : 'voice';
+  if (MISSED_PATTERN.test(text)) return { media, outcome: 'missed' };
+  if (CANCELED_PATTERN.test(text)) return { media, outcome: 'canceled' };
+  if (NO_ANSWER_PATTERN.test(text)) return { media, outcome: 'noAnswer' };
+  const duration = text.match(CALL_DURATION_PATTERN);
+  return {
+    media,
+    outcome: 'answered',
+    ...(duration ? { durationSeconds: Number(duration[1] || 0) * 3600 + Number(duration[2]) * 60 + Number(duration[3]) } : {}),
+  };
+};
+
+export const CALL_OUTCOME_LABELS: Record<CallRecord['outcome'], string> = {
+  answered: '已接通',
+  missed: '未接',
+  canceled: '已取消',
+  noAnswer: '無人接聽',
+};
+
+export const detectMessageKind = (content: string, sender: string): MessageKind => {
+  const call = parseCallRecord(content);
+  if (call) return call.outcome === 'answered' ? 'call' : 'missedCall';
+  const placeholder = matchPlaceholder(content);
+  if (placeholder) return placeholder.kind;
+  // 有發送者的訊息即使提到「公告」「投票」仍是一般文字
+  if (sender) return 'text';
+  return SYSTEM_PATTERNS.find(([, pattern]) => pattern.test(content))?.[0] ?? 'system';
+};
+
+export const messageKindOf = (m: ChatMessage): MessageKind => m.kind ?? detectMessageKind(m.content, m.sender);
+
+/**
+ * 檔案訊息佔位文字後的檔名（例如「[檔案] 繳費單.pdf」），沒有時回傳 null。
+ */
+export const placeholderFileName = (content: string): string | null => {
+  const match = matchPlaceholder(content);
+  return match?.kind === 'file' && match.rest ? match.rest : null;
+};
+
+export const formatCallDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h ? `${h} 小時 ${m} 分 ${s} 秒` : m ? `${m} 分 ${s} 秒` : `${s} 秒`;
+};
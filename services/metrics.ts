@@ -0,0 +1,214 @@
+import { ChatMessage, MessageKind, ParticipantProfile, ParticipantRole } from '../types';
+import { buildParticipantIndex, roleSide } from './participants';
+import { timeToMinutes } from './lineParser';
+import { messageKindOf, parseCallRecord } from './messageKinds';
+import { formatDate, messageEpoch, toUtcDate } from './datetime';
+
+// --- Communication metrics ---
+//
+// 完全由本機訊息計算，不經過模型。回應時間的定義：家屬/案主發出訊息後，
+// 到單位人員第一則回覆之間的分鐘數；同一段等待中家屬連續傳的多則訊息
+// 以第一則起算，角色為「其他」或系統訊息不列入。
+
+// 上班時段：週一至週五 08:00–18:00，其餘時間的家屬訊息計為非上班時段
+const WORK_START = 8 * 60;
+const WORK_END = 18 * 60;
+const WORST_CASES = 5;
+
+export interface ResponseSample {
+  requestId: string;  // 家屬等待起算的訊息
+  responseId: string; // 單位第一則回覆
+  responder: string;
+  requestDatetime: string;
+  waitMinutes: number;
+  afterHours: boolean;
+}
+
+export interface LatencySummary {
+  count: number;
+  medianMinutes: number | null;
+  p90Minutes: number | null;
+}
+
+export interface DailyVolume {
+  date: string;
+  family: number;
+  staff: number;
+  other: number;
+}
+
+export interface WeeklyTrend {
+  weekStart: string; // 該週週一，YYYY/MM/DD
+  messageCount: number;
+  responses: LatencySummary;
+}
+
+export interface SenderVolume {
+  name: string;
+  role: ParticipantRole;
+  count: number;
+}
+
+export interface CallSummary {
+  count: number;
+  answered: number;
+  missed: number; // 含未接、取消與無人接聽
+  totalSeconds: number;
+  callIds: string[];
+}
+
+export interface CommunicationMetrics {
+  messageCount: number;
+  responses: ResponseSample[];
+  latency: LatencySummary;
+  afterHoursLatency: LatencySummary;
+  worstResponses: ResponseSample[];
+  unanswered: string[]; // 對話結束時仍未獲單位回覆的家屬訊息（每個聊天室至多一則）
+  bySender: SenderVolume[];
+  byDay: DailyVolume[];
+  byHour: number[]; // 0–23 時的訊息數
+  byWeek: WeeklyTrend[];
+  tagCounts: Record<string, number>;
+  kindCounts: Partial<Record<MessageKind, number>>; // 含系統訊息
+  calls: CallSummary;
+}
+
+// 自 1970 起算的分鐘數，只用於相減；不同時區的對話以時間戳換算後仍可比較
+const toMinutes = (m: ChatMessage) => Math.floor(messageEpoch(m) / 60000);
+
+const weekStartOf = (date: string) => {
+  const d = toUtcDate(date);
+  d.setUTCDate(d.getUTCDate() - (d.getUTCDay() + 6) % 7);
+  return formatDate(d);
+};
+
+export const isAfterHours = (m: ChatMessage) => {
+  const day = toUtcDate(m.date).getUTCDay();
+  const minutes = timeToMinutes(m.time);
+  return day === 0 || day === 6 || minutes < WORK_START || minutes >= WORK_END;
+};
+
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return null;
+  const rank = (sorted.length - 1) * p;
+  const low = Math.floor(rank);
+  return Math.round(sorted[low] + (sorted[Math.ceil(rank)] - sorted[low]) * (rank - low));
+};
+
+const summarize = (samples: ResponseSample[]): LatencySummary => {
+  const sorted = samples.map(s => s.waitMinutes).sort((a, b) => a - b);
+  return { count: sorted.length, medianMinutes: percentile(sorted, 0.5), p90Minutes: percentile(sorted, 0.9) };
+};
+
+/**
+ * 將家屬訊息與其後第一則單位回覆配對；案件時間軸中各聊天室分開配對。
+ */
+export const pairResponses = (messages: ChatMessage[], profiles: ParticipantProfile[]) => {
+  const index = buildParticipantIndex(profiles);
+  const responses: ResponseSample[] = [];
+  const pending = new Map<string, ChatMessage>();
+
+  messages.forEach(m => {
+    if (m.isSystem) return;
+    const profile = index.get(m.sender);
+    const side = profile && roleSide(profile.role);
+    const chat = m.chat || '';
+    const request = pending.get(chat);
+    if (side === 'family') {
+      if (!request) pending.set(chat, m);
+    } else if (side === 'staff' && request) {
+      responses.push({
+        requestId: request.id,
+        responseId: m.id,
+        responder: profile.name,
+        requestDatetime: request.datetime,
+        waitMinutes: Math.max(0, toMinutes(m) - toMinutes(request)),
+        afterHours: isAfterHours(request),
+      });
+      pending.delete(chat);
+    }
+  });
+
+  return { responses, unanswered: Array.from(pending.values()).map(m => m.id) };
+};
+
+export const computeMetrics = (messages: ChatMessage[], profiles: ParticipantProfile[]): CommunicationMetrics => {
+  const index = buildParticipantIndex(profiles);
+  const { responses, unanswered } = pairResponses(messages, profiles);
+  const spoken = messages.filter(m => !m.isSystem);
+
+  const senders = new Map<string, SenderVolume>();
+  const days = new Map<string, DailyVolume>();
+  const weeks = new Map<string, { messageCount: number; responses: ResponseSample[] }>();
+  const byHour: number[] = new Array(24).fill(0);
+  const tagCounts: Record<string, number> = {};
+
+  spoken.forEach(m => {
+    const profile = index.get(m.sender);
+    const name = profile?.name || m.sender;
+    const sender = senders.get(name) || { name, role: profile?.role || 'other', count: 0 };
+    sender.count++;
+    senders.set(name, sender);
+
+    const day = days.get(m.date) || { date: m.date, family: 0, staff: 0, other: 0 };
+    day[(profile && roleSide(profile.role)) || 'other']++;
+    days.set(m.date, day);
+
+    const week = weekStartOf(m.date);
+    const bucket = weeks.get(week) || { messageCount: 0, responses: [] };
+    bucket.messageCount++;
+    weeks.set(week, bucket);
+
+    byHour[Math.min(23, Math.floor(timeToMinutes(m.time) / 60))]++;
+    m.tags.forEach(tag => { tagCounts[tag] = (tagCounts[tag] || 0) + 1; });
+  });
+
+  const kindCounts: Partial<Record<MessageKind, number>> = {};
+  const calls: CallSummary = { count: 0, answered: 0, missed: 0, totalSeconds: 0, callIds: [] };
+  messages.forEach(m => {
+    const kind = messageKindOf(m);
+    kindCounts[kind] = (kindCounts[kind] || 0) + 1;
+    const call = kind === 'call' || kind === 'missedCall' ? parseCallRecord(m.content) : null;
+    if (!call) return;
+    calls.count++;
+    calls.callIds.push(m.id);
+    if (call.outcome === 'answered') {
+      calls.answered++;
+      calls.totalSeconds += call.durationSeconds ?? 0;
+    } else {
+      calls.missed++;
+    }
+  });
+
+  const dateOf = new Map(messages.map(m => [m.id, m.date]));
+  responses.forEach(r => weeks.get(weekStartOf(dateOf.get(r.requestId)!))?.responses.push(r));
+
+  return {
+    messageCount: spoken.length,
+    responses,
+    latency: summarize(responses),
+    afterHoursLatency: summarize(responses.filter(r => r.afterHours)),
+    worstResponses: [...responses].sort((a, b) => b.waitMinutes - a.waitMinutes).slice(0, WORST_CASES),
+    unanswered,
+    bySender: Array.from(senders.values()).sort((a, b) => b.count - a.count),
+    byDay: Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    byHour,
+    byWeek: Array.from(weeks.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([weekStart, w]) => ({ weekStart, messageCount: w.messageCount, responses: summarize(w.responses) })),
+    tagCounts,
+    kindCounts,
+    calls,
+  };
+};
+
+/**
+ * 以「1 小時 20 分」、「2 天 3 小時」等形式顯示分鐘數。
+ */
+export const formatDuration = (minutes: number | null) => {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${minutes} 分`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours} 小時 ${minutes % 60} 分` : `${hours} 小時`;
+  return hours % 24 ? `${Math.floor(hours / 24)} 天 ${hours % 24} 小時` : `${Math.floor(hours / 24)} 天`;
+};
@@ -0,0 +1,187 @@
+import { AnalysisJob, AnalysisResult, CaseFolder, ChatMessage, ChatSession, QaTurn } from '../types';
+import {
+  STABLE_ID_SCHEMA_VERSION,
+  appendCustodyEntry,
+  assignMessageIds,
+  decodeSourceText,
+  hashMessage,
+  legacyMessageId,
+  uniqueMessageId,
+} from './custody';
+import { parseLineExport } from './lineParser';
+import { DEFAULT_TIME_ZONE, withTimeZone } from './datetime';
+import { caseMessageId, splitCaseMessageId } from './cases';
+import { verifyAnalysis } from './verification';
+import { withEventDates } from './timeline';
+
+// --- Stored session migrations ---
+//
+// 儲存區與 JSON 封存中的 session 可能來自舊版程式。開啟時依 schemaVersion 逐版遷移，
+// 遷移本身記入保管紀錄；原本就與雜湊不符的訊息不重新計算雜湊，以免掩蓋竄改。
+//
+// 第 2 版：訊息 ID 由行號改為內容產生、加入來源時區與 ISO 8601 時間戳。
+
+export const SESSION_SCHEMA_VERSION = STABLE_ID_SCHEMA_VERSION;
+
+// 分析結果：第 1 版沒有原文驗證、承諾追蹤與正規化的事件日期，第 2 版為目前格式
+export const ANALYSIS_SCHEMA_VERSION = 2;
+
+export interface MigrationResult {
+  session: ChatSession;
+  idMap: Map<string, string>; // 舊 ID → 新 ID，供更新案件層級的引用
+}
+
+export const needsMigration = (session: ChatSession) => (session.schemaVersion ?? 1) < SESSION_SCHEMA_VERSION;
+
+// 以原始匯出檔重建舊 ID 與新 ID 的對應；沒有原始檔的訊息以其目前內容產生
+const buildIdMap = (session: ChatSession): Map<string, string> => {
+  const idMap = new Map<string, string>();
+  for (const [index, source] of (session.sources || []).entries()) {
+    let parsed;
+    try {
+      parsed = parseLineExport(decodeSourceText(source)).messages;
+    } catch {
+      continue;
+    }
+    const ids = assignMessageIds(parsed);
+    parsed.forEach((m, i) => idMap.set(legacyMessageId(index, m.line), ids[i]));
+  }
+
+  const bySource = new Map<number, ChatMessage[]>();
+  session.messages.filter(m => !idMap.has(m.id)).forEach(m => {
+    const list = bySource.get(m.source ?? 0) || [];
+    list.push(m);
+    bySource.set(m.source ?? 0, list);
+  });
+  bySource.forEach(list => {
+    const ids = assignMessageIds(list);
+    list.forEach((m, i) => idMap.set(m.id, ids[i]));
+  });
+
+  // 合併後的清單中仍須唯一；依來源檔順序編號，與 compareWithSource 相同
+  const used = new Set<string>();
+  [...session.messages]
+    .sort((a, b) => (a.source ?? 0) - (b.source ?? 0))
+    .forEach(m => {
+      const id = uniqueMessageId(idMap.get(m.id)!, used);
+      used.add(id);
+      idMap.set(m.id, id);
+    });
+  return idMap;
+};
+
+const remapAnalysis = (analysis: AnalysisResult, mapId: (id: string) => string): AnalysisResult => ({
+  ...analysis,
+  events: analysis.events.map(e => ({
+    ...e,
+    relatedMessageIds: e.relatedMessageIds.map(mapId),
+    ...(e.verification ? {
+      verification: {
+        ...e.verification,
+        invalidMessageIds: e.verification.invalidMessageIds.map(mapId),
+        familyExcerpts: e.verification.familyExcerpts.map(x => x.messageId ? { ...x, messageId: mapId(x.messageId) } : x),
+        staffExcerpts: e.verification.staffExcerpts.map(x => x.messageId ? { ...x, messageId: mapId(x.messageId) } : x),
+      },
+    } : {}),
+  })),
+  ...(analysis.commitments ? {
+    commitments: analysis.commitments.map(c => ({
+      ...c,
+      sourceMessageId: mapId(c.sourceMessageId),
+      evidenceMessageIds: c.evidenceMessageIds.map(mapId),
+    })),
+  } : {}),
+});
+
+const remapJob = (job: AnalysisJob, mapId: (id: string) => string): AnalysisJob => ({
+  ...job,
+  chunks: job.chunks.map(c => ({
+    ...c,
+    firstMessageId: mapId(c.firstMessageId),
+    lastMessageId: mapId(c.lastMessageId),
+    ...(c.result ? { result: remapAnalysis(c.result, mapId) } : {}),
+  })),
+});
+
+// 回答內文以 [訊息 ID] 標示引用，一併改寫
+const remapQaTurn = (turn: QaTurn, mapId: (id: string) => string): QaTurn => ({
+  ...turn,
+  answer: turn.answer.replace(/\[([^\[\]\s]+)\]/g, (match, id: string) => mapId(id) === id ? match : `[${mapId(id)}]`),
+  citedMessageIds: turn.citedMessageIds.map(mapId),
+  invalidMessageIds: turn.invalidMessageIds.map(mapId),
+});
+
+const migrateToStableIds = async (session: ChatSession): Promise<MigrationResult> => {
+  const timeZone = session.timeZone ?? DEFAULT_TIME_ZONE;
+  const idMap = buildIdMap(session);
+  const mapId = (id: string) => idMap.get(id) ?? id;
+
+  const renamed = withTimeZone(session.messages, timeZone);
+  const messages: ChatMessage[] = [];
+  for (const m of renamed) {
+    const next = { ...m, id: mapId(m.id) };
+    // 只為原本雜湊相符的訊息重算，不符者保留舊雜湊使驗證仍會指出
+    if (m.hash && m.hash === await hashMessage(m)) next.hash = await hashMessage(next);
+    messages.push(next);
+  }
+
+  const annotations = session.annotations && Object.fromEntries(
+    Object.keys(session.annotations).map(id => [mapId(id), session.annotations![id]])
+  );
+
+  const migrated: ChatSession = {
+    ...session,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    timeZone,
+    messages,
+    ...(annotations ? { annotations } : {}),
+    ...(session.analysis ? { analysis: remapAnalysis(session.analysis, mapId) } : {}),
+    ...(session.analysisJob ? { analysisJob: remapJob(session.analysisJob, mapId) } : {}),
+    ...(session.qaHistory ? { qaHistory: session.qaHistory.map(t => remapQaTurn(t, mapId)) } : {}),
+    ...(session.attachments ? { attachments: session.attachments.map(a => a.messageId ? { ...a, messageId: mapId(a.messageId) } : a) } : {}),
+    ...(session.exportDiffs ? { exportDiffs: session.exportDiffs.map(d => ({ ...d, messageId: mapId(d.messageId) })) } : {}),
+  };
+  const changed = session.messages.filter(m => mapId(m.id) !== m.id).length;
+  const logged = await appendCustodyEntry(
+    migrated,
+    'edit',
+    `資料結構更新至第 ${SESSION_SCHEMA_VERSION} 版：${changed} 則訊息 ID 改由內容產生，時間戳以 ${timeZone} 換算`
+  );
+  return { session: logged, idMap };
+};
+
+/**
+ * 將 session 遷移至目前的資料結構；訊息須已載入。無需遷移時原物件與空對應表原樣回傳。
+ */
+export const migrateSession = async (session: ChatSession): Promise<MigrationResult> => {
+  if (!needsMigration(session)) return { session, idMap: new Map() };
+  return migrateToStableIds(session);
+};
+
+/**
+ * 補上舊版分析缺少的原文驗證與事件日期。須在訊息 ID 遷移前執行，使分析與訊息使用同一套 ID。
+ */
+export const migrateAnalysis = (analysis: AnalysisResult, messages: ChatMessage[]): AnalysisResult => {
+  if ((analysis.schemaVersion ?? 1) >= ANALYSIS_SCHEMA_VERSION) return analysis;
+  const verified = analysis.events.some(e => !e.verification)
+    ? verifyAnalysis(analysis, messages)
+    : withEventDates(analysis, messages);
+  return { ...verified, schemaVersion: ANALYSIS_SCHEMA_VERSION };
+};
+
+/**
+ * 以成員 session 的 ID 對應表更新案件分析中的 <sessionId>:<messageId> 引用。
+ */
+export const remapCaseMessageIds = (folder: CaseFolder, sessionId: string, idMap: Map<string, string>): CaseFolder => {
+  if (idMap.size === 0 || (!folder.analysis && !folder.analysisJob)) return folder;
+  const mapId = (id: string) => {
+    const { sessionId: owner, messageId } = splitCaseMessageId(id);
+    const next = owner === sessionId ? idMap.get(messageId) : undefined;
+    return next ? caseMessageId(sessionId, next) : id;
+  };
+  return {
+    ...folder,
+    ...(folder.analysis ? { analysis: remapAnalysis(folder.analysis, mapId) } : {}),
+    ...(folder.analysisJob ? { analysisJob: remapJob(folder.analysisJob, mapId) } : {}),
+  };
+};
@@ -0,0 +1,164 @@
+import { CaseEvent, ChatMessage, ExcerptVerification, ParticipantProfile, ParticipantRole } from '../types';
+
+// --- Participant roles & aliases ---
+//
+// 每個原始發送者名稱至多屬於一位參與者；改名前後的名稱以別名合併為同一人，
+// 角色再用於訊息顯示、篩選、分析提示與摘錄分組。
+
+export type ParticipantSide = 'family' | 'staff';
+
+export const PARTICIPANT_ROLE_LABELS: Record<ParticipantRole, string> = {
+  family: '家屬',
+  client: '案主',
+  careWorker: '居服員',
+  supervisor: '督導/主管',
+  other: '其他',
+};
+
+export const PARTICIPANT_ROLES = Object.keys(PARTICIPANT_ROLE_LABELS) as ParticipantRole[];
+
+const ROLE_SIDES: Record<ParticipantRole, ParticipantSide | undefined> = {
+  family: 'family',
+  client: 'family',
+  careWorker: 'staff',
+  supervisor: 'staff',
+  other: undefined,
+};
+
+export const roleSide = (role: ParticipantRole) => ROLE_SIDES[role];
+
+// 僅依名稱中的職稱做初步推測，其餘一律為「其他」由人工指定
+const guessRole = (name: string): ParticipantRole => {
+  if (/督導|主任|組長|居督|主管/.test(name)) return 'supervisor';
+  if (/居服|照服|服務員|照顧員|個管|社工/.test(name)) return 'careWorker';
+  return 'other';
+};
+
+/**
+ * 補齊尚未建立資料的發送者，回傳涵蓋所有參與者的清單。
+ */
+export const resolveProfiles = (participants: string[], profiles: ParticipantProfile[] = []): ParticipantProfile[] => {
+  const known = new Set(profiles.flatMap(p => [p.name, ...p.aliases]));
+  const missing = participants
+    .filter(name => !known.has(name))
+    .map(name => ({ name, role: guessRole(name), aliases: [] }));
+  return [...profiles, ...missing];
+};
+
+/**
+ * 以原始發送者名稱查詢所屬參與者。
+ */
+export const buildParticipantIndex = (profiles: ParticipantProfile[]) => {
+  const index = new Map<string, ParticipantProfile>();
+  profiles.forEach(p => [p.name, ...p.aliases].forEach(name => index.set(name, p)));
+  return index;
+};
+
+export const setParticipantRole = (profiles: ParticipantProfile[], name: string, role: ParticipantRole) =>
+  profiles.map(p => p.name === name ? { ...p, role } : p);
+
+/**
+ * 將 source 併入 target：source 的名稱與別名都成為 target 的別名。
+ */
+export const mergeParticipants = (profiles: ParticipantProfile[], targetName: string, sourceName: string) => {
+  const source = profiles.find(p => p.name === sourceName);
+  if (!source || sourceName === targetName) return profiles;
+  return profiles
+    .filter(p => p.name !== sourceName)
+    .map(p => p.name === targetName
+      ? { ...p, aliases: Array.from(new Set([...p.aliases, source.name, ...source.aliases])) }
+      : p);
+};
+
+/**
+ * 將別名拆回獨立的參與者，角色沿用原本的指定。
+ */
+export const splitAlias = (profiles: ParticipantProfile[], ownerName: string, alias: string) => {
+  const owner = profiles.find(p => p.name === ownerName);
+  if (!owner || !owner.aliases.includes(alias)) return profiles;
+  return [
+    ...profiles.map(p => p === owner ? { ...p, aliases: p.aliases.filter(a => a !== alias) } : p),
+    { name: alias, role: owner.role, aliases: [] },
+  ];
+};
+
+/**
+ * 將某個別名設為主要顯示名稱。
+ */
+export const renameParticipant = (profiles: ParticipantProfile[], ownerName: string, alias: string) =>
+  profiles.map(p => p.name === ownerName && p.aliases.includes(alias)
+    ? { ...p, name: alias, aliases: [p.name, ...p.aliases.filter(a => a !== alias)] }
+    : p);
+
+export const countMessagesByParticipant = (messages: ChatMessage[], index: Map<string, ParticipantProfile>) => {
+  const counts: Record<string, number> = {};
+  messages.forEach(m => {
+    const profile = index.get(m.sender);
+    if (profile) counts[profile.name] = (counts[profile.name] || 0) + 1;
+  });
+  return counts;
+};
+
+// 分析提示中的發言者標示，例如「王小明（家屬）」
+export const describeSpeaker = (index: Map<string, ParticipantProfile>, sender: string) => {
+  const profile = index.get(sender);
+  if (!profile) return sender;
+  return profile.role === 'other' ? profile.name : `${profile.name}（${PARTICIPANT_ROLE_LABELS[profile.role]}）`;
+};
+
+export const describeRoster = (profiles: ParticipantProfile[]) =>
+  profiles.map(p => {
+    const aliases = p.aliases.length > 0 ? `；曾用名稱：${p.aliases.join('、')}` : '';
+    return `- ${p.name}：${PARTICIPANT_ROLE_LABELS[p.role]}${aliases}`;
+  }).join('\n');
+
+// --- Excerpt grouping ---
+
+export interface GroupedExcerpt {
+  text: string;
+  verification?: ExcerptVerification;
+  regrouped: boolean; // 依發言者角色移到與 AI 歸類不同的一方
+}
+
+/**
+ * 依摘錄對應訊息的發言者角色分組；無法對應或角色未指定時沿用 AI 的歸類。
+ */
+export const groupExcerpts = (
+  event: CaseEvent,
+  messagesById: Map<string, ChatMessage>,
+  index: Map<string, ParticipantProfile>
+): Record<ParticipantSide, GroupedExcerpt[]> => {
+  const groups: Record<ParticipantSide, GroupedExcerpt[]> = { family: [], staff: [] };
+  const place = (texts: string[] = [], verifications: ExcerptVerification[] = [], aiSide: ParticipantSide) => {
+    texts.forEach((text, i) => {
+      const verification = verifications[i];
+      const sender = verification?.messageId ? messagesById.get(verification.messageId)?.sender : undefined;
+      const profile = sender !== undefined ? index.get(sender) : undefined;
+      const side = (profile && roleSide(profile.role)) || aiSide;
+      groups[side].push({ text, verification, regrouped: side !== aiSide });
+    });
+  };
+  place(event.familyExcerpts, event.verification?.familyExcerpts, 'family');
+  place(event.staffExcerpts, event.verification?.staffExcerpts, 'staff');
+  return groups;
+};
+
+/**
+ * 產生保管紀錄用的變更說明。
+ */
+export const describeProfileChanges = (before: ParticipantProfile[], after: ParticipantProfile[]) => {
+  const changes: string[] = [];
+  const previous = buildParticipantIndex(before);
+  after.forEach(p => {
+    const old = previous.get(p.name);
+    if (old && old.role !== p.role && old.name === p.name) {
+      changes.push(`${p.name} 角色改為${PARTICIPANT_ROLE_LABELS[p.role]}`);
+    } else if (!old || old.name !== p.name) {
+      changes.push(`${p.name} 設為${PARTICIPANT_ROLE_LABELS[p.role]}`);
+    }
+    const oldAliases = new Set(old?.name === p.name ? old.aliases : []);
+    const added = p.aliases.filter(a => !oldAliases.has(a));
+    if (added.length > 0) changes.push(`${added.join('、')} 合併為 ${p.name}`);
+  });
+  return changes;
+};
@@ -0,0 +1,159 @@
+import { ChatMessage, ParticipantProfile, QaTurn } from '../types';
+import { AiProvider } from './aiProvider';
+import { PARTICIPANT_ROLE_LABELS, buildParticipantIndex, describeSpeaker } from './participants';
+import { buildRedactionTable, createRedactor, redactMessages, redactProfiles } from './redaction';
+import { JsonSchema } from './schema';
+
+// --- Ask the archive ---
+//
+// 先在本機以字元組比對找出與問題相關的訊息（連同前後文），只把這些訊息送給模型；
+// 模型須以 [訊息 ID] 標示依據，未提供給模型的 ID 會被標記為無效引用。
+
+const MAX_HITS = 40;
+const CONTEXT_RADIUS = 1; // 命中訊息前後各帶幾則作為上下文
+const MAX_CONTEXT_MESSAGES = 120;
+const HISTORY_TURNS = 3;
+
+const QA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    citedMessageIds: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['answer', 'citedMessageIds'],
+};
+
+// 模型引用訊息的格式，例如 [msg-3f9a2c1b7d4e]
+export const CITATION_PATTERN = /\[([^\[\]\s]+)\]/g;
+
+const terms = (text: string) => {
+  const lower = text.toLowerCase();
+  const set = new Set<string>();
+  (lower.match(/[a-z0-9]{2,}/g) || []).forEach(w => set.add(w));
+  (lower.match(/[\u3040-\u30ff\u3400-\u9fff]+/g) || []).forEach(run => {
+    for (let i = 0; i < run.length - 1; i++) set.add(run.slice(i, i + 2));
+  });
+  return set;
+};
+
+/**
+ * 依問題挑出相關訊息：以字元組的 IDF 加權計分，問題提到角色名稱（如「家屬」）時
+ * 該角色的發言另外加分；取分數最高者並補上前後文，依對話順序回傳。
+ */
+export const retrieveMessages = (
+  messages: ChatMessage[],
+  question: string,
+  profiles: ParticipantProfile[] = []
+): ChatMessage[] => {
+  const queryTerms = Array.from(terms(question));
+  if (queryTerms.length === 0 || messages.length === 0) return [];
+
+  const messageTerms = messages.map(m => terms(`${m.sender} ${m.content}`));
+  const weights = new Map(queryTerms.map(t => {
+    const df = messageTerms.filter(set => set.has(t)).length;
+    return [t, df === 0 ? 0 : Math.log((messages.length + 1) / df)];
+  }));
+
+  const index = buildParticipantIndex(profiles);
+  const mentionedRoles = new Set(
+    profiles.map(p => p.role).filter(role => role !== 'other' && question.includes(PARTICIPANT_ROLE_LABELS[role].split('/')[0]))
+  );
+
+  const scored = messages
+    .map((m, i) => {
+      let score = 0;
+      queryTerms.forEach(t => { if (messageTerms[i].has(t)) score += weights.get(t)!; });
+      const role = index.get(m.sender)?.role;
+      if (score > 0 && role && mentionedRoles.has(role)) score *= 1.5;
+      return { i, score };
+    })
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HITS);
+
+  const picked = new Set<number>();
+  scored.forEach(({ i }) => {
+    for (let k = Math.max(0, i - CONTEXT_RADIUS); k <= Math.min(messages.length - 1, i + CONTEXT_RADIUS); k++) {
+      if (picked.size < MAX_CONTEXT_MESSAGES) picked.add(k);
+    }
+  });
+  return Array.from(picked).sort((a, b) => a - b).map(i => messages[i]);
+};
+
+const buildQaPrompt = (
+  question: string,
+  context: ChatMessage[],
+  profiles: ParticipantProfile[],
+  history: QaTurn[]
+) => {
+  const index = buildParticipantIndex(profiles);
+  const lines = context.map(m =>
+    `[${m.id}][${m.datetime}]${m.chat ? `［${m.chat}］` : ''} ${describeSpeaker(index, m.sender)}: ${m.content}`
+  ).join('\n');
+  const previous = history.slice(-HISTORY_TURNS)
+    .map(t => `問：${t.question}\n答：${t.answer}`)
+    .join('\n\n');
+
+  return `你是一位協助長照督導查閱 LINE 對話證據的助理。請只根據下方提供的訊息回答問題，使用繁體中文。
+    每個論點後以方括號標示依據的訊息 ID，例如 [msg-3f9a2c1b7d4e]；只能引用下方出現的 ID。
+    若訊息不足以回答，請直接說明找不到依據，不要推測。citedMessageIds 請列出所有引用的 ID。
+${previous ? `\n    先前的問答（供理解追問）：\n${previous}\n` : ''}
+    問題：${question}
+
+    相關訊息（依時間排列）：
+    ${lines}`;
+};
+
+export interface AskOptions {
+  profiles: ParticipantProfile[];
+  history: QaTurn[];
+  redact: boolean; // 送往外部服務時遮蔽個資，回答再換回原文
+  customTerms: string[]; // 與送出前預覽相同的自訂遮蔽詞
+  signal: AbortSignal;
+}
+
+export const askArchive = async (
+  provider: AiProvider,
+  messages: ChatMessage[],
+  question: string,
+  { profiles, history, redact, customTerms, signal }: AskOptions
+): Promise<QaTurn> => {
+  const lastQuestion = history[history.length - 1]?.question || '';
+  let context = retrieveMessages(messages, question, profiles);
+  // 追問常省略主詞，找不到時併入上一題再檢索一次
+  if (context.length === 0 && lastQuestion) context = retrieveMessages(messages, `${lastQuestion} ${question}`, profiles);
+
+  const askedAt = Date.now();
+  const base = { id: `qa-${askedAt}`, question, retrievedCount: context.length, provider: provider.label, redacted: redact, askedAt };
+  if (context.length === 0) {
+    return { ...base, answer: '封存中找不到與此問題相關的訊息，請換個說法或使用對話中出現的關鍵字。', citedMessageIds: [], invalidMessageIds: [], redacted: false };
+  }
+
+  // 提問與先前問答同樣會送出，其中的個資也要納入對照表
+  const sentTexts = [question, ...history.flatMap(t => [t.question, t.answer])];
+  const redactor = redact ? createRedactor(buildRedactionTable(context, profiles, customTerms, sentTexts)) : null;
+  const prompt = redactor
+    ? buildQaPrompt(
+        redactor.redactText(question),
+        redactMessages(context, redactor),
+        redactProfiles(profiles, redactor),
+        history.map(t => ({ ...t, question: redactor.redactText(t.question), answer: redactor.redactText(t.answer) }))
+      )
+    : buildQaPrompt(question, context, profiles, history);
+
+  const result = await provider.generate<{ answer: string; citedMessageIds: string[] }>({
+    prompt, schemaName: 'archive_answer', schema: QA_SCHEMA, signal,
+  });
+  const answer = redactor ? redactor.restoreText(result.answer) : result.answer;
+
+  const provided = new Set(context.map(m => m.id));
+  const known = new Set(messages.map(m => m.id));
+  const inline = Array.from(answer.matchAll(CITATION_PATTERN), m => m[1]).filter(id => known.has(id));
+  const cited = Array.from(new Set([...result.citedMessageIds, ...inline]));
+  return {
+    ...base,
+    answer,
+    citedMessageIds: cited.filter(id => provided.has(id)),
+    invalidMessageIds: cited.filter(id => !provided.has(id)),
+  };
+};
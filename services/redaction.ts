@@ -0,0 +1,152 @@
+import { AnalysisResult, ChatMessage, ParticipantProfile, ParticipantRole, PiiKind, RedactionEntry } from '../types';
+
+// --- PII redaction ---
+//
+// 送往 AI 服務前以固定代稱取代姓名、電話、身分證字號、Email 與地址，
+// 分析結果回來後依對照表換回原文。同一原文在整份對話中永遠對應同一個代稱。
+
+export const PII_KIND_LABELS: Record<PiiKind, string> = {
+  name: '姓名',
+  phone: '電話',
+  nationalId: '身分證字號',
+  email: 'Email',
+  address: '地址',
+  custom: '自訂',
+};
+
+const NAME_PREFIX: Record<ParticipantRole, string> = {
+  family: '家屬',
+  client: '案主',
+  careWorker: '居服員',
+  supervisor: '督導',
+  other: '人員',
+};
+
+const TOKEN_PREFIX: Record<Exclude<PiiKind, 'name'>, string> = {
+  phone: '電話',
+  nationalId: '身分證',
+  email: 'Email',
+  address: '地址',
+  custom: '遮蔽',
+};
+
+const NUM = '[0-9０-９]';
+const HAN = '[\\u4e00-\\u9fff]';
+const COUNTIES = '(?:[台臺](?:北|中|南|東)|新北|桃園|高雄|基隆|新竹|嘉義|苗栗|彰化|南投|雲林|屏東|宜蘭|花蓮|澎湖|金門|連江)[市縣]';
+
+// 依序比對，較具體的格式在前
+const PATTERNS: [Exclude<PiiKind, 'name' | 'custom'>, RegExp][] = [
+  ['email', /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g],
+  ['nationalId', /(?<![A-Za-z0-9])[A-Za-z][12689]\d{8}(?!\d)/g],
+  ['phone', /(?<!\d)(?:(?:\+886[-\s]?|0)9\d{2}[-\s]?\d{3}[-\s]?\d{3}|\(?0[2-8]\d?\)?[-\s]?\d{3,4}[-\s]?\d{4})(?!\d)/g],
+  ['address', new RegExp(
+    `(?:${COUNTIES}(?:${HAN}{1,3}[區鄉鎮市])?)?${HAN}{1,6}(?:路|街|大道)` +
+    `(?:[一二三四五六七八九十]+段|${NUM}+段)?(?:${NUM}+巷)?(?:${NUM}+弄)?${NUM}+(?:之${NUM}+)?號(?:${NUM}+樓)?(?:之${NUM}+)?`,
+    'g'
+  )],
+];
+
+// 過短的名稱在內文中容易誤傷一般字詞，只用於替換發送者欄位
+const MIN_CONTENT_TERM_LENGTH = 2;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 長者優先，避免「王小明」只被「王小」部分取代
+const buildAlternation = (terms: string[], suffix = '') =>
+  terms.length === 0
+    ? null
+    : new RegExp(`(?:${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})${suffix}`, 'g');
+
+/**
+ * 掃描整份對話建立對照表：參與者姓名依角色編號，其餘個資依出現順序編號。
+ */
+export const buildRedactionTable = (
+  messages: ChatMessage[],
+  profiles: ParticipantProfile[],
+  customTerms: string[] = [],
+  extraTexts: string[] = [] // 不屬於訊息但同樣會送出的文字，例如提問
+): RedactionEntry[] => {
+  const entries = new Map<string, RedactionEntry>();
+  const counters: Record<string, number> = {};
+  const nextToken = (prefix: string) => `[${prefix}${(counters[prefix] = (counters[prefix] || 0) + 1)}]`;
+  const add = (kind: PiiKind, original: string, token: string) => {
+    if (original && !entries.has(original)) entries.set(original, { kind, original, token });
+  };
+
+  profiles.forEach(p => {
+    const token = nextToken(NAME_PREFIX[p.role]);
+    [p.name, ...p.aliases].forEach(name => add('name', name, token));
+  });
+  customTerms.map(t => t.trim()).filter(Boolean).forEach(term => {
+    if (!entries.has(term)) add('custom', term, nextToken(TOKEN_PREFIX.custom));
+  });
+
+  [...messages.map(m => m.content), ...extraTexts].forEach(text => {
+    PATTERNS.forEach(([kind, pattern]) => {
+      for (const match of text.matchAll(pattern)) {
+        if (!entries.has(match[0])) add(kind, match[0], nextToken(TOKEN_PREFIX[kind]));
+      }
+    });
+  });
+
+  return Array.from(entries.values());
+};
+
+export interface Redactor {
+  redactText: (text: string) => string;
+  redactSender: (sender: string) => string;
+  restoreText: (text: string) => string;
+}
+
+export const createRedactor = (table: RedactionEntry[]): Redactor => {
+  const forward = new Map(table.map(e => [e.original, e.token]));
+  // 同一人的多個名稱共用代稱，還原時取第一個（主要顯示名稱）
+  const backward = new Map<string, string>();
+  table.forEach(e => { if (!backward.has(e.token)) backward.set(e.token, e.original); });
+
+  const contentPattern = buildAlternation(table.map(e => e.original).filter(o => o.length >= MIN_CONTENT_TERM_LENGTH));
+  // 模型偶爾會省略方括號，還原時一併處理
+  const tokenPattern = buildAlternation(Array.from(backward.keys()).map(t => t.slice(1, -1)), '(?!\\d)');
+  const bracketed = tokenPattern && new RegExp(`\\[?(${tokenPattern.source})\\]?`, 'g');
+
+  return {
+    redactText: (text) => contentPattern ? text.replace(contentPattern, m => forward.get(m) ?? m) : text,
+    redactSender: (sender) => forward.get(sender) ?? sender,
+    restoreText: (text) => bracketed ? text.replace(bracketed, (_, token) => backward.get(`[${token}]`) ?? token) : text,
+  };
+};
+
+export const redactMessages = (messages: ChatMessage[], redactor: Redactor): ChatMessage[] =>
+  messages.map(m => ({ ...m, sender: redactor.redactSender(m.sender), content: redactor.redactText(m.content) }));
+
+export const redactProfiles = (profiles: ParticipantProfile[], redactor: Redactor): ParticipantProfile[] =>
+  profiles.map(p => ({ ...p, name: redactor.redactSender(p.name), aliases: [] }));
+
+const restoreValue = <T>(value: T, redactor: Redactor): T => {
+  if (typeof value === 'string') return redactor.restoreText(value) as T;
+  if (Array.isArray(value)) return value.map(v => restoreValue(v, redactor)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreValue(v, redactor)])) as T;
+  }
+  return value;
+};
+
+/**
+ * 將模型回傳結果中的代稱換回原文，之後才進行原文比對驗證。
+ */
+export const restoreAnalysis = (analysis: AnalysisResult, redactor: Redactor): AnalysisResult =>
+  restoreValue(analysis, redactor);
+
+/**
+ * 各項個資在對話中出現的次數，供預覽畫面顯示。
+ */
+export const countRedactions = (messages: ChatMessage[], table: RedactionEntry[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  const pattern = buildAlternation(table.map(e => e.original).filter(o => o.length >= MIN_CONTENT_TERM_LENGTH));
+  messages.forEach(m => {
+    if (m.sender) counts[m.sender] = (counts[m.sender] || 0) + 1;
+    if (!pattern) return;
+    for (const match of m.content.matchAll(pattern)) counts[match[0]] = (counts[match[0]] || 0) + 1;
+  });
+  return counts;
+};
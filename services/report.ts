@@ -0,0 +1,501 @@
+import { AnalysisResult, CaseEvent, CaseFolder, ChatMessage, ChatSession, Commitment, ExcerptVerification, ParticipantProfile } from '../types';
+import { COMMITMENT_STATUS_LABELS, sortCommitments } from './commitments';
+import { computeMetrics, formatDuration } from './metrics';
+import { LEDGER_KIND_LABELS, buildLedger, summarizeByMonth } from './ledger';
+import { SCHEDULE_KIND_LABELS, extractSchedule } from './schedule';
+import { CUSTODY_ACTION_LABELS } from './custody';
+import { EDITABLE_FIELD_LABELS } from './editing';
+import { CALL_OUTCOME_LABELS, MESSAGE_KIND_LABELS, formatCallDuration, messageKindOf, parseCallRecord } from './messageKinds';
+import { GroupedExcerpt, PARTICIPANT_ROLE_LABELS, buildParticipantIndex, groupExcerpts, resolveProfiles } from './participants';
+
+// --- Printable evidence report ---
+//
+// 產生自成一體的 HTML 報告（內嵌樣式、無外部資源），可直接下載，
+// 或交由瀏覽器列印功能另存為 PDF，全程不離開本機。
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const RISK_CLASS: Record<CaseEvent['riskLevel'], string> = { '高': 'risk-high', '中': 'risk-mid', '低': 'risk-low' };
+
+const MATCH_LABELS: Record<ExcerptVerification['match'], string> = {
+  exact: '原文相符',
+  fuzzy: '近似原文',
+  unverified: '無法驗證',
+};
+
+const REPORT_STYLES = `
+  @page { size: A4; margin: 18mm 16mm; }
+  * { box-sizing: border-box; }
+  body { font-family: 'Noto Sans TC', 'PingFang TC', 'Microsoft JhengHei', sans-serif; color: #1e293b; font-size: 11pt; line-height: 1.6; margin: 0; }
+  h1 { font-size: 22pt; margin: 0 0 8mm; }
+  h2 { font-size: 15pt; border-bottom: 2px solid #0f172a; padding-bottom: 2mm; margin: 10mm 0 5mm; }
+  h3 { font-size: 12.5pt; margin: 0 0 2mm; }
+  .cover { page-break-after: always; padding-top: 30mm; }
+  .cover .subtitle { color: #64748b; font-weight: 700; letter-spacing: 0.2em; font-size: 9pt; margin-bottom: 4mm; }
+  table.meta { border-collapse: collapse; width: 100%; margin-top: 8mm; }
+  table.meta th { text-align: left; width: 32mm; color: #64748b; font-weight: 700; vertical-align: top; padding: 2mm 0; }
+  table.meta td { padding: 2mm 0; word-break: break-all; }
+  .hash { font-family: 'SFMono-Regular', Consolas, monospace; font-size: 8.5pt; }
+  .event { border: 1px solid #e2e8f0; border-radius: 4mm; padding: 5mm; margin-bottom: 6mm; page-break-inside: avoid; }
+  .event-head { display: flex; justify-content: space-between; align-items: flex-start; gap: 4mm; }
+  .badge { display: inline-block; padding: 0.5mm 2.5mm; border-radius: 1.5mm; font-size: 8.5pt; font-weight: 700; border: 1px solid; white-space: nowrap; }
+  .risk-high { color: #dc2626; border-color: #fecaca; background: #fef2f2; }
+  .risk-mid { color: #ea580c; border-color: #fed7aa; background: #fff7ed; }
+  .risk-low { color: #059669; border-color: #a7f3d0; background: #ecfdf5; }
+  .badge.human { color: #b45309; border-color: #fde68a; background: #fffbeb; }
+  .status-kept { color: #059669; border-color: #a7f3d0; background: #ecfdf5; }
+  .status-overdue { color: #dc2626; border-color: #fecaca; background: #fef2f2; }
+  .status-unknown { color: #64748b; border-color: #e2e8f0; background: #f8fafc; }
+  .muted { color: #64748b; font-size: 9pt; }
+  .label { color: #64748b; font-size: 9pt; font-weight: 700; margin-top: 3mm; }
+  ul.excerpts { margin: 1mm 0; padding-left: 5mm; }
+  ul.excerpts li { font-style: italic; }
+  .unverified { color: #b91c1c; text-decoration: line-through; }
+  .match { font-style: normal; font-size: 8pt; color: #64748b; margin-left: 2mm; }
+  .match.unverified-label { color: #b91c1c; text-decoration: none; font-weight: 700; }
+  .warning { color: #b91c1c; font-size: 9pt; font-weight: 700; }
+  .appendix { page-break-before: always; }
+  table.messages { border-collapse: collapse; width: 100%; font-size: 9.5pt; }
+  table.messages th, table.messages td { border-bottom: 1px solid #e2e8f0; padding: 1.5mm 2mm; vertical-align: top; text-align: left; }
+  table.messages th { color: #64748b; font-size: 8.5pt; }
+  table.messages td.content { white-space: pre-wrap; word-break: break-word; }
+  table.messages tr { page-break-inside: avoid; }
+  ol.custody { padding-left: 5mm; font-size: 9.5pt; }
+  footer { margin-top: 10mm; color: #94a3b8; font-size: 8pt; text-align: center; }
+`;
+
+const renderExcerpts = (label: string, excerpts: GroupedExcerpt[]) => {
+  if (!excerpts.length) return '';
+  const items = excerpts.map(({ text, verification: v, regrouped }) => {
+    const status = v
+      ? `<span class="match${v.match === 'unverified' ? ' unverified-label' : ''}">［${MATCH_LABELS[v.match]}${v.messageId ? `・${escapeHtml(v.messageId)}` : ''}］</span>`
+      : '';
+    const moved = regrouped ? '<span class="match">［依發言者角色調整分組］</span>' : '';
+    return `<li><span class="${v?.match === 'unverified' ? 'unverified' : ''}">「${escapeHtml(text)}」</span>${status}${moved}</li>`;
+  }).join('');
+  return `<div class="label">${label}</div><ul class="excerpts">${items}</ul>`;
+};
+
+const renderOrigin = (event: CaseEvent) => {
+  if (event.origin === 'human') return '<span class="badge human">人工建立</span>';
+  if (event.humanEdits?.length) {
+    const fields = Array.from(new Set(event.humanEdits.map(e => EDITABLE_FIELD_LABELS[e.field])));
+    return `<span class="badge">AI 產生</span> <span class="badge human">人工修改：${fields.join('、')}</span>`;
+  }
+  return '<span class="badge">AI 產生</span>';
+};
+
+const renderEvent = (event: CaseEvent, index: number, excerpts: Record<'family' | 'staff', GroupedExcerpt[]>) => {
+  const invalidIds = event.verification?.invalidMessageIds || [];
+  return `
+    <div class="event">
+      <div class="event-head">
+        <h3>${index + 1}. ${escapeHtml(event.title)}</h3>
+        <span class="badge ${RISK_CLASS[event.riskLevel] || ''}">風險 ${escapeHtml(event.riskLevel)}</span>
+      </div>
+      <div class="muted">${escapeHtml(event.dateRange)}　${renderOrigin(event)}</div>
+      <div class="label">事件摘要</div>
+      <div>${escapeHtml(event.summary)}</div>
+      ${renderExcerpts('家屬/案主口述', excerpts.family)}
+      ${renderExcerpts('單位/機構回應', excerpts.staff)}
+      <div class="label">具體風險說明</div>
+      <div>${escapeHtml(event.riskAssessment)}</div>
+      <div class="label">專業備註</div>
+      <div>${escapeHtml(event.remarks)}</div>
+      ${event.relatedMessageIds?.length ? `<div class="label">引用訊息</div><div class="hash">${event.relatedMessageIds.map(escapeHtml).join('、')}</div>` : ''}
+      ${invalidIds.length ? `<div class="warning">對話中不存在的引用 ID：${invalidIds.map(escapeHtml).join('、')}</div>` : ''}
+    </div>`;
+};
+
+const renderCommitments = (commitments: Commitment[] | undefined) => {
+  if (!commitments?.length) return '';
+  const rows = sortCommitments(commitments).map(c => `
+        <tr>
+          <td><span class="badge status-${c.status}">${COMMITMENT_STATUS_LABELS[c.status]}</span>${c.statusOrigin === 'human' ? '<br><span class="badge human">人工判定</span>' : ''}</td>
+          <td>${escapeHtml(c.owner)}</td>
+          <td>${escapeHtml(c.promisedDate || '未約定')}</td>
+          <td class="content">${escapeHtml(c.description)}<div class="muted">${escapeHtml(c.statusNote)}</div></td>
+          <td class="hash">${[c.sourceMessageId, ...c.evidenceMessageIds].map(escapeHtml).join('<br>')}</td>
+        </tr>`).join('');
+  return `
+  <section>
+    <h2>承諾追蹤（${commitments.length}）</h2>
+    <table class="messages">
+      <thead><tr><th>狀態</th><th>承諾者</th><th>期限</th><th>承諾內容與判定依據</th><th>原文／依據訊息</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </section>`;
+};
+
+// 本機計算的回應時間與訊息量，供稽核時說明回應情形
+const renderMetrics = (messages: ChatMessage[], profiles: ParticipantProfile[]) => {
+  const metrics = computeMetrics(messages, profiles);
+  if (metrics.messageCount === 0) return '';
+  const senders = metrics.bySender.map(s => `${escapeHtml(s.name)}（${PARTICIPANT_ROLE_LABELS[s.role]}）${s.count} 則`).join('、');
+  const worst = metrics.worstResponses.map(r => `
+        <tr>
+          <td class="hash">${escapeHtml(r.requestId)}</td>
+          <td>${escapeHtml(r.requestDatetime)}${r.afterHours ? '<br><span class="muted">非上班時段</span>' : ''}</td>
+          <td>${escapeHtml(r.responder)}</td>
+          <td>${formatDuration(r.waitMinutes)}</td>
+        </tr>`).join('');
+  return `
+  <section>
+    <h2>溝通指標</h2>
+    <p class="muted">依訊息時間於本機計算，非 AI 估計。回應時間為家屬/案主訊息至單位人員第一則回覆的間隔；上班時段為平日 8–18 時。</p>
+    <table class="meta">
+      <tr><th>回應次數</th><td>${metrics.latency.count} 次</td></tr>
+      <tr><th>回應中位數</th><td>${formatDuration(metrics.latency.medianMinutes)}（90% 於 ${formatDuration(metrics.latency.p90Minutes)} 內）</td></tr>
+      <tr><th>非上班時段</th><td>${metrics.afterHoursLatency.count} 次，中位數 ${formatDuration(metrics.afterHoursLatency.medianMinutes)}</td></tr>
+      <tr><th>未獲回覆</th><td>${metrics.unanswered.length ? metrics.unanswered.map(escapeHtml).join('、') : '無'}</td></tr>
+      <tr><th>訊息量</th><td>${metrics.messageCount} 則，${metrics.byDay.length} 天有對話<br>${senders}</td></tr>
+      ${metrics.calls.count ? `<tr><th>通話</th><td>${metrics.calls.count} 通（接通 ${metrics.calls.answered}、未接通 ${metrics.calls.missed}），總通話 ${formatCallDuration(metrics.calls.totalSeconds)}</td></tr>` : ''}
+      ${metrics.kindCounts.unsent ? `<tr><th>收回訊息</th><td>${metrics.kindCounts.unsent} 則</td></tr>` : ''}
+    </table>
+    ${worst ? `
+    <div class="label">最久的回應</div>
+    <table class="messages">
+      <thead><tr><th>家屬訊息 ID</th><th>時間</th><th>回覆者</th><th>等待</th></tr></thead>
+      <tbody>${worst}</tbody>
+    </table>` : ''}
+  </section>`;
+};
+
+// 每月金額合計與爭議明細；完整帳目另以 CSV 匯出
+const renderLedger = (messages: ChatMessage[], profiles: ParticipantProfile[]) => {
+  const entries = buildLedger(messages, profiles);
+  if (entries.length === 0) return '';
+  const money = (amount: number | null) => amount === null ? '—' : `NT$ ${amount.toLocaleString()}`;
+  const disputes = entries.filter(e => e.kind === 'dispute' || e.kind === 'refund');
+  return `
+  <section>
+    <h2>費用帳目</h2>
+    <p class="muted">由標為「費用」的訊息以規則擷取，金額以原文為準。</p>
+    <table class="messages">
+      <thead><tr><th>月份</th><th>應收</th><th>已付款</th><th>退費</th><th>爭議</th></tr></thead>
+      <tbody>
+        ${summarizeByMonth(entries).map(m => `
+        <tr><td>${m.month}</td><td>${money(m.charged)}</td><td>${money(m.paid)}</td><td>${money(m.refunded)}</td><td>${m.disputes} 筆</td></tr>`).join('')}
+      </tbody>
+    </table>
+    ${disputes.length ? `
+    <div class="label">爭議與退費</div>
+    <table class="messages">
+      <thead><tr><th>ID</th><th>時間</th><th>發送者</th><th>類型</th><th>金額</th><th>原文</th></tr></thead>
+      <tbody>
+        ${disputes.map(e => `
+        <tr>
+          <td class="hash">${escapeHtml(e.messageId)}</td>
+          <td>${escapeHtml(e.datetime)}</td>
+          <td>${escapeHtml(e.sender)}</td>
+          <td>${LEDGER_KIND_LABELS[e.kind]}</td>
+          <td>${money(e.amount)}</td>
+          <td class="content">${escapeHtml(e.excerpt)}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>` : ''}
+  </section>`;
+};
+
+// 只列出有衝突或未見對方確認的排程異動，完整時程另以 .ics 匯出
+const renderSchedule = (messages: ChatMessage[], profiles: ParticipantProfile[]) => {
+  const items = extractSchedule(messages, profiles);
+  const flagged = items.filter(i => i.conflicts.length > 0 || (i.kind !== 'visit' && !i.confirmedBy));
+  if (flagged.length === 0) return '';
+  return `
+  <section>
+    <h2>服務排程異動（${flagged.length} / ${items.length} 筆待釐清）</h2>
+    <p class="muted">由標為「排程」的訊息以規則擷取，相對日期以訊息當天換算。</p>
+    <table class="messages">
+      <thead><tr><th>ID</th><th>服務日期</th><th>類型</th><th>發送者</th><th>原文</th><th>狀況</th></tr></thead>
+      <tbody>
+        ${flagged.map(i => `
+        <tr>
+          <td class="hash">${escapeHtml(i.messageId)}</td>
+          <td>${i.date}${i.endDate ? ` 至 ${i.endDate}` : i.time ? ` ${i.time}` : ''}</td>
+          <td>${SCHEDULE_KIND_LABELS[i.kind]}</td>
+          <td>${escapeHtml(i.sender)}</td>
+          <td class="content">${escapeHtml(i.excerpt)}</td>
+          <td>${[i.conflicts.length ? '<span class="warning">與其他排程衝突</span>' : '', i.confirmedBy ? `已確認（${escapeHtml(i.confirmedBy)}）` : '未見對方確認'].filter(Boolean).join('<br>')}</td>
+        </tr>`).join('')}
+      </tbody>
+    </table>
+  </section>`;
+};
+
+// 通話與收回訊息的完整清單，與一般文字分開列出以便引用
+const renderCallsAndUnsent = (messages: ChatMessage[], withChat = false) => {
+  const records = messages.filter(m => ['call', 'missedCall', 'unsent'].includes(messageKindOf(m)));
+  if (records.length === 0) return '';
+  return `
+  <section>
+    <h2>通話與收回紀錄（${records.length} 筆）</h2>
+    <p class="muted">依 LINE 匯出檔的系統訊息判斷；收回的訊息內容無法自匯出檔還原。</p>
+    <table class="messages">
+      <thead><tr><th>ID</th>${withChat ? '<th>來源對話</th>' : ''}<th>時間</th><th>類型</th><th>發送者</th><th>內容</th></tr></thead>
+      <tbody>
+        ${records.map(m => {
+          const call = parseCallRecord(m.content);
+          const detail = call
+            ? `${call.media === 'video' ? '視訊' : '語音'}・${CALL_OUTCOME_LABELS[call.outcome]}${call.durationSeconds !== undefined ? `・${formatCallDuration(call.durationSeconds)}` : ''}`
+            : escapeHtml(m.content);
+          return `
+        <tr>
+          <td class="hash">${escapeHtml(m.id)}</td>
+          ${withChat ? `<td>${escapeHtml(m.chat || '')}</td>` : ''}
+          <td>${escapeHtml(m.datetime)}</td>
+          <td>${MESSAGE_KIND_LABELS[messageKindOf(m)]}</td>
+          <td>${escapeHtml(m.sender || '（系統）')}</td>
+          <td class="content">${detail}</td>
+        </tr>`;
+        }).join('')}
+      </tbody>
+    </table>
+  </section>`;
+};
+
+// 事件與承諾引用的訊息、摘錄對應到的訊息，依對話順序排列
+const collectCitedMessages = (analysis: AnalysisResult | undefined, messages: ChatMessage[]): ChatMessage[] => {
+  const cited = new Set<string>();
+  analysis?.events.forEach(e => {
+    e.relatedMessageIds?.forEach(id => cited.add(id));
+    [...(e.verification?.familyExcerpts || []), ...(e.verification?.staffExcerpts || [])]
+      .forEach(v => { if (v.messageId) cited.add(v.messageId); });
+  });
+  analysis?.commitments?.forEach(c => [c.sourceMessageId, ...c.evidenceMessageIds].forEach(id => cited.add(id)));
+  return messages.filter(m => cited.has(m.id));
+};
+
+const renderAnnotations = (session: ChatSession) => {
+  const annotated = session.messages.filter(m => session.annotations?.[m.id]);
+  if (annotated.length === 0) return '';
+  const rows = annotated.map(m => {
+    const a = session.annotations![m.id];
+    return `
+      <tr>
+        <td class="hash">${escapeHtml(m.id)}</td>
+        <td>${escapeHtml(m.datetime)}</td>
+        <td>${escapeHtml(m.sender || '（系統）')}</td>
+        <td class="content">${escapeHtml(m.content)}</td>
+        <td>${a.pinned ? '釘選' : ''}${a.note ? `${a.pinned ? '<br>' : ''}${escapeHtml(a.note)}` : ''}</td>
+      </tr>`;
+  }).join('');
+  return `
+  <section>
+    <h2>人工釘選與註記（${annotated.length} 則）</h2>
+    <table class="messages">
+      <thead><tr><th>ID</th><th>時間</th><th>發送者</th><th>內容</th><th>人工註記</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </section>`;
+};
+
+const renderParticipants = (profiles: ParticipantProfile[]) =>
+  profiles.map(p => {
+    const aliases = p.aliases.length > 0 ? `（曾用名稱：${p.aliases.map(escapeHtml).join('、')}）` : '';
+    return `${escapeHtml(p.name)}・${PARTICIPANT_ROLE_LABELS[p.role]}${aliases}`;
+  }).join('<br>');
+
+// 案件報告的訊息來自多個對話，另加來源欄
+const renderMessageTable = (messages: ChatMessage[], withChat = false) => `
+  <table class="messages">
+    <thead><tr><th>ID</th>${withChat ? '<th>來源對話</th>' : ''}<th>時間</th><th>發送者</th><th>內容</th></tr></thead>
+    <tbody>
+      ${messages.map(m => `
+        <tr>
+          <td class="hash">${escapeHtml(m.id)}</td>
+          ${withChat ? `<td>${escapeHtml(m.chat || '')}</td>` : ''}
+          <td>${escapeHtml(m.datetime)}</td>
+          <td>${escapeHtml(m.sender || '（系統）')}</td>
+          <td class="content">${escapeHtml(m.content)}</td>
+        </tr>`).join('')}
+    </tbody>
+  </table>`;
+
+const renderAnalysis = (
+  analysis: AnalysisResult | undefined,
+  messagesById: Map<string, ChatMessage>,
+  participantIndex: Map<string, ParticipantProfile>
+) => analysis ? `
+  <section>
+    <h2>綜合評述</h2>
+    <p>${escapeHtml(analysis.summary)}</p>
+    <p class="muted">情緒基調：${escapeHtml(analysis.sentiment)}${analysis.relationshipDynamic ? `　互動關係：${escapeHtml(analysis.relationshipDynamic)}` : ''}</p>
+  </section>
+
+  <section>
+    <h2>證據保全事件清單（${analysis.events.length}）</h2>
+    ${analysis.events.map((e, i) => renderEvent(e, i, groupExcerpts(e, messagesById, participantIndex))).join('')}
+  </section>
+  ${renderCommitments(analysis.commitments)}` : `
+  <section>
+    <h2>分析</h2>
+    <p class="muted">本封存尚未進行事件分析。</p>
+  </section>`;
+
+export const buildReportHtml = (session: ChatSession): string => {
+  const analysis = session.analysis;
+  const generatedAt = new Date().toLocaleString();
+  const title = session.fileName.replace('.txt', '');
+  const cited = collectCitedMessages(session.analysis, session.messages);
+  const profiles = resolveProfiles(session.participants, session.participantProfiles);
+  const participantIndex = buildParticipantIndex(profiles);
+  const messagesById = new Map(session.messages.map(m => [m.id, m]));
+
+  return `<!DOCTYPE html>
+<html lang="zh-TW">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)} - 證據分析報告</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <section class="cover">
+    <div class="subtitle">長照對話證據保全報告</div>
+    <h1>${escapeHtml(title)}</h1>
+    <table class="meta">
+      <tr><th>檔案名稱</th><td>${escapeHtml(session.fileName)}</td></tr>
+      <tr><th>SHA-256</th><td class="hash">${escapeHtml(session.fileHash)}</td></tr>
+      ${(session.sources || []).length > 1
+        ? `<tr><th>來源檔案</th><td>${session.sources!.map(s => `${escapeHtml(s.fileName)}<br><span class="hash">${s.sha256}</span>`).join('<br>')}</td></tr>`
+        : ''}
+      <tr><th>匯入日期</th><td>${new Date(session.timestamp).toLocaleString()}</td></tr>
+      <tr><th>訊息數量</th><td>${session.messages.length} 則</td></tr>
+      <tr><th>參與者</th><td>${renderParticipants(profiles)}</td></tr>
+      <tr><th>報告產生</th><td>${generatedAt}</td></tr>
+    </table>
+  </section>
+
+  ${renderAnalysis(analysis, messagesById, participantIndex)}
+
+  ${renderMetrics(session.messages, profiles)}
+
+  ${renderCallsAndUnsent(session.messages)}
+
+  ${renderLedger(session.messages, profiles)}
+
+  ${renderSchedule(session.messages, profiles)}
+
+  ${cited.length ? `
+  <section class="appendix">
+    <h2>附錄：引用訊息全文（${cited.length} 則）</h2>
+    ${renderMessageTable(cited)}
+  </section>` : ''}
+
+  ${renderAnnotations(session)}
+
+  ${session.custodyLog?.length ? `
+  <section>
+    <h2>保管紀錄</h2>
+    <ol class="custody">
+      ${session.custodyLog.map(e => `<li>${new Date(e.timestamp).toLocaleString()}［${CUSTODY_ACTION_LABELS[e.action]}］${escapeHtml(e.detail)}<br><span class="hash">${e.hash}</span></li>`).join('')}
+    </ol>
+  </section>` : ''}
+
+  <footer>本報告由長照 Intel 於本機產生 · ${generatedAt}</footer>
+</body>
+</html>`;
+};
+
+/**
+ * 案件報告：以合併時間軸（訊息帶有來源對話）為依據，列出各成員對話的雜湊與最新保管紀錄。
+ */
+export const buildCaseReportHtml = (
+  folder: CaseFolder,
+  members: ChatSession[],
+  messages: ChatMessage[],
+  profiles: ParticipantProfile[]
+): string => {
+  const generatedAt = new Date().toLocaleString();
+  const cited = collectCitedMessages(folder.analysis, messages);
+  const participantIndex = buildParticipantIndex(profiles);
+  const messagesById = new Map(messages.map(m => [m.id, m]));
+  const range = messages.length > 0 ? `${messages[0].date} 至 ${messages[messages.length - 1].date}` : '—';
+
+  return `<!DOCTYPE html>
+<html lang="zh-TW">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(folder.name)} - 案件證據分析報告</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <section class="cover">
+    <div class="subtitle">長照案件證據保全報告</div>
+    <h1>${escapeHtml(folder.name)}</h1>
+    <table class="meta">
+      <tr><th>涵蓋期間</th><td>${range}</td></tr>
+      <tr><th>訊息數量</th><td>${messages.length} 則（${members.length} 個對話）</td></tr>
+      <tr><th>參與者</th><td>${renderParticipants(profiles)}</td></tr>
+      <tr><th>報告產生</th><td>${generatedAt}</td></tr>
+    </table>
+  </section>
+
+  <section>
+    <h2>納入對話（${members.length}）</h2>
+    <table class="messages">
+      <thead><tr><th>對話</th><th>訊息</th><th>原始檔 SHA-256</th><th>最新保管紀錄</th></tr></thead>
+      <tbody>
+        ${members.map(s => {
+          const last = s.custodyLog?.[s.custodyLog.length - 1];
+          return `
+        <tr>
+          <td>${escapeHtml(s.fileName)}</td>
+          <td>${s.messages.length} 則</td>
+          <td class="hash">${escapeHtml(s.fileHash)}</td>
+          <td>${last ? `${new Date(last.timestamp).toLocaleString()}［${CUSTODY_ACTION_LABELS[last.action]}］<br><span class="hash">${last.hash}</span>` : '—'}</td>
+        </tr>`;
+        }).join('')}
+      </tbody>
+    </table>
+  </section>
+
+  ${renderAnalysis(folder.analysis, messagesById, participantIndex)}
+
+  ${renderMetrics(messages, profiles)}
+
+  ${renderCallsAndUnsent(messages, true)}
+
+  ${cited.length ? `
+  <section class="appendix">
+    <h2>附錄：引用訊息全文（${cited.length} 則）</h2>
+    ${renderMessageTable(cited, true)}
+  </section>` : ''}
+
+  <footer>本報告由長照 Intel 於本機產生 · ${generatedAt}</footer>
+</body>
+</html>`;
+};
+
+const PRINT_CLEANUP_FALLBACK_MS = 10 * 60 * 1000;
+
+/**
+ * 以隱藏 iframe 載入報告並開啟瀏覽器列印對話框（可選擇「另存為 PDF」）。
+ */
+export const printReport = (html: string) => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  iframe.srcdoc = html;
+  iframe.onload = () => {
+    const win = iframe.contentWindow;
+    if (!win) return;
+    // print() 在部分瀏覽器不會等待對話框關閉，列印結束後才移除；未觸發 afterprint 時以逾時保底
+    const fallback = setTimeout(() => iframe.remove(), PRINT_CLEANUP_FALLBACK_MS);
+    win.addEventListener('afterprint', () => {
+      clearTimeout(fallback);
+      iframe.remove();
+    });
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(iframe);
+};
@@ -0,0 +1,267 @@
+import { ChatMessage, ParticipantProfile, ParticipantRole } from '../types';
+import { buildParticipantIndex, roleSide } from './participants';
+import { addDays, formatDate, toIsoTimestamp, toUtcDate } from './datetime';
+
+// --- Service schedule extraction ---
+//
+// 從標為「排程」的訊息中以規則擷取服務日期、時間、暫停與換人，
+// 相對日期（明天、下週三）以訊息當天為基準換算。之後另一方的回覆若表示同意，
+// 視為已確認；同一天出現不同時間、或暫停期間仍排有服務者，標記為衝突。
+
+export const SCHEDULE_TAG = 'schedule';
+
+export type ScheduleItemKind = 'visit' | 'reschedule' | 'pause' | 'substitute';
+
+export const SCHEDULE_KIND_LABELS: Record<ScheduleItemKind, string> = {
+  visit: '服務',
+  reschedule: '時間異動',
+  pause: '暫停',
+  substitute: '換人/代班',
+};
+
+export interface ScheduleItem {
+  id: string;
+  messageId: string;
+  kind: ScheduleItemKind;
+  date: string;     // YYYY/MM/DD
+  endDate?: string; // 暫停等期間的最後一天
+  time?: string;    // HH:MM，未提到時間者為整天
+  sender: string;
+  role: ParticipantRole;
+  excerpt: string;
+  confirmedBy?: string; // 表示同意的回覆訊息 ID
+  conflicts: string[];  // 與此筆衝突的其他項目 ID
+}
+
+// 回覆需在幾則訊息內出現才算確認
+const CONFIRM_WINDOW = 8;
+
+const KIND_PATTERNS: [ScheduleItemKind, RegExp][] = [
+  ['pause', /暫停|停止服務|停(?:一|兩|幾)?(?:次|週|天)|取消|不用(?:來|過來|服務)|請假|住院/],
+  ['substitute', /更換|換人|換成|代班|代理|改由|另一位/],
+  ['reschedule', /調動|調整|改(?:到|成|為|在)|延後|提前|挪/],
+];
+
+const CONFIRM_PATTERN = /^(?:好|好的|OK|ok|收到|了解|瞭解|沒問題|可以|確認|謝謝|感謝)|(?:好的|收到|沒問題|可以的|已確認|了解)/;
+const REJECT_PATTERN = /不行|不可以|沒辦法|不方便|不要|不能/;
+
+const WEEKDAYS: Record<string, number> = { 日: 0, 天: 0, 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6 };
+const RELATIVE_DAYS: Record<string, number> = { 今天: 0, 今日: 0, 明天: 1, 明日: 1, 後天: 2, 大後天: 3 };
+
+// 只寫月日時取最接近訊息日期的年份，例如 12 月的訊息提到 1/5 指的是隔年
+const resolveMonthDay = (base: string, month: number, day: number) => {
+  const year = Number(base.slice(0, 4));
+  const baseMonth = Number(base.slice(5, 7));
+  const y = month - baseMonth > 6 ? year - 1 : baseMonth - month > 6 ? year + 1 : year;
+  return formatDate(new Date(Date.UTC(y, month - 1, day)));
+};
+
+const DATE_PATTERN = new RegExp([
+  '(\\d{4})[/.\\-年](\\d{1,2})[/.\\-月](\\d{1,2})', // 1–3 完整日期
+  '(\\d{1,2})[/月](\\d{1,2})[日號]?',               // 4–5 月日
+  '(大後天|後天|明天|明日|今天|今日)',               // 6 相對日
+  '(下下|下|這|本)?(?:週|星期|禮拜|周)([一二三四五六日天])', // 7–8 星期
+].join('|'), 'g');
+
+interface DateMention {
+  date: string;
+  index: number;
+  end: number;
+}
+
+const findDates = (text: string, base: string): DateMention[] => {
+  const mentions: DateMention[] = [];
+  for (const m of text.matchAll(DATE_PATTERN)) {
+    let date: string;
+    if (m[1]) {
+      date = formatDate(new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]))));
+    } else if (m[4]) {
+      const month = Number(m[4]);
+      const day = Number(m[5]);
+      if (month < 1 || month > 12 || day < 1 || day > 31) continue;
+      date = resolveMonthDay(base, month, day);
+    } else if (m[6]) {
+      date = addDays(base, RELATIVE_DAYS[m[6]]);
+    } else {
+      const target = WEEKDAYS[m[8]];
+      const today = toUtcDate(base).getUTCDay();
+      // 「週三」指本週或下一個週三；「下週三」固定指下週（週一起算）
+      const weeks = m[7] === '下下' ? 2 : m[7] === '下' ? 1 : 0;
+      const offset = weeks === 0 && m[7] === undefined
+        ? (target - today + 7) % 7
+        : weeks * 7 + ((target + 6) % 7) - ((today + 6) % 7);
+      date = addDays(base, offset);
+    }
+    // 「1/3 星期五」兩種寫法指同一天
+    const previous = mentions[mentions.length - 1];
+    if (previous?.date === date && /^\s*[(（]?\s*$/.test(text.slice(previous.end, m.index))) {
+      previous.end = m.index! + m[0].length;
+      continue;
+    }
+    mentions.push({ date, index: m.index!, end: m.index! + m[0].length });
+  }
+  return mentions;
+};
+
+const TIME_PATTERN = /(上午|早上|中午|下午|晚上)?\s*(\d{1,2})(?::(\d{2})|\s*點\s*(半|\d{1,2}分?)?)/;
+
+const findTime = (text: string) => {
+  const m = text.match(TIME_PATTERN);
+  if (!m) return undefined;
+  let hour = Number(m[2]);
+  const minute = m[3] ? Number(m[3]) : m[4] === '半' ? 30 : m[4] ? parseInt(m[4], 10) : 0;
+  if (hour > 23 || minute > 59) return undefined;
+  if ((m[1] === '下午' || m[1] === '晚上') && hour < 12) hour += 12;
+  if (m[1] === '中午' && hour < 6) hour += 12;
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+const detectKind = (text: string): ScheduleItemKind =>
+  KIND_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] || 'visit';
+
+const splitClauses = (content: string) =>
+  content.split(/[，。；;！!？?\n]+/).map(s => s.trim()).filter(Boolean);
+
+// 同一方以外的參與者在數則訊息內回覆同意，且未表示反對
+const findConfirmation = (messages: ChatMessage[], start: number, index: Map<string, ParticipantProfile>) => {
+  const source = messages[start];
+  const sourceSide = roleSide(index.get(source.sender)?.role || 'other');
+  for (const m of messages.slice(start + 1, start + 1 + CONFIRM_WINDOW)) {
+    if (m.isSystem || m.sender === source.sender) continue;
+    const side = roleSide(index.get(m.sender)?.role || 'other');
+    if (sourceSide && side === sourceSide) continue;
+    if (REJECT_PATTERN.test(m.content)) return undefined;
+    if (CONFIRM_PATTERN.test(m.content.trim())) return m.id;
+  }
+  return undefined;
+};
+
+const markConflicts = (items: ScheduleItem[]) => {
+  const link = (a: ScheduleItem, b: ScheduleItem) => {
+    if (!a.conflicts.includes(b.id)) a.conflicts.push(b.id);
+    if (!b.conflicts.includes(a.id)) b.conflicts.push(a.id);
+  };
+  // items 依訊息順序排列，b 一定晚於 a
+  items.forEach((a, i) => items.slice(i + 1).forEach(b => {
+    if (a.messageId === b.messageId) return;
+    const pause = a.kind === 'pause' ? a : b.kind === 'pause' ? b : null;
+    const other = pause === a ? b : a;
+    if (pause && other.kind !== 'pause') {
+      // 暫停期間內仍約了服務
+      if (other.date >= pause.date && other.date <= (pause.endDate || pause.date)) link(a, b);
+    } else if (!pause && a.date === b.date && a.time && b.time && a.time !== b.time && b.kind === 'visit') {
+      // 較晚的訊息若明說是改時間或換人，屬於異動而非衝突
+      link(a, b);
+    }
+  }));
+};
+
+/**
+ * 由排程訊息建立服務時程，依日期與時間排序。
+ */
+export const extractSchedule = (messages: ChatMessage[], profiles: ParticipantProfile[]): ScheduleItem[] => {
+  const index = buildParticipantIndex(profiles);
+  const items: ScheduleItem[] = [];
+
+  messages.forEach((m, position) => {
+    if (m.isSystem || !m.tags.includes(SCHEDULE_TAG)) return;
+    const profile = index.get(m.sender);
+    const clauses = splitClauses(m.content).map(text => ({ text, dates: findDates(text, m.date) }));
+    // 「3/8，暫停一次」：沒有日期的句子說明有日期句子的異動類型
+    const undated = clauses.filter(c => c.dates.length === 0).map(c => c.text).join(' ');
+    const undatedKind = detectKind(undated);
+    const confirmedBy = findConfirmation(messages, position, index);
+    let n = 0;
+
+    clauses.forEach(({ text: clause, dates }) => {
+      if (dates.length === 0) return;
+      const clauseKind = detectKind(clause);
+      const kind = clauseKind === 'visit' ? undatedKind : clauseKind;
+      const base = { messageId: m.id, kind, sender: profile?.name || m.sender, role: profile?.role || 'other' as ParticipantRole, excerpt: clause, confirmedBy, conflicts: [] };
+
+      // 「3/5 到 3/12 暫停」視為一段期間
+      const between = dates.length === 2 ? clause.slice(dates[0].end, dates[1].index) : '';
+      if (kind === 'pause' && /^\s*(?:到|至|~|～|-|－|—)\s*$/.test(between)) {
+        items.push({ ...base, id: `${m.id}#${n++}`, date: dates[0].date, endDate: dates[1].date });
+        return;
+      }
+      dates.forEach((d, i) => {
+        const tail = clause.slice(d.end, dates[i + 1]?.index ?? clause.length);
+        const time = findTime(tail) || (clauses.length > 1 && dates.length === 1 ? findTime(undated) : undefined);
+        items.push({ ...base, id: `${m.id}#${n++}`, date: d.date, time });
+      });
+    });
+  });
+
+  markConflicts(items);
+  return items.sort((a, b) => a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || ''));
+};
+
+// --- iCalendar export ---
+
+const escapeIcs = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545：每行不超過 75 個位元組，續行以空白開頭
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const ch of line) {
+    if (encoder.encode(current + ch).length > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (date: string) => date.replace(/\//g, '');
+
+const icsStamp = (timestamp: number) => new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// 有時間的排程長度
+const VISIT_MINUTES = 60;
+
+/**
+ * 匯出 .ics；有時間者依來源時區換算為 UTC 並排一小時（可跨日），其餘為整天事件。
+ */
+export const scheduleToIcs = (items: ScheduleItem[], calendarName: string, timeZone: string, now = Date.now()) => {
+  const events = items.map(item => {
+    const status = item.confirmedBy ? '已確認' : '未確認';
+    const warning = item.conflicts.length ? '；與其他排程衝突' : '';
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${item.id.replace(/[^\w-]/g, '-')}@line-intel`,
+      `DTSTAMP:${icsStamp(now)}`,
+    ];
+    if (item.time && !item.endDate) {
+      const start = Date.parse(toIsoTimestamp(item.date, item.time, timeZone));
+      lines.push(`DTSTART:${icsStamp(start)}`);
+      lines.push(`DTEND:${icsStamp(start + VISIT_MINUTES * 60000)}`);
+    } else {
+      lines.push(`DTSTART;VALUE=DATE:${icsDate(item.date)}`);
+      lines.push(`DTEND;VALUE=DATE:${icsDate(addDays(item.endDate || item.date, 1))}`);
+    }
+    lines.push(
+      `SUMMARY:${escapeIcs(`［${SCHEDULE_KIND_LABELS[item.kind]}］${item.excerpt.slice(0, 40)}`)}`,
+      `DESCRIPTION:${escapeIcs(`${item.sender}：${item.excerpt}\n來源訊息：${item.messageId}（${status}${warning}）`)}`,
+      `STATUS:${item.confirmedBy ? 'CONFIRMED' : 'TENTATIVE'}`,
+      'END:VEVENT'
+    );
+    return lines;
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//LINE Intel//Schedule Export//ZH-TW',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcs(calendarName)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...events.flat(),
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
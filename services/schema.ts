@@ -0,0 +1,59 @@
+// --- Structured output schemas ---
+//
+// 以 JSON Schema 子集描述 AI 需回傳的結構，同一份定義同時交給提供者約束輸出，
+// 並在採用前驗證回傳內容，不同提供者的輸出都須通過相同檢查。
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+const describeType = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * 回傳所有不符合 schema 之處，空陣列代表通過。
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} 應為物件，實際為 ${describeType(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || [])
+        .filter(key => record[key] === undefined)
+        .map(key => `${path}.${key} 缺少必要欄位`);
+      const nested = Object.entries(schema.properties || {})
+        .filter(([key]) => record[key] !== undefined)
+        .flatMap(([key, child]) => validateSchema(record[key], child, `${path}.${key}`));
+      return [...missing, ...nested];
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} 應為陣列，實際為 ${describeType(value)}`];
+      return schema.items ? value.flatMap((item, i) => validateSchema(item, schema.items!, `${path}[${i}]`)) : [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} 應為整數，實際為 ${JSON.stringify(value)}`];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} 應為數字，實際為 ${describeType(value)}`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} 應為布林值，實際為 ${describeType(value)}`];
+    case 'string':
+      if (typeof value !== 'string') return [`${path} 應為字串，實際為 ${describeType(value)}`];
+      return schema.enum && !schema.enum.includes(value)
+        ? [`${path} 應為 ${schema.enum.join('/')} 之一，實際為「${value}」`]
+        : [];
+  }
+};
+
+export const assertSchema = <T>(value: unknown, schema: JsonSchema): T => {
+  const issues = validateSchema(value, schema);
+  if (issues.length > 0) {
+    const shown = issues.slice(0, 5).join('；');
+    throw new Error(`AI 回傳內容不符合格式：${shown}${issues.length > 5 ? `（另有 ${issues.length - 5} 處）` : ''}`);
+  }
+  return value as T;
+};
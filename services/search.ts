@@ -0,0 +1,337 @@
+import { ChatMessage, ParticipantProfile, SavedSearch, TagRule } from '../types';
+import { PARTICIPANT_ROLE_LABELS, roleSide } from './participants';
+import { MESSAGE_KIND_LABELS, MESSAGE_KINDS, messageKindOf } from './messageKinds';
+
+// --- Message search queries ---
+//
+// 搜尋列支援簡單的查詢語法，空白分隔的條件預設為 AND：
+//   sender:王小明  role:居服員  tag:費用  kind:收回訊息  date:2024/03/01..2024/03/31  is:important
+//   "完整片語"  /正規[表示]式/i  -排除  NOT 排除  A OR B  (A | B) C
+// 未指定欄位的文字比對內容與發言者，與原本的關鍵字搜尋相同。
+
+const STORAGE_KEY = 'line_intel_pro_saved_searches';
+
+type TextMatch = { kind: 'text' | 'phrase'; value: string } | { kind: 'regex'; pattern: RegExp };
+
+export type SearchNode =
+  | { type: 'and' | 'or'; children: SearchNode[] }
+  | { type: 'not'; child: SearchNode }
+  | { type: 'term'; match: TextMatch }
+  | { type: 'field'; field: SearchField; value: string };
+
+type SearchField = 'sender' | 'role' | 'tag' | 'kind' | 'date' | 'is';
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  sender: 'sender', from: 'sender', 發言者: 'sender',
+  role: 'role', 角色: 'role',
+  tag: 'tag', 標籤: 'tag',
+  kind: 'kind', 類型: 'kind',
+  date: 'date', 日期: 'date',
+  is: 'is',
+};
+
+type Token =
+  | { type: '(' | ')' | 'or' | 'and' | 'not' }
+  | { type: 'term'; match: TextMatch }
+  | { type: 'field'; field: SearchField; value: string };
+
+export interface SearchContext {
+  participantIndex: Map<string, ParticipantProfile>;
+  tagRules: TagRule[];
+}
+
+export interface ParsedQuery {
+  node: SearchNode | null; // 空查詢時為 null，代表不篩選
+  error: string | null;
+}
+
+const readQuoted = (input: string, start: number) => {
+  const end = input.indexOf('"', start + 1);
+  if (end === -1) throw new Error('引號未結束');
+  return { value: input.slice(start + 1, end), next: end + 1 };
+};
+
+const readWord = (input: string, start: number) => {
+  let i = start;
+  while (i < input.length && !/[\s()|]/.test(input[i])) i++;
+  return { value: input.slice(start, i), next: i };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(' || ch === ')') { tokens.push({ type: ch }); i++; continue; }
+    if (ch === '|') { tokens.push({ type: 'or' }); i++; continue; }
+    if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) { tokens.push({ type: 'not' }); i++; continue; }
+    if (ch === '"') {
+      const { value, next } = readQuoted(input, i);
+      if (value) tokens.push({ type: 'term', match: { kind: 'phrase', value } });
+      i = next;
+      continue;
+    }
+    if (ch === '/') {
+      let end = i + 1;
+      while (end < input.length && input[end] !== '/') end += input[end] === '\\' ? 2 : 1;
+      if (end >= input.length) throw new Error('正規表示式缺少結尾的 /');
+      // 未指定旗標時預設不分大小寫，與一般關鍵字一致
+      const flags = /^[a-z]*/.exec(input.slice(end + 1))![0];
+      const source = input.slice(i + 1, end);
+      try {
+        tokens.push({ type: 'term', match: { kind: 'regex', pattern: new RegExp(source, flags || 'i') } });
+      } catch (err) {
+        throw new Error(`正規表示式 /${source}/ 無效：${err instanceof Error ? err.message : String(err)}`);
+      }
+      i = end + 1 + flags.length;
+      continue;
+    }
+
+    const { value: word, next } = readWord(input, i);
+    i = next;
+    if (word === 'OR') { tokens.push({ type: 'or' }); continue; }
+    if (word === 'AND') { tokens.push({ type: 'and' }); continue; }
+    if (word === 'NOT') { tokens.push({ type: 'not' }); continue; }
+
+    const colon = word.indexOf(':');
+    const field = colon > 0 ? FIELD_ALIASES[word.slice(0, colon).toLowerCase()] : undefined;
+    if (field) {
+      let value = word.slice(colon + 1);
+      // 欄位值可加引號以包含空白，例如 sender:"王 小明"
+      if (!value && input[i] === '"') {
+        const quoted = readQuoted(input, i);
+        value = quoted.value;
+        i = quoted.next;
+      }
+      if (!value) throw new Error(`${word} 缺少條件值`);
+      tokens.push({ type: 'field', field, value });
+    } else {
+      tokens.push({ type: 'term', match: { kind: 'text', value: word } });
+    }
+  }
+  return tokens;
+};
+
+const parseTokens = (tokens: Token[]): SearchNode | null => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const parseOr = (): SearchNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): SearchNode => {
+    const children = [parseUnary()];
+    while (pos < tokens.length && peek().type !== 'or' && peek().type !== ')') {
+      if (peek().type === 'and') pos++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): SearchNode => {
+    const token = tokens[pos++];
+    if (!token) throw new Error('查詢不完整');
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', child: parseUnary() };
+      case '(': {
+        const inner = parseOr();
+        if (tokens[pos++]?.type !== ')') throw new Error('括號未閉合');
+        return inner;
+      }
+      case 'term':
+        return { type: 'term', match: token.match };
+      case 'field':
+        return { type: 'field', field: token.field, value: token.value };
+      default:
+        throw new Error(`「${token.type === ')' ? ')' : token.type.toUpperCase()}」位置不正確`);
+    }
+  };
+
+  if (tokens.length === 0) return null;
+  const node = parseOr();
+  if (pos < tokens.length) throw new Error('多餘的「)」');
+  return node;
+};
+
+export const parseQuery = (input: string): ParsedQuery => {
+  try {
+    return { node: parseTokens(tokenize(input.trim())), error: null };
+  } catch (err) {
+    return { node: null, error: err instanceof Error ? err.message : String(err) };
+  }
+};
+
+const normalizeDate = (value: string) => {
+  const m = /^(\d{4})[/.-](\d{1,2})(?:[/.-](\d{1,2}))?$/.exec(value);
+  if (!m) return null;
+  const month = m[2].padStart(2, '0');
+  return m[3] ? `${m[1]}/${month}/${m[3].padStart(2, '0')}` : `${m[1]}/${month}`;
+};
+
+/**
+ * date: 的條件值轉為起訖字串（含端點），可為單日、單月或以 .. 表示的區間，區間一端可省略。
+ */
+const parseDateFilter = (value: string): [string, string] | null => {
+  const [from, to] = value.includes('..') ? value.split('..') : [value, value];
+  const start = from ? normalizeDate(from) : '0000/00/00';
+  const end = to ? normalizeDate(to) : '9999/99/99';
+  if (!start || !end) return null;
+  // 單月的結束端以「YYYY/MM/~」涵蓋當月每一天
+  return [start, end.length === 7 ? `${end}/~` : end];
+};
+
+const textMatches = (match: TextMatch, text: string) => {
+  if (match.kind === 'regex') {
+    match.pattern.lastIndex = 0;
+    return match.pattern.test(text);
+  }
+  return text.toLowerCase().includes(match.value.toLowerCase());
+};
+
+/**
+ * 將查詢轉為訊息篩選函式；欄位值無法辨識（例如不存在的標籤）時該條件不符合任何訊息。
+ */
+export const compileQuery = (node: SearchNode | null, ctx: SearchContext): ((m: ChatMessage) => boolean) => {
+  if (!node) return () => true;
+
+  const senderNames = (m: ChatMessage) => {
+    const profile = ctx.participantIndex.get(m.sender);
+    return profile && profile.name !== m.sender ? [m.sender, profile.name] : [m.sender];
+  };
+
+  const build = (n: SearchNode): ((m: ChatMessage) => boolean) => {
+    switch (n.type) {
+      case 'and': {
+        const parts = n.children.map(build);
+        return m => parts.every(p => p(m));
+      }
+      case 'or': {
+        const parts = n.children.map(build);
+        return m => parts.some(p => p(m));
+      }
+      case 'not': {
+        const inner = build(n.child);
+        return m => !inner(m);
+      }
+      case 'term':
+        return m => textMatches(n.match, m.content) || senderNames(m).some(name => textMatches(n.match, name));
+      case 'field':
+        return buildField(n.field, n.value);
+    }
+  };
+
+  const buildField = (field: SearchField, value: string): ((m: ChatMessage) => boolean) => {
+    const lower = value.toLowerCase();
+    switch (field) {
+      case 'sender':
+        return m => senderNames(m).some(name => name.toLowerCase().includes(lower));
+      case 'role': {
+        const roles = (Object.keys(PARTICIPANT_ROLE_LABELS) as (keyof typeof PARTICIPANT_ROLE_LABELS)[])
+          .filter(r => r.toLowerCase() === lower || PARTICIPANT_ROLE_LABELS[r] === value);
+        // 亦接受「staff / 機構方」「家屬方」以依立場篩選
+        const side = lower === 'staff' || value === '機構方' ? 'staff' : value === '家屬方' ? 'family' : null;
+        return m => {
+          const profile = ctx.participantIndex.get(m.sender);
+          if (!profile) return false;
+          return roles.includes(profile.role) || (!!side && roleSide(profile.role) === side);
+        };
+      }
+      case 'tag': {
+        const ids = ctx.tagRules.filter(r => r.id.toLowerCase() === lower || r.label === value).map(r => r.id);
+        if (ids.length === 0) ids.push(value);
+        return m => m.tags.some(t => ids.includes(t));
+      }
+      case 'kind': {
+        // 「通話」同時涵蓋未接通話
+        const kinds = MESSAGE_KINDS.filter(k => k.toLowerCase() === lower || MESSAGE_KIND_LABELS[k] === value);
+        if (kinds.includes('call')) kinds.push('missedCall');
+        return m => kinds.includes(messageKindOf(m));
+      }
+      case 'date': {
+        const range = parseDateFilter(value);
+        return m => !!range && m.date >= range[0] && m.date <= range[1];
+      }
+      case 'is':
+        return m => (lower === 'important' || value === '重要') && !!m.isImportant;
+    }
+  };
+
+  return build(node);
+};
+
+/**
+ * 取出可在訊息內容中標示的條件（排除 NOT 之下的條件），供搜尋結果反白。
+ */
+export const collectHighlights = (node: SearchNode | null): RegExp[] => {
+  if (!node) return [];
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(collectHighlights);
+    case 'not':
+    case 'field':
+      return [];
+    case 'term': {
+      const { match } = node;
+      if (match.kind === 'regex') {
+        const flags = match.pattern.flags.includes('g') ? match.pattern.flags : `${match.pattern.flags}g`;
+        return [new RegExp(match.pattern.source, flags)];
+      }
+      return [new RegExp(match.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi')];
+    }
+  }
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export const splitHighlights = (text: string, patterns: RegExp[]): HighlightSegment[] => {
+  const ranges: [number, number][] = [];
+  patterns.forEach(pattern => {
+    for (const m of text.matchAll(pattern)) {
+      if (m[0].length > 0) ranges.push([m.index!, m.index! + m[0].length]);
+    }
+  });
+  if (ranges.length === 0) return [{ text, match: false }];
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  });
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  merged.forEach(([start, end]) => {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    cursor = end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+};
+
+export const loadSavedSearches = (): SavedSearch[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveSavedSearches = (searches: SavedSearch[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(searches));
+};
@@ -0,0 +1,187 @@
+import { Attachment, CaseFolder, ChatMessage, ChatSession, SourceFile } from '../types';
+
+// --- IndexedDB session storage ---
+//
+// session 的中繼資料、訊息、原始匯出檔與附件分別存放，側欄只需載入中繼資料，
+// 其餘在開啟該 session 時才讀取。案件只記錄成員 session 的 ID 與案件層級分析。
+
+const DB_NAME = 'line_intel_pro';
+const DB_VERSION = 3;
+const LEGACY_STORAGE_KEY = 'line_intel_pro_sessions';
+
+const SESSION_STORE = 'sessions';
+const MESSAGE_STORE = 'messages';
+const SOURCE_STORE = 'sources';
+const CASE_STORE = 'cases';
+const ATTACHMENT_STORE = 'attachments';
+
+type SessionRecord = Omit<ChatSession, 'messages' | 'sources' | 'attachments'> & { messageCount: number };
+
+interface MessageRecord {
+  sessionId: string;
+  messages: ChatMessage[];
+}
+
+interface SourceRecord {
+  sessionId: string;
+  sources: SourceFile[];
+}
+
+interface AttachmentRecord {
+  sessionId: string;
+  attachments: Attachment[];
+}
+
+export interface SessionWrite {
+  session: ChatSession;
+  writeMessages: boolean; // 僅在訊息已載入且有變動時寫入
+  writeSources: boolean;
+  writeAttachments: boolean;
+}
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(MESSAGE_STORE)) db.createObjectStore(MESSAGE_STORE, { keyPath: 'sessionId' });
+      if (!db.objectStoreNames.contains(SOURCE_STORE)) db.createObjectStore(SOURCE_STORE, { keyPath: 'sessionId' });
+      if (!db.objectStoreNames.contains(CASE_STORE)) db.createObjectStore(CASE_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(ATTACHMENT_STORE)) db.createObjectStore(ATTACHMENT_STORE, { keyPath: 'sessionId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const getDatabase = () => (dbPromise ??= openDatabase());
+
+const toSessionRecord = (session: ChatSession, messageCount: number): SessionRecord => {
+  const { messages, sources, attachments, ...meta } = session;
+  return { ...meta, messageCount };
+};
+
+/**
+ * 讀取所有 session 的中繼資料；messages 為空陣列，需另以 loadSessionData 載入。
+ */
+export const loadSessionSummaries = async (): Promise<ChatSession[]> => {
+  const db = await getDatabase();
+  const tx = db.transaction(SESSION_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(SESSION_STORE).getAll() as IDBRequest<SessionRecord[]>);
+  return records
+    .map(r => ({ ...r, messages: [] }))
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const loadSessionData = async (id: string): Promise<Pick<ChatSession, 'messages' | 'sources' | 'attachments'>> => {
+  const db = await getDatabase();
+  const tx = db.transaction([MESSAGE_STORE, SOURCE_STORE, ATTACHMENT_STORE], 'readonly');
+  const [messageRecord, sourceRecord, attachmentRecord] = await Promise.all([
+    requestToPromise(tx.objectStore(MESSAGE_STORE).get(id) as IDBRequest<MessageRecord | undefined>),
+    requestToPromise(tx.objectStore(SOURCE_STORE).get(id) as IDBRequest<SourceRecord | undefined>),
+    requestToPromise(tx.objectStore(ATTACHMENT_STORE).get(id) as IDBRequest<AttachmentRecord | undefined>),
+  ]);
+  return { messages: messageRecord?.messages || [], sources: sourceRecord?.sources, attachments: attachmentRecord?.attachments };
+};
+
+/**
+ * 以單一交易寫入變動的 session 並刪除已移除者，失敗時整批回滾。
+ */
+export const writeSessions = async (writes: SessionWrite[], deletedIds: string[]) => {
+  const db = await getDatabase();
+  const tx = db.transaction([SESSION_STORE, MESSAGE_STORE, SOURCE_STORE, ATTACHMENT_STORE], 'readwrite');
+  const sessionStore = tx.objectStore(SESSION_STORE);
+  const messageStore = tx.objectStore(MESSAGE_STORE);
+  const sourceStore = tx.objectStore(SOURCE_STORE);
+  const attachmentStore = tx.objectStore(ATTACHMENT_STORE);
+
+  writes.forEach(({ session, writeMessages, writeSources, writeAttachments }) => {
+    const messageCount = writeMessages ? session.messages.length : session.messageCount ?? session.messages.length;
+    sessionStore.put(toSessionRecord(session, messageCount));
+    if (writeMessages) messageStore.put({ sessionId: session.id, messages: session.messages });
+    if (writeSources) {
+      if (session.sources) sourceStore.put({ sessionId: session.id, sources: session.sources });
+      else sourceStore.delete(session.id);
+    }
+    if (writeAttachments) {
+      if (session.attachments) attachmentStore.put({ sessionId: session.id, attachments: session.attachments });
+      else attachmentStore.delete(session.id);
+    }
+  });
+  deletedIds.forEach(id => {
+    sessionStore.delete(id);
+    messageStore.delete(id);
+    sourceStore.delete(id);
+    attachmentStore.delete(id);
+  });
+
+  await transactionDone(tx);
+};
+
+export const loadCases = async (): Promise<CaseFolder[]> => {
+  const db = await getDatabase();
+  const tx = db.transaction(CASE_STORE, 'readonly');
+  const records = await requestToPromise(tx.objectStore(CASE_STORE).getAll() as IDBRequest<CaseFolder[]>);
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const writeCases = async (writes: CaseFolder[], deletedIds: string[]) => {
+  const db = await getDatabase();
+  const tx = db.transaction(CASE_STORE, 'readwrite');
+  const store = tx.objectStore(CASE_STORE);
+  writes.forEach(folder => store.put(folder));
+  deletedIds.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+/**
+ * 首次啟動時將舊版 localStorage 資料搬入 IndexedDB，成功後才移除舊資料。
+ * 回傳搬移的 session 數。
+ */
+export const migrateLegacyStorage = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return 0;
+  const legacy: ChatSession[] = JSON.parse(saved);
+  await writeSessions(legacy.map(session => ({ session, writeMessages: true, writeSources: true, writeAttachments: true })), []);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return legacy.length;
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const describeStorageError = (error: unknown) => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'QuotaExceededError') return '儲存空間已滿，最新變更未能保存。請匯出並刪除舊的封存紀錄。';
+  if (name === 'InvalidStateError' || name === 'UnknownError') return '瀏覽器儲存空間無法使用（可能為私密瀏覽模式）。';
+  return `儲存失敗：${error instanceof Error ? error.message : String(error)}`;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
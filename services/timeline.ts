@@ -0,0 +1,114 @@
+import { AnalysisResult, CaseEvent, ChatMessage } from '../types';
+import { addDays, formatDate } from './datetime';
+
+// --- Event dates & timeline ---
+//
+// dateRange 是模型或人工填寫的自由文字（「2024/03/01 ~ 03/05」、「3月2日；3月9日」），
+// 在此解析為起訖日期供時間軸使用；解析不到時改用事件引用訊息的日期。
+
+const isValidDate = (y: number, m: number, d: number) => {
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+};
+
+const RANGE_SEPARATOR = /^\s*(?:~|～|-|－|—|–|至|到)\s*$/;
+const RANGE_DATE_PATTERN = /(\d{4})\s*[/.\-年]\s*(\d{1,2})\s*[/.\-月]\s*(\d{1,2})|(?<!\d)(\d{1,2})\s*[/月]\s*(\d{1,2})(?!\d)/g;
+
+/**
+ * 取出文字中的所有日期並回傳最早與最晚者。只寫月日時沿用同一段文字中前一個日期的年份
+ * （區間的結束日早於開始日則視為跨年），沒有則取參考日期的年份。
+ */
+export const parseDateRange = (text: string, referenceDate: string): { startDate: string; endDate: string } | null => {
+  const dates: string[] = [];
+  let year = Number(referenceDate.slice(0, 4));
+  let previousEnd = -1;
+  for (const m of (text || '').matchAll(RANGE_DATE_PATTERN)) {
+    const month = Number(m[2] || m[4]);
+    const day = Number(m[3] || m[5]);
+    let y = m[1] ? Number(m[1]) : year;
+    // 「2024/12/30 至 1/2」跨年；以頓號、分號列舉的日期不在此限
+    const previous = dates[dates.length - 1];
+    const isRangeEnd = previousEnd >= 0 && RANGE_SEPARATOR.test(text.slice(previousEnd, m.index));
+    if (!m[1] && isRangeEnd && formatDate(new Date(Date.UTC(y, month - 1, day))) < previous) y++;
+    if (!isValidDate(y, month, day)) continue;
+    year = y;
+    previousEnd = m.index! + m[0].length;
+    dates.push(formatDate(new Date(Date.UTC(y, month - 1, day))));
+  }
+  if (dates.length === 0) return null;
+  dates.sort();
+  return { startDate: dates[0], endDate: dates[dates.length - 1] };
+};
+
+/**
+ * 為事件補上起訖日期。dateRange 解析出的日期若落在對話期間之外（模型換算錯誤），
+ * 以引用訊息的日期為準。
+ */
+export const normalizeEventDates = (event: CaseEvent, messagesById: Map<string, ChatMessage>, span: [string, string] | null): CaseEvent => {
+  const related = (event.relatedMessageIds || [])
+    .map(id => messagesById.get(id)?.date)
+    .filter((d): d is string => !!d)
+    .sort();
+  const reference = related[0] || span?.[0];
+  const parsed = reference ? parseDateRange(event.dateRange, reference) : null;
+  const inSpan = parsed && (!span || (parsed.startDate <= span[1] && parsed.endDate >= span[0]));
+
+  if (inSpan) return { ...event, startDate: parsed!.startDate, endDate: parsed!.endDate };
+  if (related.length > 0) return { ...event, startDate: related[0], endDate: related[related.length - 1] };
+  const { startDate: _start, endDate: _end, ...rest } = event;
+  return rest;
+};
+
+export const withEventDates = (analysis: AnalysisResult, messages: ChatMessage[]): AnalysisResult => {
+  const messagesById = new Map(messages.map(m => [m.id, m]));
+  const span: [string, string] | null = messages.length > 0 ? [messages[0].date, messages[messages.length - 1].date] : null;
+  return { ...analysis, events: analysis.events.map(e => normalizeEventDates(e, messagesById, span)) };
+};
+
+export interface DayActivity {
+  date: string;
+  count: number;
+  importantCount: number;
+  tagCounts: Record<string, number>;
+  firstMessageId?: string;
+}
+
+/**
+ * 由第一天到最後一天逐日統計訊息量與標籤，沒有訊息的日子也列出，讓時間軸能呈現空檔。
+ */
+export const buildDailyActivity = (messages: ChatMessage[]): DayActivity[] => {
+  if (messages.length === 0) return [];
+  const byDate = new Map<string, DayActivity>();
+  messages.forEach(m => {
+    const day = byDate.get(m.date) || { date: m.date, count: 0, importantCount: 0, tagCounts: {}, firstMessageId: m.id };
+    day.count++;
+    if (m.isImportant) day.importantCount++;
+    m.tags.forEach(tag => { day.tagCounts[tag] = (day.tagCounts[tag] || 0) + 1; });
+    byDate.set(m.date, day);
+  });
+
+  const dates = Array.from(byDate.keys()).sort();
+  const days: DayActivity[] = [];
+  for (let date = dates[0]; date <= dates[dates.length - 1]; date = addDays(date, 1)) {
+    days.push(byDate.get(date) || { date, count: 0, importantCount: 0, tagCounts: {} });
+  }
+  return days;
+};
+
+/**
+ * 將事件分配到不重疊的欄位，回傳每個事件所在的欄位序號。
+ */
+export const assignLanes = (events: CaseEvent[]): Map<string, number> => {
+  const laneEnds: string[] = [];
+  const lanes = new Map<string, number>();
+  [...events]
+    .filter(e => e.startDate)
+    .sort((a, b) => a.startDate!.localeCompare(b.startDate!) || b.endDate!.localeCompare(a.endDate!))
+    .forEach(e => {
+      let lane = laneEnds.findIndex(end => end < e.startDate!);
+      if (lane === -1) lane = laneEnds.length;
+      laneEnds[lane] = e.endDate!;
+      lanes.set(e.id, lane);
+    });
+  return lanes;
+};
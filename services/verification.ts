@@ -0,0 +1,100 @@
+import { AnalysisResult, CaseEvent, ChatMessage, EventVerification, ExcerptVerification } from '../types';
+import { trackCommitments } from './commitments';
+import { withEventDates } from './timeline';
+
+// --- Verification of AI output ---
+//
+// 模型回傳的訊息 ID 與原文摘錄在採用前須對照原始對話：
+// 不存在的 ID 會被標記，摘錄則回溯到實際的 ChatMessage。
+
+const FUZZY_THRESHOLD = 0.6;
+
+// 去除空白、標點與引號，並將全形英數轉為半形，以容忍模型的格式差異；承諾比對與事件合併也共用
+export const normalize = (text: string) =>
+  text
+    .replace(/[！-～]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/[\s\p{P}\p{S}]/gu, '')
+    .toLowerCase();
+
+export const bigrams = (text: string) => {
+  const set = new Set<string>();
+  if (text.length === 1) set.add(text);
+  for (let i = 0; i < text.length - 1; i++) set.add(text.slice(i, i + 2));
+  return set;
+};
+
+// 摘錄的字元組有多少比例出現在訊息中（摘錄通常是訊息的一部分）
+const containment = (excerpt: Set<string>, message: Set<string>) => {
+  if (excerpt.size === 0) return 0;
+  let shared = 0;
+  excerpt.forEach(g => { if (message.has(g)) shared++; });
+  return shared / excerpt.size;
+};
+
+interface IndexedMessage {
+  id: string;
+  normalized: string;
+  grams: Set<string>;
+}
+
+export const buildMessageIndex = (messages: ChatMessage[]): IndexedMessage[] =>
+  messages.map(m => {
+    const normalized = normalize(m.content);
+    return { id: m.id, normalized, grams: bigrams(normalized) };
+  });
+
+/**
+ * 優先在事件引用的訊息中尋找，找不到再搜尋整段對話。
+ */
+export const matchExcerpt = (text: string, index: IndexedMessage[], preferredIds: Set<string>): ExcerptVerification => {
+  const target = normalize(text);
+  if (!target) return { text, match: 'unverified', score: 0 };
+
+  const preferred = index.filter(m => preferredIds.has(m.id));
+  for (const pool of [preferred, index]) {
+    const exact = pool.find(m => m.normalized.includes(target));
+    if (exact) return { text, match: 'exact', messageId: exact.id, score: 1 };
+  }
+
+  const grams = bigrams(target);
+  let best: { id: string; score: number } | null = null;
+  for (const pool of [preferred, index]) {
+    for (const m of pool) {
+      const score = containment(grams, m.grams);
+      if (!best || score > best.score) best = { id: m.id, score };
+    }
+    if (best && best.score >= FUZZY_THRESHOLD) break;
+  }
+
+  if (best && best.score >= FUZZY_THRESHOLD) {
+    return { text, match: 'fuzzy', messageId: best.id, score: Math.round(best.score * 100) / 100 };
+  }
+  return { text, match: 'unverified', score: best ? Math.round(best.score * 100) / 100 : 0 };
+};
+
+export const verifyEvent = (event: CaseEvent, index: IndexedMessage[], knownIds: Set<string>): EventVerification => {
+  const relatedIds = event.relatedMessageIds || [];
+  const preferredIds = new Set(relatedIds.filter(id => knownIds.has(id)));
+  return {
+    verifiedAt: Date.now(),
+    invalidMessageIds: relatedIds.filter(id => !knownIds.has(id)),
+    familyExcerpts: (event.familyExcerpts || []).map(t => matchExcerpt(t, index, preferredIds)),
+    staffExcerpts: (event.staffExcerpts || []).map(t => matchExcerpt(t, index, preferredIds)),
+  };
+};
+
+export const verifyAnalysis = (analysis: AnalysisResult, messages: ChatMessage[]): AnalysisResult => {
+  const index = buildMessageIndex(messages);
+  const knownIds = new Set(messages.map(m => m.id));
+  return withEventDates({
+    ...analysis,
+    events: analysis.events.map(e => ({ ...e, verification: verifyEvent(e, index, knownIds) })),
+    commitments: analysis.commitments && trackCommitments(analysis.commitments, messages),
+  }, messages);
+};
+
+export const countUnverified = (verification?: EventVerification) =>
+  verification
+    ? verification.invalidMessageIds.length +
+      [...verification.familyExcerpts, ...verification.staffExcerpts].filter(x => x.match === 'unverified').length
+    : 0;
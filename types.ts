@@ -0,0 +1,306 @@
+// --- Types ---
+
+export type LineDialect = 'zh-TW' | 'en' | 'ja' | 'unknown';
+
+export interface UnparsedLine {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export type TagIcon = 'banknote' | 'stethoscope' | 'calendar' | 'alert' | 'pill' | 'heart' | 'calendar-off' | 'car' | 'phone' | 'house' | 'tag';
+
+export type TagColor = 'orange' | 'blue' | 'purple' | 'red' | 'emerald' | 'pink' | 'sky' | 'amber' | 'slate';
+
+export interface TagRule {
+  id: string;          // 即訊息上的 tag 值
+  label: string;
+  icon: TagIcon;
+  color: TagColor;
+  enabled: boolean;
+  keywords: string[];  // 任一關鍵字出現即符合（不分大小寫）
+  patterns: string[];  // 正規表示式
+  excludeKeywords: string[]; // 出現即不符合，用於排除誤判
+  senderMode: 'any' | 'include' | 'exclude';
+  senders: string[];   // 發送者名稱包含其一
+  important: boolean;  // 符合時標為重要訊息
+}
+
+export type ParticipantRole = 'family' | 'client' | 'careWorker' | 'supervisor' | 'other';
+
+export interface ParticipantProfile {
+  name: string; // 主要顯示名稱
+  role: ParticipantRole;
+  aliases: string[]; // 同一人改過的其他 LINE 顯示名稱
+}
+
+// 由佔位文字與系統訊息判斷的訊息類型，偵測規則見 services/messageKinds.ts
+export type MessageKind =
+  | 'text' | 'photo' | 'sticker' | 'video' | 'file' | 'voice'
+  | 'call' | 'missedCall' | 'unsent' | 'join' | 'leave' | 'invite'
+  | 'album' | 'note' | 'announcement' | 'poll' | 'system';
+
+export interface ChatMessage {
+  id: string;
+  date: string;
+  time: string; // 匯出檔中的原始時間字串
+  datetime: string; // 顯示用，排序與計算間隔請用 timestamp
+  timestamp: string; // ISO 8601，依 session 的來源時區換算，見 services/datetime.ts
+  sender: string;
+  content: string;
+  isSystem: boolean; // 由 kind 推得，保留供舊程式與舊封存使用
+  kind?: MessageKind; // 未標示者為一般文字；舊封存可用 messageKindOf 即時判斷
+  isImportant: boolean;
+  tags: string[];
+  hash?: string; // SHA-256，見 services/custody.ts 的 hashMessage
+  source?: number; // 來自 sources 中第幾個匯出檔，未標示者為第一個
+  chat?: string; // 案件合併檢視中的來源聊天室名稱，不寫入儲存
+}
+
+export type ExcerptMatch = 'exact' | 'fuzzy' | 'unverified';
+
+export interface ExcerptVerification {
+  text: string;
+  match: ExcerptMatch;
+  messageId?: string; // 對應到的原始訊息，可供定位
+  score: number;      // 0-1，原文相似度
+}
+
+export interface EventVerification {
+  verifiedAt: number;
+  invalidMessageIds: string[]; // 模型引用但對話中不存在的 ID
+  familyExcerpts: ExcerptVerification[];
+  staffExcerpts: ExcerptVerification[];
+}
+
+export type Authorship = 'ai' | 'human';
+
+export type EditableEventField = 'title' | 'summary' | 'riskLevel' | 'remarks' | 'dateRange' | 'relatedMessageIds';
+
+export interface HumanEdit {
+  field: EditableEventField;
+  previous: string;
+  timestamp: number;
+}
+
+export interface CaseEvent {
+  id: string;
+  title: string;
+  summary: string;
+  riskLevel: '低' | '中' | '高';
+  riskAssessment: string;
+  remarks: string;
+  dateRange: string;
+  startDate?: string; // 由 dateRange 正規化的 YYYY/MM/DD，見 services/timeline.ts
+  endDate?: string;
+  relatedMessageIds: string[];
+  familyExcerpts: string[]; // 關鍵原文摘錄: 家屬/案主說過的話
+  staffExcerpts: string[];  // 關鍵原文摘錄: 單位/機構說過的話
+  verification?: EventVerification;
+  origin?: Authorship;      // 未標示者為 AI 產生
+  humanEdits?: HumanEdit[]; // 人工修改紀錄
+}
+
+export type CommitmentStatus = 'kept' | 'overdue' | 'unknown';
+
+export interface Commitment {
+  id: string;
+  description: string;
+  owner: string; // 做出承諾的人員
+  promisedDate: string; // YYYY/MM/DD，未約定期限時為空字串
+  sourceMessageId: string;
+  status: CommitmentStatus;
+  statusNote: string; // 判定依據
+  evidenceMessageIds: string[]; // 顯示已履行或期限後仍被追問的訊息
+  statusOrigin?: Authorship; // 人工判定者不會被自動追蹤覆寫
+}
+
+export interface AnalysisResult {
+  schemaVersion?: number; // 未標示者為 v2.6 以前的格式，匯入時由 services/migrations.ts 遷移
+  summary: string;
+  sentiment: string;
+  topics: string[];
+  relationshipDynamic: string;
+  events: CaseEvent[];
+  statistics: {
+    paymentCount: number;
+    serviceCount: number;
+    scheduleCount: number;
+    issueCount: number;
+  };
+  commitments?: Commitment[]; // 單位人員的承諾與履行狀況
+}
+
+export interface MessageAnnotation {
+  pinned: boolean; // 人工標記為證據
+  note: string;
+  updatedAt: number;
+}
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface AnalysisChunk {
+  index: number;
+  startDate: string;
+  endDate: string;
+  firstMessageId: string;
+  lastMessageId: string;
+  messageCount: number;
+  status: ChunkStatus;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+export type AiProviderKind = 'gemini' | 'openai';
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  model: string;
+  endpoint: string; // OpenAI 相容端點的 base URL，例如 http://localhost:11434/v1
+  apiKey: string; // 留空時 Gemini 使用建置時的 GEMINI_API_KEY
+  rememberApiKey: boolean; // 關閉時金鑰只保存到分頁關閉為止，不寫入 localStorage
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string; // 查詢語法見 services/search.ts
+  createdAt: string;
+}
+
+export type PiiKind = 'name' | 'phone' | 'nationalId' | 'email' | 'address' | 'custom';
+
+export interface RedactionEntry {
+  kind: PiiKind;
+  original: string;
+  token: string; // 送出時取代原文的代稱，例如 [電話1]
+}
+
+// 送出前預覽中的選擇，對封存提問時沿用
+export interface RedactionSettings {
+  enabled: boolean;
+  customTerms: string[];
+}
+
+export interface AnalysisJob {
+  startedAt: number;
+  chunks: AnalysisChunk[];
+  redaction?: RedactionEntry[]; // 送出前遮蔽的個資對照表，接續分析時沿用同一份代稱
+}
+
+export interface QaTurn {
+  id: string;
+  question: string;
+  answer: string; // 以 [訊息 ID] 標示引用處
+  citedMessageIds: string[];
+  invalidMessageIds: string[]; // 模型引用但未提供給模型的 ID
+  retrievedCount: number; // 送出的相關訊息數
+  provider: string;
+  redacted: boolean;
+  askedAt: number;
+}
+
+export type CustodyAction = 'import' | 'analysis' | 'edit' | 'export';
+
+export interface CustodyEntry {
+  seq: number;
+  action: CustodyAction;
+  timestamp: number;
+  detail: string;
+  manifestHash: string; // 該時點的封存清單雜湊
+  prevHash: string;     // 前一筆紀錄的 hash，形成雜湊鏈
+  hash: string;
+}
+
+export interface SourceFile {
+  fileName: string;
+  size: number;
+  sha256: string;
+  encoding: 'base64';
+  data: string; // 原始匯出檔位元組
+}
+
+export type AttachmentKind = 'photo' | 'video' | 'voice' | 'file';
+
+export interface Attachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  kind: AttachmentKind;
+  size: number;
+  sha256: string;
+  capturedAt?: string; // 由檔名或修改時間推得的 YYYY/MM/DD HH:mm，用於對應訊息
+  messageId?: string; // 對應的佔位訊息，未對應者仍保留於封存
+  matchedBy?: 'name' | 'time' | 'manual';
+  encoding: 'base64';
+  data: string;
+}
+
+export type ExportDiffKind = 'unsent' | 'changed' | 'missing';
+
+export interface ExportDiff {
+  messageId: string; // 先前匯出中的訊息
+  kind: ExportDiffKind;
+  sourceFileName: string; // 出現差異的較新匯出檔
+  laterContent?: string; // 較新匯出中同一位置的內容
+  detectedAt: number;
+}
+
+export interface ArchiveIntegrity {
+  algorithm: 'SHA-256';
+  generatedAt: number;
+  messageCount: number;
+  messagesHash: string;
+  analysisHash: string | null;
+  annotationsHash?: string;
+  manifestHash: string;
+}
+
+export interface ArchiveIssue {
+  severity: 'error' | 'warning';
+  kind: 'source' | 'message' | 'analysis' | 'annotation' | 'attachment' | 'manifest' | 'custody';
+  detail: string;
+  messageId?: string;
+}
+
+export interface ArchiveVerificationReport {
+  ok: boolean;
+  checkedAt: number;
+  checkedMessages: number;
+  issues: ArchiveIssue[];
+}
+
+export interface ChatSession {
+  id: string;
+  schemaVersion?: number; // 未標示者為第 1 版，載入時由 services/migrations.ts 遷移
+  fileName: string;
+  timestamp: number;
+  fileHash: string;
+  fileSize: number;
+  messages: ChatMessage[];
+  messageCount?: number; // 訊息尚未自儲存區載入時使用
+  participants: string[]; // 原始發送者顯示名稱
+  participantProfiles?: ParticipantProfile[]; // 人工指定的角色與同一人的別名
+  dialect?: LineDialect;
+  timeZone?: string; // 匯出裝置所在的 IANA 時區，例如 Asia/Taipei
+  unparsedLines?: UnparsedLine[]; // 無法解析的原始行，保留以免證據遺漏
+  analysis?: AnalysisResult;
+  analysisJob?: AnalysisJob; // 進行中或中斷的分段分析，可接續執行
+  annotations?: Record<string, MessageAnnotation>; // 以訊息 ID 為鍵的人工註記
+  qaHistory?: QaTurn[]; // 對封存提問的紀錄
+  redactionSettings?: RedactionSettings;
+  sources?: SourceFile[];
+  attachments?: Attachment[]; // 另行匯入的照片、影片、語音與文件
+  exportDiffs?: ExportDiff[]; // 合併多次匯出時，前後版本不一致的訊息
+  custodyLog?: CustodyEntry[];
+  integrity?: ArchiveIntegrity; // 匯出時計算
+}
+
+export interface CaseFolder {
+  id: string;
+  name: string; // 案主姓名或案號
+  sessionIds: string[]; // 依加入順序排列的成員對話
+  createdAt: number;
+  analysis?: AnalysisResult; // 以案件合併時間軸分析的結果，訊息 ID 為 <sessionId>:<messageId>
+  analysisJob?: AnalysisJob;
+}